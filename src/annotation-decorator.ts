@@ -0,0 +1,95 @@
+import * as vscode from "vscode";
+import { annotations } from "./annotations";
+import { Config } from "./config";
+import { verifiers } from "./utils";
+
+/**
+ * Highlights Whylson annotations in ligo documents
+ * and reports malformed ones as diagnostics.
+ */
+export class AnnotationDecorator {
+  private readonly _config: Config;
+  private readonly _collection: vscode.DiagnosticCollection;
+  private readonly _decoration: vscode.TextEditorDecorationType;
+
+  /**
+   * Creates an AnnotationDecorator instance.
+   * @param context Extension context, owner of the decoration and diagnostics.
+   * @param config Extension configurations, `highlightAnnotations` controls decorations.
+   */
+  constructor(context: vscode.ExtensionContext, config: Config) {
+    this._config = config;
+    this._collection = vscode.languages.createDiagnosticCollection("whylson");
+    this._decoration = vscode.window.createTextEditorDecorationType({
+      isWholeLine: true,
+      backgroundColor: new vscode.ThemeColor("editor.rangeHighlightBackground"),
+      overviewRulerColor: new vscode.ThemeColor(
+        "editorOverviewRuler.infoForeground"
+      ),
+      overviewRulerLane: vscode.OverviewRulerLane.Right,
+    });
+    context.subscriptions.push(this._collection, this._decoration);
+  }
+
+  /**
+   * Parses annotations of a ligo document, updating its diagnostics
+   * and the decorations of every editor it is visible in.
+   * @param doc A ligo document.
+   */
+  public refresh(doc: vscode.TextDocument) {
+    if (!verifiers.isLigoFile(doc)) {
+      return;
+    }
+
+    const diagnostics: vscode.Diagnostic[] = [];
+    const wellFormed: vscode.Range[] = [];
+
+    annotations.find(doc).forEach((annotation) => {
+      const { spec, problems } = annotations.parse(annotation.content);
+      const offset = doc.offsetAt(annotation.contentRange.start);
+
+      problems.forEach(({ message, span, severity }) => {
+        const diagnostic = new vscode.Diagnostic(
+          new vscode.Range(
+            doc.positionAt(offset + span[0]),
+            doc.positionAt(offset + span[1])
+          ),
+          message,
+          severity === "error"
+            ? vscode.DiagnosticSeverity.Error
+            : vscode.DiagnosticSeverity.Warning
+        );
+        diagnostic.source = "whylson";
+        diagnostics.push(diagnostic);
+      });
+
+      if (spec && problems.every((p) => p.severity !== "error")) {
+        wellFormed.push(annotation.range);
+      }
+    });
+
+    this._collection.set(doc.uri, diagnostics);
+
+    const ranges = this._config.getHighlightAnnotations() ? wellFormed : [];
+    vscode.window.visibleTextEditors
+      .filter((ed) => ed.document === doc)
+      .forEach((ed) => ed.setDecorations(this._decoration, ranges));
+  }
+
+  /**
+   * Refreshes every visible ligo document, e.g. after configurations change.
+   */
+  public refreshVisible() {
+    new Set(vscode.window.visibleTextEditors.map((ed) => ed.document)).forEach(
+      (doc) => this.refresh(doc)
+    );
+  }
+
+  /**
+   * Removes diagnostics of a ligo document.
+   * @param doc A ligo document, usually one being closed.
+   */
+  public clear(doc: vscode.TextDocument) {
+    this._collection.delete(doc.uri);
+  }
+}
@@ -0,0 +1,301 @@
+import * as vscode from "vscode";
+import { annotations } from "./annotations";
+import { ligoSyntax } from "./ligo-syntax";
+import {
+  AnnotationOperator,
+  AnnotationToken,
+  AnnotationType,
+  Maybe,
+} from "./types";
+
+/**
+ * Completion, hover and signature help for Whylson annotations in ligo documents.
+ */
+export class AnnotationLanguageFeatures
+  implements
+    vscode.CompletionItemProvider,
+    vscode.HoverProvider,
+    vscode.SignatureHelpProvider
+{
+  static readonly selector: vscode.DocumentSelector = [
+    { language: "ligo" },
+    { language: "mligo" },
+    { language: "jsligo" },
+    { language: "religo" },
+  ];
+
+  /**
+   * Suggests the next part of the annotation being written:
+   * types, operators valid for the chosen type, types valid for the chosen
+   * operator, clauses, and identifiers in scope of the annotated declaration.
+   */
+  provideCompletionItems(
+    doc: vscode.TextDocument,
+    position: vscode.Position
+  ): Maybe<vscode.CompletionItem[]> {
+    const prefix = this.annotationPrefix(doc, position);
+    if (prefix === undefined) {
+      return undefined;
+    }
+
+    // Token being typed is replaced, operators included
+    const partial = prefix.match(/[^\s{}]*$/)![0];
+    const before = prefix.slice(0, prefix.length - partial.length);
+    const range = new vscode.Range(
+      position.translate(0, -partial.length),
+      position
+    );
+
+    const items = /^\s*[a-z]+\s*\{/.test(before)
+      ? this.identifiers(doc, position)
+      : this.suggest(annotations.tokenize(before), doc, position);
+
+    items.forEach((item) => (item.range = range));
+    return items;
+  }
+
+  /**
+   * Explains the annotation under the cursor in verification terms.
+   */
+  provideHover(
+    doc: vscode.TextDocument,
+    position: vscode.Position
+  ): Maybe<vscode.Hover> {
+    const annotation = annotations
+      .find(doc)
+      .find((a) => a.range.contains(position));
+    if (!annotation) {
+      return undefined;
+    }
+
+    // Malformed annotations are explained by their diagnostics
+    const { spec } = annotations.parse(annotation.content);
+    if (!spec) {
+      return undefined;
+    }
+
+    const target = ligoSyntax.nextDeclaration(
+      ligoSyntax.declarations(doc),
+      annotation.range.end
+    );
+    const contents = new vscode.MarkdownString()
+      .appendMarkdown(
+        `**Whylson ${spec.kind === "clause" ? spec.clause : spec.kind}**\n\n`
+      )
+      .appendMarkdown(`${annotations.describe(spec)}\n\n`)
+      .appendMarkdown(annotations.explain(spec, target?.name));
+
+    return new vscode.Hover(contents, annotation.range);
+  }
+
+  /**
+   * Shows the three annotation forms, highlighting the part being written.
+   */
+  provideSignatureHelp(
+    doc: vscode.TextDocument,
+    position: vscode.Position
+  ): Maybe<vscode.SignatureHelp> {
+    const prefix = this.annotationPrefix(doc, position);
+    if (prefix === undefined) {
+      return undefined;
+    }
+
+    const help = new vscode.SignatureHelp();
+    help.signatures = [
+      signature(["<type>", "<operator>", "<value>"], " ", "Comparison"),
+      signature(
+        ["<low>", "<operator>", "<type>", "<operator>", "<high>"],
+        " ",
+        "Bound"
+      ),
+      signature(["<clause>", "{<term>}"], "", "Specification clause"),
+    ];
+
+    const tokens = annotations.tokenize(prefix);
+    const completed = /\s$/.test(prefix)
+      ? tokens.length
+      : Math.max(tokens.length - 1, 0);
+
+    if (/^\s*[a-z]+\s*\{/.test(prefix)) {
+      help.activeSignature = 2;
+      help.activeParameter = 1;
+    } else if (
+      tokens.length > 0 &&
+      (annotations.clauses as string[]).includes(tokens[0].text)
+    ) {
+      help.activeSignature = 2;
+      help.activeParameter = 0;
+    } else {
+      help.activeSignature =
+        tokens.length === 0 || annotations.isType(tokens[0]) ? 0 : 1;
+      help.activeParameter = Math.min(
+        completed,
+        help.signatures[help.activeSignature].parameters.length - 1
+      );
+    }
+    return help;
+  }
+
+  /**
+   * Finds the annotation text written before position, if position is inside one.
+   * Annotations still being written, without closing quote, are accepted.
+   * @returns Annotation text up to position, `undefined` outside annotations.
+   */
+  private annotationPrefix(
+    doc: vscode.TextDocument,
+    position: vscode.Position
+  ): Maybe<string> {
+    const line = doc.lineAt(position.line).text.slice(0, position.character);
+    const opening =
+      doc.languageId === "jsligo"
+        ? /(?:\[@comment\s*:?\s*|\/\/\s*@comment\s*:?\s*|\/\*\s*@comment\s*:?\s*)"((?:[^"\\]|\\.)*)$/
+        : /\[@comment\s*:?\s*"((?:[^"\\]|\\.)*)$/;
+    return line.match(opening)?.[1];
+  }
+
+  /**
+   * Suggestions following the complete tokens of an annotation.
+   */
+  private suggest(
+    tokens: AnnotationToken[],
+    doc: vscode.TextDocument,
+    position: vscode.Position
+  ): vscode.CompletionItem[] {
+    const [first, second] = tokens;
+    const comparison = !!first && annotations.isType(first);
+
+    switch (tokens.length) {
+      case 0:
+        return [
+          ...annotations.types.map((t) =>
+            item(t, vscode.CompletionItemKind.TypeParameter, "Annotated type")
+          ),
+          ...annotations.clauses.map((c) => {
+            const clause = item(
+              c,
+              vscode.CompletionItemKind.Keyword,
+              "Specification clause"
+            );
+            clause.insertText = new vscode.SnippetString(`${c}{$1}`);
+            return clause;
+          }),
+        ];
+      case 1:
+        return (
+          comparison
+            ? annotations.operatorsFor(first.text as AnnotationType)
+            : (["<", "<="] as AnnotationOperator[])
+        ).map((op) => item(op, vscode.CompletionItemKind.Operator, "Operator"));
+      case 2:
+        return comparison
+          ? this.identifiers(doc, position)
+          : annotations.isOperator(second)
+          ? annotations
+              .typesFor(second.text as AnnotationOperator)
+              .map((t) =>
+                item(
+                  t,
+                  vscode.CompletionItemKind.TypeParameter,
+                  `Type accepting ${second.text}`
+                )
+              )
+          : [];
+      case 3:
+        return comparison
+          ? []
+          : (["<", "<="] as AnnotationOperator[]).map((op) =>
+              item(op, vscode.CompletionItemKind.Operator, "Upper bound")
+            );
+      case 4:
+        return comparison ? [] : this.identifiers(doc, position);
+      default:
+        return [];
+    }
+  }
+
+  /**
+   * Identifiers in scope of the declaration following position:
+   * its own parameters and every declaration preceding it.
+   */
+  private identifiers(
+    doc: vscode.TextDocument,
+    position: vscode.Position
+  ): vscode.CompletionItem[] {
+    const decls = ligoSyntax.declarations(doc);
+    const target = ligoSyntax.nextDeclaration(decls, position);
+
+    const params = (target?.params || []).map((p) =>
+      item(
+        p.name,
+        vscode.CompletionItemKind.Variable,
+        p.type ? `${p.name} : ${p.type}` : `Parameter of ${target!.name}`
+      )
+    );
+
+    const visible = decls
+      .filter(
+        (d) =>
+          d.range.start.isBefore(position) && d.indent <= (target?.indent ?? 0)
+      )
+      .map((d) =>
+        item(
+          d.name,
+          d.kind === "function"
+            ? vscode.CompletionItemKind.Function
+            : d.kind === "module"
+            ? vscode.CompletionItemKind.Module
+            : vscode.CompletionItemKind.Constant,
+          d.header
+        )
+      );
+
+    const own = target
+      ? [item(target.name, vscode.CompletionItemKind.Reference, target.header)]
+      : [];
+
+    // Parameters come first, later declarations shadow earlier ones
+    const seen = new Set<string>();
+    return [...params, ...own, ...visible.reverse()].filter((i) => {
+      const label = i.label as string;
+      return seen.has(label) ? false : !!seen.add(label);
+    });
+  }
+}
+
+/**
+ * Creates a completion item with detail text.
+ */
+function item(
+  label: string,
+  kind: vscode.CompletionItemKind,
+  detail: string
+): vscode.CompletionItem {
+  const completion = new vscode.CompletionItem(label, kind);
+  completion.detail = detail;
+  return completion;
+}
+
+/**
+ * Creates a signature whose parameters are located by offsets,
+ * as the same parameter label may appear twice.
+ */
+function signature(
+  parts: string[],
+  separator: string,
+  documentation: string
+): vscode.SignatureInformation {
+  const info = new vscode.SignatureInformation(
+    parts.join(separator),
+    documentation
+  );
+  let offset = 0;
+  info.parameters = parts.map((part) => {
+    const parameter = new vscode.ParameterInformation([
+      offset,
+      offset + part.length,
+    ]);
+    offset += part.length + separator.length;
+    return parameter;
+  });
+  return info;
+}
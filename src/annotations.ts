@@ -0,0 +1,521 @@
+import * as vscode from "vscode";
+import {
+  Annotation,
+  AnnotationClause,
+  AnnotationOperator,
+  AnnotationProblem,
+  AnnotationSpec,
+  AnnotationToken,
+  AnnotationType,
+  Maybe,
+} from "./types";
+
+/**
+ * Whylson annotations, in the forms inserted by the snippets of `snippets.json`:
+ * comparisons from `whylson-eq`, `whylson-ineq`, `whylson-gt`, `whylson-ge`,
+ * `whylson-lt` and `whylson-le`, bounds from `whylson-bound`, and specification
+ * clauses from `whylson-requires`, `whylson-ensures`, `whylson-invariant`
+ * and `whylson-variant`.
+ */
+export namespace annotations {
+  export const types: AnnotationType[] = [
+    "int",
+    "nat",
+    "mutez",
+    "string",
+    "address",
+  ];
+  export const operators: AnnotationOperator[] = [
+    "=",
+    "<>",
+    ">",
+    ">=",
+    "<",
+    "<=",
+  ];
+  export const clauses: AnnotationClause[] = [
+    "requires",
+    "ensures",
+    "invariant",
+    "variant",
+  ];
+
+  /**
+   * Types only comparable through equality.
+   */
+  const equalityOnly: AnnotationType[] = ["string", "address"];
+
+  /**
+   * Types whose values are never negative.
+   */
+  const unsigned: AnnotationType[] = ["nat", "mutez"];
+
+  /**
+   * Attribute forms per ligo dialect. Every dialect accepts `[@comment: "..."]`,
+   * as inserted by snippets, jsligo also accepts its comment attribute forms.
+   */
+  const attribute = /\[@comment\s*:?\s*"((?:[^"\\]|\\.)*)"\s*\]/g;
+  const jsligoAttributes = [
+    /\/\/\s*@comment\s*:?\s*"((?:[^"\\]|\\.)*)"/g,
+    /\/\*\s*@comment\s*:?\s*"((?:[^"\\]|\\.)*)"\s*\*\//g,
+  ];
+
+  /**
+   * Finds every Whylson annotation in a ligo document.
+   * @param doc A ligo document of any dialect.
+   * @returns Annotations in order of appearance.
+   */
+  export function find(doc: vscode.TextDocument): Annotation[] {
+    const text = doc.getText();
+    const patterns =
+      doc.languageId === "jsligo"
+        ? [attribute, ...jsligoAttributes]
+        : [attribute];
+
+    const found: Annotation[] = [];
+    patterns.forEach((pattern) => {
+      pattern.lastIndex = 0;
+      let m: RegExpExecArray | null;
+      while ((m = pattern.exec(text))) {
+        const start = m.index + m[0].indexOf('"') + 1;
+        found.push({
+          range: new vscode.Range(
+            doc.positionAt(m.index),
+            doc.positionAt(m.index + m[0].length)
+          ),
+          contentRange: new vscode.Range(
+            doc.positionAt(start),
+            doc.positionAt(start + m[1].length)
+          ),
+          content: m[1],
+        });
+      }
+    });
+
+    return found.sort((a, b) => a.range.start.compareTo(b.range.start));
+  }
+
+  /**
+   * Blanks annotations out of the text of a ligo document, leaving line breaks,
+   * so that locations reported by ligo stay those of the document.
+   * @param doc A ligo document.
+   * @param dropped Annotations of the document to be left out.
+   * @returns Text of the document without the dropped annotations.
+   */
+  export function strip(
+    doc: vscode.TextDocument,
+    dropped: Annotation[]
+  ): string {
+    const text = doc.getText();
+    return dropped
+      .map((a) => [doc.offsetAt(a.range.start), doc.offsetAt(a.range.end)])
+      .sort(([a], [b]) => b - a)
+      .reduce(
+        (t, [start, end]) =>
+          t.slice(0, start) +
+          t.slice(start, end).replace(/[^\r\n]/g, " ") +
+          t.slice(end),
+        text
+      );
+  }
+
+  /**
+   * Parses annotation text against the forms of the Whylson snippets:
+   * - `<type> <operator> <value>`, e.g. `nat > 0`;
+   * - `<low> <operator> <type> <operator> <high>`, e.g. `0 <= int < 10`, operators being `<` or `<=`;
+   * - `<clause>{<term>}`, with clause one of `requires`, `ensures`, `invariant`, `variant`,
+   * the term being left to Whylson.
+   * @param content Annotation text as written between quotes.
+   * @returns The meaning of the annotation, if well formed, and every problem found.
+   */
+  export function parse(content: string): {
+    spec: Maybe<AnnotationSpec>;
+    problems: AnnotationProblem[];
+  } {
+    const clause = content.match(/^\s*([a-z]+)\s*\{([\s\S]*)\}\s*$/);
+    if (clause && (clauses as string[]).includes(clause[1])) {
+      return parseClause(content, clause[1] as AnnotationClause, clause[2]);
+    }
+
+    const tokens = tokenize(content);
+    const problems: AnnotationProblem[] = [];
+    const whole: [number, number] = [0, content.length];
+
+    if (tokens.length === 3 && isOperator(tokens[1])) {
+      const [type, operator, value] = tokens;
+      if (!isType(type)) {
+        problems.push(unknownType(type));
+        return { spec: undefined, problems };
+      }
+
+      const spec: AnnotationSpec = {
+        kind: "comparison",
+        type: type.text as AnnotationType,
+        operator: operator.text as AnnotationOperator,
+        value: value,
+      };
+      problems.push(...checkComparison(spec.type, operator, value));
+      return { spec, problems };
+    }
+
+    if (tokens.length === 5 && isOperator(tokens[1]) && isOperator(tokens[3])) {
+      const [low, lowOp, type, highOp, high] = tokens;
+      if (!isType(type)) {
+        problems.push(unknownType(type));
+        return { spec: undefined, problems };
+      }
+
+      const spec: AnnotationSpec = {
+        kind: "bound",
+        type: type.text as AnnotationType,
+        low: low,
+        lowOperator: lowOp.text as AnnotationOperator,
+        highOperator: highOp.text as AnnotationOperator,
+        high: high,
+      };
+      problems.push(...checkBound(spec.type, low, lowOp, highOp, high));
+      return { spec, problems };
+    }
+
+    if (clause) {
+      problems.push(
+        error(
+          `Unknown clause \`${clause[1]}\`, expected one of ${clauses
+            .map((c) => `\`${c}\``)
+            .join(", ")}.`,
+          [
+            content.indexOf(clause[1]),
+            content.indexOf(clause[1]) + clause[1].length,
+          ]
+        )
+      );
+    } else {
+      problems.push(
+        error(
+          content.trim().length === 0
+            ? "Empty Whylson annotation."
+            : "Expected `<type> <operator> <value>`, `<low> <operator> <type> <operator> <high>` or `<clause>{<term>}`.",
+          whole
+        )
+      );
+    }
+    return { spec: undefined, problems };
+  }
+
+  /**
+   * Describes a well formed annotation in plain words.
+   * @param spec Meaning of an annotation.
+   * @returns A sentence describing the annotation.
+   */
+  export function describe(spec: AnnotationSpec): string {
+    switch (spec.kind) {
+      case "comparison":
+        return `The annotated \`${spec.type}\` value is ${operatorWords(
+          spec.operator
+        )} \`${spec.value.text}\`.`;
+      case "bound":
+        return `The annotated \`${spec.type}\` value is ${operatorWords(
+          flip(spec.lowOperator)
+        )} \`${spec.low.text}\` and ${operatorWords(spec.highOperator)} \`${
+          spec.high.text
+        }\`.`;
+      case "clause":
+        return `\`${spec.clause}\` clause over \`${spec.body.trim()}\`.`;
+    }
+  }
+
+  /**
+   * Tells what an annotation applies to, as far as its snippet defines it.
+   * What Whylson proves of it is left to Whylson.
+   * @param spec Meaning of an annotation.
+   * @param target Name of the annotated declaration, if known.
+   * @returns Markdown text naming the annotation and its declaration.
+   */
+  export function explain(spec: AnnotationSpec, target: Maybe<string>): string {
+    const subject = target
+      ? `\`${target}\`, the next declaration`
+      : "the next declaration";
+    switch (spec.kind) {
+      case "comparison":
+      case "bound":
+        return `Annotation of ${subject}, checked by Whylson.`;
+      case "clause":
+        return `${
+          {
+            requires: "Pre-condition",
+            ensures: "Post-condition",
+            invariant: "Invariant",
+            variant: "Variant",
+          }[spec.clause]
+        } specification of ${subject}, checked by Whylson.`;
+    }
+  }
+
+  /**
+   * Lists the operators accepted for a type.
+   * @param type An annotation type.
+   * @returns Operators in the order of `operators`.
+   */
+  export function operatorsFor(type: AnnotationType): AnnotationOperator[] {
+    return equalityOnly.includes(type) ? ["=", "<>"] : operators;
+  }
+
+  /**
+   * Lists the types an operator is defined for.
+   * @param operator An annotation operator.
+   * @returns Types in the order of `types`.
+   */
+  export function typesFor(operator: AnnotationOperator): AnnotationType[] {
+    return operator === "=" || operator === "<>"
+      ? types
+      : types.filter((t) => !equalityOnly.includes(t));
+  }
+
+  /**
+   * Checks wheather a token is an annotation operator.
+   * @param token A token of annotation text.
+   * @returns `true` if token is an operator, `false` otherwise.
+   */
+  export function isOperator(token: AnnotationToken): boolean {
+    return (operators as string[]).includes(token.text);
+  }
+
+  /**
+   * Checks wheather a token is an annotation type.
+   * @param token A token of annotation text.
+   * @returns `true` if token is a type, `false` otherwise.
+   */
+  export function isType(token: AnnotationToken): boolean {
+    return (types as string[]).includes(token.text);
+  }
+
+  /**
+   * Validates a specification clause body, which must be non empty and balanced.
+   */
+  function parseClause(
+    content: string,
+    clause: AnnotationClause,
+    body: string
+  ): { spec: Maybe<AnnotationSpec>; problems: AnnotationProblem[] } {
+    const start = content.indexOf("{") + 1;
+    const span: [number, number] = [start, start + body.length];
+
+    if (body.trim().length === 0) {
+      return {
+        spec: undefined,
+        problems: [error(`\`${clause}\` clause requires a term.`, span)],
+      };
+    }
+
+    let depth = 0;
+    for (const c of body) {
+      depth += c === "{" ? 1 : c === "}" ? -1 : 0;
+      if (depth < 0) {
+        break;
+      }
+    }
+    if (depth !== 0) {
+      return {
+        spec: undefined,
+        problems: [error("Unbalanced braces in clause term.", span)],
+      };
+    }
+
+    return { spec: { kind: "clause", clause, body }, problems: [] };
+  }
+
+  /**
+   * Checks operator and value of a `<type> <operator> <value>` annotation.
+   */
+  function checkComparison(
+    type: AnnotationType,
+    operator: AnnotationToken,
+    value: AnnotationToken
+  ): AnnotationProblem[] {
+    const problems = [
+      ...checkOperator(type, operator),
+      ...checkValue(type, value),
+    ];
+    if (problems.length > 0 || !unsigned.includes(type)) {
+      return problems;
+    }
+
+    // Comparisons against zero on unsigned values are decided beforehand
+    const n = Number(value.text);
+    const span = spanOf(operator, value);
+    if (value.text.match(/^\d+$/) && n === 0) {
+      if (operator.text === ">=") {
+        problems.push(
+          warning(
+            `Every \`${type}\` is \`>= 0\`, annotation always holds.`,
+            span
+          )
+        );
+      } else if (operator.text === "<") {
+        problems.push(
+          warning(`No \`${type}\` is \`< 0\`, annotation never holds.`, span)
+        );
+      }
+    }
+    return problems;
+  }
+
+  /**
+   * Checks operators and bounds of a `<low> <operator> <type> <operator> <high>` annotation.
+   */
+  function checkBound(
+    type: AnnotationType,
+    low: AnnotationToken,
+    lowOp: AnnotationToken,
+    highOp: AnnotationToken,
+    high: AnnotationToken
+  ): AnnotationProblem[] {
+    const problems: AnnotationProblem[] = [];
+    [lowOp, highOp]
+      .filter((op) => op.text !== "<" && op.text !== "<=")
+      .forEach((op) =>
+        problems.push(
+          error(
+            `Bounds only accept \`<\` and \`<=\`, found \`${op.text}\`.`,
+            spanOf(op)
+          )
+        )
+      );
+    problems.push(
+      ...checkOperator(type, lowOp),
+      ...checkValue(type, low),
+      ...checkValue(type, high)
+    );
+    if (problems.length > 0) {
+      return problems;
+    }
+
+    // Literal bounds must leave room for at least one value
+    const numeric = /^-?\d+$/;
+    if (numeric.test(low.text) && numeric.test(high.text)) {
+      const room =
+        BigInt(high.text) -
+        BigInt(low.text) -
+        (lowOp.text === "<" ? 1n : 0n) -
+        (highOp.text === "<" ? 1n : 0n);
+      if (room < 0n) {
+        problems.push(
+          error(
+            `Range between \`${low.text}\` and \`${high.text}\` is empty.`,
+            spanOf(low, high)
+          )
+        );
+      }
+    }
+    return problems;
+  }
+
+  /**
+   * Ordering operators are not defined for every type.
+   */
+  function checkOperator(
+    type: AnnotationType,
+    operator: AnnotationToken
+  ): AnnotationProblem[] {
+    return equalityOnly.includes(type) &&
+      operator.text !== "=" &&
+      operator.text !== "<>"
+      ? [
+          error(
+            `\`${operator.text}\` is not defined for \`${type}\`, only \`=\` and \`<>\` are.`,
+            spanOf(operator)
+          ),
+        ]
+      : [];
+  }
+
+  /**
+   * Checks literal values against the annotated type, identifiers are accepted as is.
+   */
+  function checkValue(
+    type: AnnotationType,
+    value: AnnotationToken
+  ): AnnotationProblem[] {
+    if (isIdentifier(value.text)) {
+      return [];
+    }
+
+    const literals: Record<AnnotationType, RegExp> = {
+      int: /^-?\d+$/,
+      nat: /^\d+n?$/,
+      mutez: /^\d+(mutez|tez)?$/,
+      string: /^(\\"(?:[^"\\]|\\[^"])*\\"|'[^']*')$/,
+      address:
+        /^((tz[1-4]|KT1)[1-9A-HJ-NP-Za-km-z]{33}|\\"(tz[1-4]|KT1)[1-9A-HJ-NP-Za-km-z]{33}\\")$/,
+    };
+
+    return literals[type].test(value.text)
+      ? []
+      : [error(`\`${value.text}\` is not a valid \`${type}\`.`, spanOf(value))];
+  }
+
+  /**
+   * Splits annotation text into operators, escaped strings and words.
+   * @param content Annotation text, possibly incomplete.
+   * @returns Tokens in order of appearance.
+   */
+  export function tokenize(content: string): AnnotationToken[] {
+    const token = /<>|<=|>=|=|<|>|\\"(?:[^"\\]|\\[^"])*\\"|'[^']*'|[^\s<>=]+/g;
+    const tokens: AnnotationToken[] = [];
+    let m: RegExpExecArray | null;
+    while ((m = token.exec(content))) {
+      tokens.push({ text: m[0], offset: m.index });
+    }
+    return tokens;
+  }
+
+  function isIdentifier(text: string): boolean {
+    return /^[a-zA-Z_][a-zA-Z0-9_']*(\.[a-zA-Z_][a-zA-Z0-9_']*)*$/.test(text);
+  }
+
+  function unknownType(token: AnnotationToken): AnnotationProblem {
+    return error(
+      `Unknown type \`${token.text}\`, expected one of ${types
+        .map((t) => `\`${t}\``)
+        .join(", ")}.`,
+      spanOf(token)
+    );
+  }
+
+  /**
+   * Operator in plain words, in the order of `operators`.
+   */
+  function operatorWords(operator: AnnotationOperator): string {
+    return [
+      "equal to",
+      "different from",
+      "greater than",
+      "greater than or equal to",
+      "lesser than",
+      "lesser than or equal to",
+    ][operators.indexOf(operator)];
+  }
+
+  /**
+   * Operator with operands swapped, `low < x` reads as `x > low`.
+   */
+  function flip(operator: AnnotationOperator): AnnotationOperator {
+    const flipped: AnnotationOperator[] = ["=", "<>", "<", "<=", ">", ">="];
+    return flipped[operators.indexOf(operator)];
+  }
+
+  function spanOf(
+    first: AnnotationToken,
+    last: AnnotationToken = first
+  ): [number, number] {
+    return [first.offset, last.offset + last.text.length];
+  }
+
+  function error(message: string, span: [number, number]): AnnotationProblem {
+    return { message, span, severity: "error" };
+  }
+
+  function warning(message: string, span: [number, number]): AnnotationProblem {
+    return { message, span, severity: "warning" };
+  }
+}
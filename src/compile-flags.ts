@@ -0,0 +1,215 @@
+import { FlagOption, Maybe, ParsedFlags } from "./types";
+
+export namespace compileFlags {
+  /**
+   * Options of `ligo compile contract` offered by the flags editor.
+   * Availability of each is checked against the installed ligo.
+   */
+  export const known: FlagOption[] = [
+    {
+      label: "Protocol",
+      names: ["--protocol", "-p"],
+      group: "protocol",
+      values: ["jakarta", "kathmandu", "lima", "mumbai", "nairobi", "oxford"],
+      description: "Tezos protocol the contract is compiled for",
+    },
+    {
+      label: "Syntax",
+      names: ["--syntax", "-s"],
+      group: "syntax",
+      values: ["pascaligo", "cameligo", "reasonligo", "jsligo"],
+      description: "Syntax of the source, inferred from its extension if unset",
+    },
+    {
+      label: "Disable warnings",
+      names: ["--no-warn"],
+      group: "warnings",
+      values: undefined,
+      description: "Do not report compiler warnings",
+    },
+    {
+      label: "Warnings as errors",
+      names: ["--werror"],
+      group: "warnings",
+      values: undefined,
+      description: "Fail compilation on any warning",
+    },
+    {
+      label: "Typed Michelson optimizations",
+      names: ["--enable-michelson-typed-opt"],
+      group: "optimization",
+      values: undefined,
+      description: "Optimize the compiled Michelson using type information",
+    },
+    {
+      label: "Skip Michelson typechecking",
+      names: ["--disable-michelson-typechecking"],
+      group: "optimization",
+      values: undefined,
+      description: "Do not typecheck the compiled Michelson",
+    },
+    {
+      label: "Michelson format",
+      names: ["--michelson-format"],
+      group: "format",
+      values: ["text", "json", "hex", "msgpack"],
+      description:
+        "Output format, the Michelson view and Whylson only understand text",
+    },
+  ];
+
+  /**
+   * Collects flag names mentioned in the help of `ligo compile contract`.
+   * @param help Output of `ligo compile contract --help`.
+   * @returns Every flag name found, short and long spellings alike.
+   */
+  export function supported(help: string): Set<string> {
+    return new Set(help.match(/(?<![\w-])--?[a-zA-Z][\w-]*/g) || []);
+  }
+
+  /**
+   * Checks wheather the installed ligo accepts an option.
+   * @param option A known option.
+   * @param accepted Flag names accepted by the installed ligo,
+   * `undefined` if they could not be found.
+   * @returns `true` if any spelling of the option is accepted or nothing is known.
+   */
+  export function isSupported(
+    option: FlagOption,
+    accepted: Maybe<Set<string>>
+  ): boolean {
+    return !accepted || option.names.some((n) => accepted.has(n));
+  }
+
+  /**
+   * Splits the flags of an entry into known options and custom flags.
+   * `--flag=value` and `--flag value` spellings are both understood.
+   * @param flags Flags of a contract entry.
+   * @returns Known options with their values and the remaining flags.
+   */
+  export function parse(flags: string[]): ParsedFlags {
+    const options = new Map<FlagOption, string>();
+    const custom: string[] = [];
+
+    for (let i = 0; i < flags.length; i++) {
+      const [name, inline] = splitInline(flags[i]);
+      const option = known.find((o) => o.names.includes(name));
+
+      if (!option) {
+        custom.push(flags[i]);
+      } else if (!option.values) {
+        options.set(option, "");
+      } else if (inline !== undefined) {
+        options.set(option, inline);
+      } else if (i + 1 < flags.length) {
+        options.set(option, flags[++i]);
+      } else {
+        // Value is missing, flag is left for the user to fix
+        custom.push(flags[i]);
+      }
+    }
+
+    return { options, custom };
+  }
+
+  /**
+   * Builds the flags of an entry back from known options and custom flags.
+   * Known options come first, in the order of `known`.
+   * @param parsed Known options with their values and custom flags.
+   * @returns Flags as passed to ligo.
+   */
+  export function build(parsed: ParsedFlags): string[] {
+    const flags: string[] = [];
+    known.forEach((option) => {
+      const value = parsed.options.get(option);
+      if (value === undefined) {
+        return;
+      }
+      flags.push(option.names[0]);
+      if (option.values) {
+        flags.push(value);
+      }
+    });
+    return [...flags, ...parsed.custom];
+  }
+
+  /**
+   * Leaves the options of some groups out of a list of flags,
+   * for ligo commands other than `compile contract`.
+   * @param flags Flags of a contract entry.
+   * @param groups Groups of the options left out.
+   * @returns Remaining flags, custom flags included.
+   */
+  export function omit(
+    flags: string[],
+    groups: FlagOption["group"][]
+  ): string[] {
+    const parsed = parse(flags);
+    return build({
+      options: new Map(
+        [...parsed.options].filter(([option]) => !groups.includes(option.group))
+      ),
+      custom: parsed.custom,
+    });
+  }
+
+  /**
+   * Finds problems in a list of flags.
+   * @param flags Flags of a contract entry.
+   * @param accepted Flag names accepted by the installed ligo,
+   * `undefined` if they could not be found.
+   * @returns Description of every problem found.
+   */
+  export function validate(
+    flags: string[],
+    accepted: Maybe<Set<string>>
+  ): string[] {
+    const { options, custom } = parse(flags);
+    const problems: string[] = [];
+
+    options.forEach((value, option) => {
+      if (!isSupported(option, accepted)) {
+        problems.push(
+          `${option.names[0]} is not accepted by the installed ligo`
+        );
+      }
+      if (option.values && !value) {
+        problems.push(`${option.names[0]} requires a value`);
+      }
+    });
+
+    custom
+      .filter((flag) => flag.startsWith("-"))
+      .map((flag) => splitInline(flag)[0])
+      .forEach((name) => {
+        if (known.some((o) => o.names.includes(name))) {
+          problems.push(`${name} requires a value`);
+        } else if (accepted && !accepted.has(name)) {
+          problems.push(`${name} is not accepted by the installed ligo`);
+        }
+      });
+
+    return problems;
+  }
+
+  /**
+   * Quotes arguments for display, as a shell would need them.
+   * @param args Arguments of a command.
+   * @returns Arguments joined into a single line.
+   */
+  export function preview(args: string[]): string {
+    return args
+      .map((arg) => (/^[\w@%+=:,./-]+$/.test(arg) ? arg : `'${arg}'`))
+      .join(" ");
+  }
+
+  /**
+   * Splits `--flag=value` into flag and value.
+   */
+  function splitInline(flag: string): [string, string | undefined] {
+    const at = flag.indexOf("=");
+    return flag.startsWith("--") && at > 0
+      ? [flag.slice(0, at), flag.slice(at + 1)]
+      : [flag, undefined];
+  }
+}
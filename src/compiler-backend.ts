@@ -0,0 +1,252 @@
+import * as vscode from "vscode";
+import {
+  CompilerBackend,
+  LigoVersion,
+  Maybe,
+  ProcessOptions,
+  ProcessResult,
+} from "./types";
+import { utils } from "./utils";
+
+export namespace ligoVersions {
+  /**
+   * First release with the `ligo <group> <command>` command line.
+   * Earlier releases take flat commands and a positional entrypoint.
+   */
+  const commandLineRewrite: [number, number, number] = [0, 27, 0];
+
+  /**
+   * Flat commands of earlier releases, by the command they became.
+   */
+  const flatCommands = new Map([
+    ["compile contract", "compile-contract"],
+    ["compile storage", "compile-storage"],
+    ["compile parameter", "compile-parameter"],
+    ["run dry-run", "dry-run"],
+    ["info measure-contract", "measure-contract"],
+  ]);
+
+  /**
+   * Flags spelled otherwise before some release, by their current spelling.
+   */
+  const renamedFlags = new Map<
+    string,
+    { before: [number, number, number]; spelling: string }
+  >([
+    ["--no-warn", { before: commandLineRewrite, spelling: "--warn=false" }],
+    ["--werror", { before: commandLineRewrite, spelling: "--werror=true" }],
+  ]);
+
+  /**
+   * Reads the output of `ligo --version`, e.g. `1.7.0`.
+   * Development builds print a commit instead, leaving the release unknown.
+   * @param output Output of ligo.
+   * @returns The version, `undefined` if nothing was printed.
+   */
+  export function parse(output: string): Maybe<LigoVersion> {
+    const text = output.trim();
+    if (!text) {
+      return undefined;
+    }
+    const m = /(\d+)\.(\d+)\.(\d+)/.exec(text);
+    return {
+      text: text.split(/\r?\n/)[0],
+      release: m ? [Number(m[1]), Number(m[2]), Number(m[3])] : undefined,
+    };
+  }
+
+  /**
+   * Compares a release with another one.
+   * @returns `true` if `release` came out before `other`, `false` otherwise.
+   */
+  export function isBefore(
+    release: [number, number, number],
+    other: [number, number, number]
+  ): boolean {
+    const i = release.findIndex((n, j) => n !== other[j]);
+    return i >= 0 && release[i] < other[i];
+  }
+
+  /**
+   * Respells arguments written for the latest ligo for an older release.
+   * Unknown releases are assumed to be recent, arguments being left as is.
+   * @param args Arguments in the spelling of the latest ligo.
+   * @param version Version of the ligo being run, if detected.
+   * @returns Arguments understood by that version.
+   */
+  export function adapt(args: string[], version: Maybe<LigoVersion>): string[] {
+    const release = version?.release;
+    if (!release) {
+      return args;
+    }
+
+    const adapted = isBefore(release, commandLineRewrite)
+      ? flatten(args)
+      : args;
+    return adapted.map((arg) => {
+      const renamed = renamedFlags.get(arg);
+      return renamed && isBefore(release, renamed.before)
+        ? renamed.spelling
+        : arg;
+    });
+  }
+
+  /**
+   * Turns `compile contract src -e main` into `compile-contract src main`.
+   * @param args Arguments in the spelling of the latest ligo.
+   * @returns Arguments of the flat command line.
+   */
+  function flatten(args: string[]): string[] {
+    const command = flatCommands.get(args.slice(0, 2).join(" "));
+    if (!command) {
+      return args;
+    }
+
+    const rest = args.slice(2);
+    const e = rest.findIndex((a) => a === "-e" || a === "--entry-point");
+    if (e < 0 || e + 1 >= rest.length || rest[0].startsWith("-")) {
+      return [command, ...rest];
+    }
+
+    // Entrypoint goes right after the source, before any expression
+    const entrypoint = rest[e + 1];
+    rest.splice(e, 2);
+    return [command, rest[0], entrypoint, ...rest.slice(1)];
+  }
+}
+
+/**
+ * Detection of the ligo version and respelling of arguments,
+ * common to every way of running ligo.
+ */
+abstract class VersionedBackend implements CompilerBackend {
+  abstract readonly name: string;
+
+  /**
+   * Time in milliseconds given to `ligo --version`.
+   */
+  protected abstract readonly detectionTimeout: number;
+
+  private _version: Maybe<Promise<Maybe<LigoVersion>>>;
+
+  public version(): Promise<Maybe<LigoVersion>> {
+    if (!this._version) {
+      this._version = this.spawn(["--version"], {
+        timeout: this.detectionTimeout,
+      }).then(({ code, stdout, stderr }) => {
+        const version =
+          code === 0 ? ligoVersions.parse(stdout || stderr) : undefined;
+        // ? Failures are not kept, ligo may be installed in the meantime
+        if (!version) {
+          this._version = undefined;
+        }
+        return version;
+      });
+    }
+    return this._version;
+  }
+
+  public async adapt(args: string[]): Promise<string[]> {
+    return ligoVersions.adapt(args, await this.version());
+  }
+
+  public async run(
+    args: string[],
+    options: ProcessOptions
+  ): Promise<ProcessResult> {
+    return this.spawn(await this.adapt(args), options);
+  }
+
+  /**
+   * Runs ligo with arguments as they are.
+   */
+  protected abstract spawn(
+    args: string[],
+    options: ProcessOptions
+  ): Promise<ProcessResult>;
+}
+
+/**
+ * Runs a ligo binary, found in PATH or at a configured path.
+ */
+export class BinaryBackend extends VersionedBackend {
+  readonly name: string;
+  protected readonly detectionTimeout = 10000;
+  private readonly _path: string;
+
+  /**
+   * Creates a BinaryBackend instance.
+   * @param path Name of an executable in PATH or path to one.
+   */
+  constructor(path: string) {
+    super();
+    this._path = path;
+    this.name = `binary ${path}`;
+  }
+
+  protected spawn(
+    args: string[],
+    options: ProcessOptions
+  ): Promise<ProcessResult> {
+    return utils.runProcess(this._path, args, options);
+  }
+}
+
+/**
+ * Runs ligo within a docker image, mounting workspace folders at their own path
+ * so that sources, imports and compiler messages keep their absolute paths.
+ */
+export class DockerBackend extends VersionedBackend {
+  readonly name: string;
+  // ? The first run may pull the image
+  protected readonly detectionTimeout = 300000;
+  private readonly _image: string;
+  private _runs = 0;
+
+  /**
+   * Creates a DockerBackend instance.
+   * @param image Docker image whose entrypoint is ligo, e.g. `ligolang/ligo:1.7.0`.
+   */
+  constructor(image: string) {
+    super();
+    this._image = image;
+    this.name = `docker image ${image}`;
+  }
+
+  protected async spawn(
+    args: string[],
+    options: ProcessOptions
+  ): Promise<ProcessResult> {
+    const container = `whylson-${process.pid}-${++this._runs}`;
+    const mounts = (vscode.workspace.workspaceFolders ?? [])
+      .filter((f) => f.uri.scheme === "file")
+      .flatMap((f) => ["-v", `${f.uri.fsPath}:${f.uri.fsPath}`]);
+    // * Files written by ligo, e.g. with `-o`, belong to the user rather than root
+    const user =
+      process.platform === "win32"
+        ? []
+        : ["--user", `${process.getuid()}:${process.getgid()}`];
+
+    const result = await utils.runProcess(
+      "docker",
+      [
+        "run",
+        "--rm",
+        "--name",
+        container,
+        ...mounts,
+        ...(options.cwd ? ["-w", options.cwd] : []),
+        ...user,
+        this._image,
+        ...args,
+      ],
+      options
+    );
+
+    // Killing the docker client leaves its container running
+    if (result.cancelled || result.timedOut) {
+      utils.runProcess("docker", ["kill", container], { timeout: 10000 });
+    }
+    return result;
+  }
+}
@@ -1,4 +1,5 @@
 import * as vscode from "vscode";
+import { CompilerBackendKind } from "./types";
 
 /**
  * Encapsulation and ease of acess for extension configurations
@@ -44,6 +45,94 @@ export class Config {
     return this._configs.get<boolean>("onSaveBackgroundCompilation");
   }
 
+  /**
+   * Gets the maximum duration of a ligo compilation.
+   * @returns The timeout in milliseconds.
+   */
+  public getCompilationTimeout(): number {
+    return this._configs.get<number>("compilationTimeout")! * 1000;
+  }
+
+  /**
+   * Gets the number of targets compiled at once by `Compile All Contracts`.
+   * @returns The limit, at least `1`.
+   */
+  public getCompileAllParallelism(): number {
+    return this._configs.get<number>("compileAllParallelism")!;
+  }
+
+  /**
+   * Gets how the ligo compiler is run.
+   * @returns The kind of backend running ligo.
+   */
+  public getCompilerBackend(): CompilerBackendKind {
+    return this._configs.get<CompilerBackendKind>("compilerBackend")!;
+  }
+
+  /**
+   * Gets the ligo binary run by the `binary` backend.
+   * @returns A path to the binary or its name in PATH.
+   */
+  public getLigoPath(): string {
+    return this._configs.get<string>("ligoPath")!;
+  }
+
+  /**
+   * Gets the docker image run by the `docker` backend.
+   * @returns The image name, with its tag.
+   */
+  public getDockerImage(): string {
+    return this._configs.get<string>("dockerImage")!;
+  }
+
+  /**
+   * Gets the template for michelson contract paths, relative to `.whylson/bin-contracts`.
+   * @returns The template as a `string`.
+   */
+  public getOutputPathTemplate(): string {
+    return this._configs.get<string>("outputPathTemplate")!;
+  }
+
+  /**
+   * Gets the number of earlier builds kept for every contract.
+   * @returns The limit, `0` if snapshots are disabled.
+   */
+  public getHistoryLimit(): number {
+    return this._configs.get<number>("historyLimit")!;
+  }
+
+  /**
+   * Gets the compiled size contracts are warned about when exceeding it.
+   * @returns The size in bytes, `0` if disabled.
+   */
+  public getSizeThreshold(): number {
+    return this._configs.get<number>("sizeThreshold")!;
+  }
+
+  /**
+   * Gets the growth between two builds contracts are warned about.
+   * @returns The growth in percent, `0` if disabled.
+   */
+  public getSizeGrowthWarning(): number {
+    return this._configs.get<number>("sizeGrowthWarning")!;
+  }
+
+  /**
+   * Controls wheather michelson views are linked to ligo source through location comments.
+   * @returns `true' if enabled, `false` otherwise.
+   */
+  public getSourceMapping() {
+    return this._configs.get<boolean>("sourceMapping");
+  }
+
+  /**
+   * Controls wheather michelson views show the stack type after each instruction.
+   * @returns `true' if enabled, `false` otherwise.
+   */
+  public getStackHints() {
+    return this._configs.get<boolean>("stackHints");
+  }
+
   /**
    * Controls wheather or not whylson annotations are highlighted in ligo documents.
    * @returns `true' if enabled, `false` otherwise.
@@ -0,0 +1,158 @@
+import { posix } from "path";
+import * as vscode from "vscode";
+import { compileFlags } from "./compile-flags";
+import { contracts } from "./contracts-file";
+import {
+  CompilerBackend,
+  ContractEntryScheme,
+  ContractMetrics,
+  Maybe,
+  MetricsFile,
+} from "./types";
+
+export namespace contractMetrics {
+  /**
+   * Version of the `metrics.json` format written by this extension.
+   */
+  export const version = 1 as const;
+
+  /**
+   * Builds the arguments of a `ligo info measure-contract` call for an entry.
+   * Output format options only apply to `compile contract`.
+   * @param entry Contract entry to be measured.
+   * @returns Arguments for the ligo executable, in order.
+   */
+  export function args(entry: ContractEntryScheme): string[] {
+    return [
+      "info",
+      "measure-contract",
+      entry.source,
+      ...contracts.entrypointArgs(entry),
+      ...compileFlags.omit(entry.flags, ["format"]),
+    ];
+  }
+
+  /**
+   * Measures the compiled size of an entry with `ligo info measure-contract`.
+   * @param backend Runs ligo, wherever it is installed.
+   * @param entry Contract entry to be measured.
+   * @param token Cancelling the token aborts the measurement.
+   * @param timeout Time in milliseconds after which the measurement is aborted.
+   * @returns Size in bytes, `undefined` if it could not be measured.
+   */
+  export async function measure(
+    backend: CompilerBackend,
+    entry: ContractEntryScheme,
+    token: Maybe<vscode.CancellationToken>,
+    timeout: Maybe<number>
+  ): Promise<Maybe<number>> {
+    const { code, stdout } = await backend.run(args(entry), {
+      cwd: posix.dirname(entry.source),
+      token: token,
+      timeout: timeout,
+    });
+    return code === 0 ? parse(stdout) : undefined;
+  }
+
+  /**
+   * Reads the size printed by ligo, e.g. `1234 bytes`.
+   * @param output Standard output of `ligo info measure-contract`.
+   * @returns Size in bytes, `undefined` if none is found.
+   */
+  export function parse(output: string): Maybe<number> {
+    const m = /(\d+)\s*bytes/i.exec(output);
+    return m ? Number(m[1]) : undefined;
+  }
+
+  /**
+   * Finds what is worth warning about in the size of a new build.
+   * A threshold is only reported when crossed, not on every build above it.
+   * @param metrics Size of the new build and of the one before it.
+   * @param threshold Size in bytes not to be exceeded, `0` disables the check.
+   * @param growth Growth in percent not to be exceeded, `0` disables the check.
+   * @returns Description of every regression found.
+   */
+  export function regressions(
+    metrics: ContractMetrics,
+    threshold: number,
+    growth: number
+  ): string[] {
+    const { size, previous } = metrics;
+    const found: string[] = [];
+
+    if (
+      threshold > 0 &&
+      size > threshold &&
+      (previous === undefined || previous <= threshold)
+    ) {
+      found.push(`is ${bytes(size)}, over the ${bytes(threshold)} threshold`);
+    }
+    const grown = change(metrics);
+    if (growth > 0 && grown !== undefined && grown > growth) {
+      found.push(
+        `grew by ${grown.toFixed(1)}% since the previous build, from ${bytes(
+          previous!
+        )} to ${bytes(size)}`
+      );
+    }
+    return found;
+  }
+
+  /**
+   * Change in size since the previous build.
+   * @param metrics Size of a build and of the one before it.
+   * @returns Change in percent, `undefined` without a previous build.
+   */
+  export function change(metrics: ContractMetrics): Maybe<number> {
+    const { size, previous } = metrics;
+    return previous ? ((size - previous) / previous) * 100 : undefined;
+  }
+
+  /**
+   * Prints a size for humans.
+   * @param size Size in bytes.
+   * @returns The size with its unit, e.g. `1,234 bytes`.
+   */
+  export function bytes(size: number): string {
+    return `${size.toLocaleString("en-US")} bytes`;
+  }
+
+  /**
+   * Reads `metrics.json` contents, leaving out malformed metrics.
+   * @param text Contents of a `metrics.json` file, possibly empty.
+   * @returns Metrics of every entry, empty if the file is unusable.
+   */
+  export function read(text: string): MetricsFile {
+    const file: MetricsFile = { version: version, metrics: {} };
+    let raw: Maybe<Partial<MetricsFile>>;
+    try {
+      raw = JSON.parse(text);
+    } catch {
+      return file;
+    }
+
+    if (typeof raw?.metrics !== "object" || raw.metrics === null) {
+      return file;
+    }
+    Object.entries(raw.metrics).forEach(([key, metrics]) => {
+      if (isMetrics(metrics)) {
+        file.metrics[key] = metrics;
+      }
+    });
+    return file;
+  }
+
+  /**
+   * Checks the fields of metrics read from disk.
+   */
+  function isMetrics(value: unknown): value is ContractMetrics {
+    const m = value as Partial<ContractMetrics>;
+    return (
+      typeof m === "object" &&
+      m !== null &&
+      typeof m.size === "number" &&
+      (m.previous === undefined || typeof m.previous === "number") &&
+      typeof m.measuredAt === "string"
+    );
+  }
+}
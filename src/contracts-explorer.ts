@@ -0,0 +1,261 @@
+import * as vscode from "vscode";
+import { contracts } from "./contracts-file";
+import {
+  CompilationStatus,
+  ContractEntryScheme,
+  ExplorerNode,
+  VerificationResult,
+} from "./types";
+import { WhylsonFolder } from "./whylson-folder";
+import { WhylsonSession } from "./whylson-session";
+
+/**
+ * Tree view listing the contract entries of every `.whylson` folder,
+ * along with the outcome of their last compilation and Whylson session.
+ */
+export class ContractsExplorer
+  implements vscode.TreeDataProvider<ExplorerNode>
+{
+  static readonly viewId = "whylson-connector.contracts" as const;
+
+  private readonly _folders: () => WhylsonFolder[];
+  private readonly _compiled: Map<string, CompilationStatus>;
+  private readonly _verified: Map<string, VerificationResult>;
+  private readonly _onDidChangeTreeData: vscode.EventEmitter<
+    ExplorerNode | undefined | void
+  >;
+  readonly onDidChangeTreeData: vscode.Event<ExplorerNode | undefined | void>;
+
+  /**
+   * Creates a ContractsExplorer instance.
+   * @param context Extension context, owner of the change event.
+   * @param folders Provides the `.whylson` folders currently tracked.
+   */
+  constructor(
+    context: vscode.ExtensionContext,
+    folders: () => WhylsonFolder[]
+  ) {
+    this._folders = folders;
+    this._compiled = new Map<string, CompilationStatus>();
+    this._verified = new Map<string, VerificationResult>();
+    this._onDidChangeTreeData = new vscode.EventEmitter<
+      ExplorerNode | undefined | void
+    >();
+    this.onDidChangeTreeData = this._onDidChangeTreeData.event;
+    context.subscriptions.push(this._onDidChangeTreeData);
+  }
+
+  /**
+   * Redraws the whole tree, e.g. after `contracts.json` changes.
+   */
+  public refresh() {
+    this._onDidChangeTreeData.fire();
+  }
+
+  /**
+   * Records the outcome of a compilation.
+   * @param entry Compiled contract entry.
+   * @param ok Wheather compilation was successful.
+   */
+  public setCompilation(entry: ContractEntryScheme, ok: boolean) {
+    this._compiled.set(contracts.key(entry), { ok: ok, time: Date.now() });
+    this.refresh();
+  }
+
+  /**
+   * Records the results of a Whylson session, cancelled sessions are ignored.
+   * @param entry Verified contract entry.
+   * @param result Results of the session.
+   */
+  public setVerification(
+    entry: ContractEntryScheme,
+    result: VerificationResult
+  ) {
+    if (result.cancelled) {
+      return;
+    }
+    this._verified.set(contracts.key(entry), result);
+    this.refresh();
+  }
+
+  /**
+   * Drops every record of a contract entry, e.g. once its data is erased.
+   * @param entry A contract entry.
+   */
+  public forget(entry: ContractEntryScheme) {
+    this._compiled.delete(contracts.key(entry));
+    this._verified.delete(contracts.key(entry));
+    this.refresh();
+  }
+
+  public getTreeItem(node: ExplorerNode): vscode.TreeItem {
+    switch (node.kind) {
+      case "folder": {
+        const item = new vscode.TreeItem(
+          node.folder.name,
+          vscode.TreeItemCollapsibleState.Expanded
+        );
+        item.iconPath = vscode.ThemeIcon.Folder;
+        item.resourceUri = node.folder.uri;
+        item.contextValue = "folder";
+        return item;
+      }
+      case "contract":
+        return this.contractItem(node.entry);
+      case "detail": {
+        const item = new vscode.TreeItem(
+          node.label,
+          vscode.TreeItemCollapsibleState.None
+        );
+        item.description = node.description;
+        item.tooltip = `${node.label}: ${node.description}`;
+        item.iconPath = new vscode.ThemeIcon(node.icon);
+        item.contextValue = "detail";
+        return item;
+      }
+    }
+  }
+
+  public getChildren(node?: ExplorerNode): ExplorerNode[] {
+    if (!node) {
+      const folders = this._folders();
+      return folders.length === 1
+        ? this.contractNodes(folders[0])
+        : folders.map((wf) => ({ kind: "folder", folder: wf.folder }));
+    }
+
+    switch (node.kind) {
+      case "folder": {
+        const wf = this._folders().find(
+          (f) => f.folder.uri.toString() === node.folder.uri.toString()
+        );
+        return wf ? this.contractNodes(wf) : [];
+      }
+      case "contract":
+        return this.details(node.entry);
+      default:
+        return [];
+    }
+  }
+
+  /**
+   * Contract nodes of a `.whylson` folder, sorted by title and target.
+   */
+  private contractNodes(wf: WhylsonFolder): ExplorerNode[] {
+    return [...wf.entries]
+      .sort(
+        (a, b) =>
+          a.title.localeCompare(b.title) || a.target.localeCompare(b.target)
+      )
+      .map((entry) => ({ kind: "contract", entry: entry }));
+  }
+
+  /**
+   * Detail nodes of a contract entry.
+   */
+  private details(entry: ContractEntryScheme): ExplorerNode[] {
+    const compiled = this._compiled.get(contracts.key(entry));
+    const verified = this._verified.get(contracts.key(entry));
+
+    return [
+      {
+        kind: "detail",
+        label: "Entrypoint",
+        description: contracts.entrypointLabel(entry),
+        icon: "symbol-method",
+      },
+      {
+        kind: "detail",
+        label: "Output",
+        description: vscode.workspace.asRelativePath(entry.onPath, false),
+        icon: "file-binary",
+      },
+      {
+        kind: "detail",
+        label: "Flags",
+        description: entry.flags.length > 0 ? entry.flags.join(" ") : "none",
+        icon: "settings",
+      },
+      {
+        kind: "detail",
+        label: "Expressions",
+        description:
+          contracts
+            .expressions(entry)
+            .map(({ kind, name }) => `${kind} ${name}`)
+            .join(", ") || "none",
+        icon: "symbol-variable",
+      },
+      {
+        kind: "detail",
+        label: "Compilation",
+        description: compiled
+          ? `${compiled.ok ? "succeeded" : "failed"} at ${new Date(
+              compiled.time
+            ).toLocaleTimeString()}`
+          : "not compiled yet",
+        icon: compiled ? (compiled.ok ? "check" : "error") : "circle-outline",
+      },
+      {
+        kind: "detail",
+        label: "Verification",
+        description: verified
+          ? WhylsonSession.summarize(verified)
+          : "not verified yet",
+        icon: verified
+          ? verified.ok
+            ? "verified"
+            : "warning"
+          : "circle-outline",
+      },
+    ];
+  }
+
+  /**
+   * Tree item of a contract entry, its icon reflects the last known outcome.
+   */
+  private contractItem(entry: ContractEntryScheme): vscode.TreeItem {
+    const compiled = this._compiled.get(contracts.key(entry));
+    const verified = this._verified.get(contracts.key(entry));
+
+    const item = new vscode.TreeItem(
+      entry.title,
+      vscode.TreeItemCollapsibleState.Collapsed
+    );
+    item.id = contracts.key(entry);
+    item.description = entry.target;
+    item.tooltip = new vscode.MarkdownString(
+      [
+        `**${entry.title}**, target \`${entry.target}\``,
+        `Source: \`${entry.source}\``,
+        `Michelson: \`${entry.onPath}\``,
+      ].join("\n\n")
+    );
+    item.contextValue = "contract";
+    item.command = {
+      command: "whylson-connector.explorer-open-source",
+      title: "Open Source",
+      arguments: [{ kind: "contract", entry: entry }],
+    };
+
+    // Failures come first, a passing verification implies a passing compilation
+    item.iconPath =
+      compiled && !compiled.ok
+        ? new vscode.ThemeIcon(
+            "error",
+            new vscode.ThemeColor("testing.iconFailed")
+          )
+        : verified && !verified.ok
+        ? new vscode.ThemeIcon(
+            "warning",
+            new vscode.ThemeColor("testing.iconFailed")
+          )
+        : verified
+        ? new vscode.ThemeIcon(
+            "verified",
+            new vscode.ThemeColor("testing.iconPassed")
+          )
+        : new vscode.ThemeIcon("file-code");
+    return item;
+  }
+}
@@ -0,0 +1,291 @@
+import {
+  CompileContractOptions,
+  ContractEntryScheme,
+  ContractsFile,
+  ContractsParseResult,
+  ExpressionKind,
+  InvalidEntry,
+} from "./types";
+
+export namespace contracts {
+  /**
+   * Version of the `contracts.json` format written by this extension.
+   * Must match the `version` constant in `resources/contracts.schema.json`.
+   */
+  export const version = 2 as const;
+
+  /**
+   * Identifies an entry among the entries of a workspace folder,
+   * a ligo document may be compiled into several targets.
+   * @param entry A contract entry.
+   * @returns A key unique to the source and target of the entry.
+   */
+  export function key(entry: ContractEntryScheme): string {
+    return `${entry.source}#${entry.target}`;
+  }
+
+  /**
+   * Builds the flags selecting the entrypoint of a ligo call, none when the
+   * `@entry` functions of the module selected with `-m` are compiled instead.
+   * @param cco Set of compilation options for a ligo contract.
+   * @returns Arguments for the ligo executable, in order.
+   */
+  export function entrypointArgs(cco: CompileContractOptions): string[] {
+    return cco.entrypoint ? ["-e", cco.entrypoint] : [];
+  }
+
+  /**
+   * Names what an entry is compiled from, for display.
+   * @param cco Set of compilation options for a ligo contract.
+   * @returns The entrypoint, or the module whose `@entry` functions are compiled.
+   */
+  export function entrypointLabel(cco: CompileContractOptions): string {
+    const m = cco.flags.indexOf("-m");
+    return cco.entrypoint || (m >= 0 ? `module ${cco.flags[m + 1]}` : "");
+  }
+
+  /**
+   * Builds the michelson path of a storage or parameter expression of an entry,
+   * next to the contract as in `<contract>.<kind>.<name>.tz`.
+   * @param entry A contract entry.
+   * @param kind Kind of the expression.
+   * @param name Name of the expression in the entry.
+   * @returns Filepath to the michelson value.
+   */
+  export function expressionPath(
+    entry: ContractEntryScheme,
+    kind: ExpressionKind,
+    name: string
+  ): string {
+    return `${entry.onPath.replace(/\.tz$/, "")}.${kind}.${name}.tz`;
+  }
+
+  /**
+   * Lists the storage and parameter expressions of an entry, storages first.
+   * @param entry A contract entry.
+   * @returns Kind, name and ligo expression of every expression.
+   */
+  export function expressions(
+    entry: ContractEntryScheme
+  ): { kind: ExpressionKind; name: string; expression: string }[] {
+    const named = (kind: ExpressionKind, values: Record<string, string> = {}) =>
+      Object.entries(values).map(([name, expression]) => ({
+        kind,
+        name,
+        expression,
+      }));
+    return [
+      ...named("storage", entry.storages),
+      ...named("parameter", entry.parameters),
+    ];
+  }
+
+  /**
+   * Reads and validates `contracts.json` contents, migrating older formats.
+   * Unversioned files, holding a bare array of entries, are version 0.
+   * Version 1 entries have no target, one entry being allowed per source.
+   * @param text Contents of a `contracts.json` file.
+   * @returns Valid and invalid entries, or the reason the file is unusable.
+   */
+  export function parse(text: string): ContractsParseResult {
+    const failure = (error: string): ContractsParseResult => ({
+      entries: [],
+      invalid: [],
+      migrated: false,
+      error: error,
+    });
+
+    let raw: unknown;
+    try {
+      raw = JSON.parse(text);
+    } catch (error) {
+      return failure(
+        `not valid JSON (${error instanceof Error ? error.message : error})`
+      );
+    }
+
+    const migrated = migrate(raw);
+    if (typeof migrated === "string") {
+      return failure(migrated);
+    }
+
+    const result: ContractsParseResult = {
+      entries: [],
+      invalid: [],
+      migrated: migrated !== raw,
+    };
+    migrated.contracts.forEach((value, index) => {
+      const problems = validateEntry(value);
+
+      // Targets of a source must be unique, first one wins
+      if (
+        problems.length === 0 &&
+        result.entries.some((e) => key(e) === key(value as ContractEntryScheme))
+      ) {
+        problems.push("`target` is already used by another entry of `source`");
+      }
+
+      problems.length === 0
+        ? result.entries.push(value as ContractEntryScheme)
+        : result.invalid.push({ index, value, problems });
+    });
+    return result;
+  }
+
+  /**
+   * Builds the contents of a `contracts.json` file in the current format.
+   * @param entries Valid contract entries.
+   * @param invalid Invalid entries previously read, written back untouched.
+   * @returns An object ready to be serialized.
+   */
+  export function serialize(
+    entries: ContractEntryScheme[],
+    invalid: InvalidEntry[]
+  ): ContractsFile {
+    return {
+      version: version,
+      contracts: [...entries, ...invalid.map((i) => i.value)],
+    };
+  }
+
+  /**
+   * Brings any known `contracts.json` format to the current version.
+   * @param raw Parsed contents of a `contracts.json` file.
+   * @returns Contents in the current format, or the reason they are unusable.
+   */
+  function migrate(raw: unknown): ContractsFile | string {
+    // Version 0, a bare array of entries
+    if (Array.isArray(raw)) {
+      return migrate({ version: 1, contracts: raw });
+    }
+
+    if (typeof raw !== "object" || raw === null) {
+      return "expected an object with `version` and `contracts` fields";
+    }
+
+    const file = raw as Partial<ContractsFile>;
+    if (typeof file.version !== "number") {
+      return "field `version` must be a number";
+    }
+    if (file.version > version) {
+      return `version ${file.version} is newer than supported version ${version}`;
+    }
+    if (!Array.isArray(file.contracts)) {
+      return "field `contracts` must be an array";
+    }
+
+    // Version 1, entries are named after their entrypoint
+    if (file.version < 2) {
+      return {
+        version: version,
+        contracts: file.contracts.map((value) =>
+          typeof value === "object" &&
+          value !== null &&
+          !("target" in value) &&
+          typeof (value as ContractEntryScheme).entrypoint === "string"
+            ? { ...value, target: (value as ContractEntryScheme).entrypoint }
+            : value
+        ),
+      };
+    }
+
+    return file as ContractsFile;
+  }
+
+  /**
+   * Checks a single entry against the rules of `resources/contracts.schema.json`.
+   * @param value A single element of the `contracts` array.
+   * @returns A description of every problem found, empty if entry is valid.
+   */
+  export function validateEntry(value: unknown): string[] {
+    if (typeof value !== "object" || value === null || Array.isArray(value)) {
+      return ["entry must be an object"];
+    }
+
+    const entry = value as Record<string, unknown>;
+    const problems: string[] = [];
+    const nonEmptyString = (key: string) => {
+      if (typeof entry[key] !== "string" || entry[key] === "") {
+        problems.push(`\`${key}\` must be a non empty string`);
+      }
+    };
+
+    nonEmptyString("title");
+    nonEmptyString("source");
+
+    if (
+      typeof entry.target !== "string" ||
+      !/^[a-zA-Z0-9_][a-zA-Z0-9_.'-]*$/.test(entry.target)
+    ) {
+      problems.push(
+        "`target` must be made of letters, digits, `_`, `.`, `'` and `-`"
+      );
+    }
+
+    nonEmptyString("onPath");
+
+    if (typeof entry.onPath === "string" && !entry.onPath.endsWith(".tz")) {
+      problems.push("`onPath` must end with `.tz`");
+    }
+
+    // Empty entrypoints compile the module selected by the flags
+    if (
+      typeof entry.entrypoint !== "string" ||
+      !/^([a-zA-Z_]+[a-zA-Z0-9'_]*)?$/.test(entry.entrypoint)
+    ) {
+      problems.push(
+        "`entrypoint` must conform to ligo's function nomenclature"
+      );
+    } else if (
+      entry.entrypoint === "" &&
+      !(Array.isArray(entry.flags) && entry.flags.includes("-m"))
+    ) {
+      problems.push("`entrypoint` may only be empty when `-m` is in `flags`");
+    }
+
+    if (
+      !Array.isArray(entry.flags) ||
+      !entry.flags.every((f) => typeof f === "string")
+    ) {
+      problems.push("`flags` must be an array of strings");
+    }
+
+    // Expressions are optional, their names end up in file names
+    ["storages", "parameters"]
+      .filter((key) => entry[key] !== undefined)
+      .forEach((key) => {
+        const named = entry[key];
+        if (
+          typeof named !== "object" ||
+          named === null ||
+          Array.isArray(named) ||
+          !Object.entries(named).every(
+            ([name, expression]) =>
+              /^[a-zA-Z0-9_][a-zA-Z0-9_.'-]*$/.test(name) &&
+              typeof expression === "string" &&
+              expression !== ""
+          )
+        ) {
+          problems.push(
+            `\`${key}\` must map names made of letters, digits, \`_\`, \`.\`, \`'\` and \`-\` to non empty strings`
+          );
+        }
+      });
+
+    const known = [
+      "title",
+      "source",
+      "target",
+      "onPath",
+      "entrypoint",
+      "flags",
+      "storages",
+      "parameters",
+    ];
+    Object.keys(entry)
+      .filter((key) => !known.includes(key))
+      .forEach((key) => problems.push(`unknown field \`${key}\``));
+
+    return problems;
+  }
+}
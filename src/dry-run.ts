@@ -0,0 +1,286 @@
+import { posix } from "path";
+import * as vscode from "vscode";
+import { compileFlags } from "./compile-flags";
+import { contracts } from "./contracts-file";
+import {
+  CompilerBackend,
+  ContractEntryScheme,
+  DryRunResult,
+  DryRunScenario,
+  Maybe,
+  ScenariosFile,
+} from "./types";
+
+export namespace dryRun {
+  /**
+   * Version of the `scenarios.json` format written by this extension.
+   */
+  export const version = 1 as const;
+
+  /**
+   * Builds the arguments of a `ligo run dry-run` call for a scenario.
+   * Optimization and output format options only apply to `compile contract`,
+   * other flags of the entry, e.g. the module holding the entrypoint, are kept.
+   * @param entry Contract entry to be run.
+   * @param scenario Parameter and storage of the run.
+   * @returns Arguments for the ligo executable, in order.
+   */
+  export function args(
+    entry: ContractEntryScheme,
+    scenario: DryRunScenario
+  ): string[] {
+    return [
+      "run",
+      "dry-run",
+      entry.source,
+      scenario.parameter,
+      scenario.storage,
+      ...contracts.entrypointArgs(entry),
+      ...compileFlags.omit(entry.flags, ["optimization", "format"]),
+    ];
+  }
+
+  /**
+   * Runs a scenario of an entry with `ligo run dry-run`.
+   * @param backend Runs ligo, wherever it is installed.
+   * @param entry Contract entry to be run.
+   * @param scenario Parameter and storage of the run.
+   * @param token Cancelling the token aborts the run.
+   * @param timeout Time in milliseconds after which the run is aborted.
+   * @returns The outcome of the run, `undefined` if it was cancelled.
+   */
+  export async function run(
+    backend: CompilerBackend,
+    entry: ContractEntryScheme,
+    scenario: DryRunScenario,
+    token: Maybe<vscode.CancellationToken>,
+    timeout: Maybe<number>
+  ): Promise<Maybe<DryRunResult>> {
+    const { code, stdout, stderr, cancelled, timedOut, error } =
+      await backend.run(args(entry, scenario), {
+        cwd: posix.dirname(entry.source),
+        token: token,
+        timeout: timeout,
+      });
+
+    if (cancelled) {
+      return undefined;
+    }
+    if (error || timedOut) {
+      return parse(
+        scenario,
+        false,
+        error ? error.message : `Dry run timed out after ${timeout} ms.`
+      );
+    }
+    return code === 0
+      ? parse(scenario, true, stdout)
+      : parse(scenario, false, stderr || stdout);
+  }
+
+  /**
+   * Path of the dry run view of an entry, next to its contract.
+   * The view is never written to disk.
+   * @param entry A contract entry.
+   * @returns Filepath the dry run view is shown under.
+   */
+  export function viewPath(entry: ContractEntryScheme): string {
+    return entry.onPath.replace(/\.tz$/, ".dry-run.tz");
+  }
+
+  /**
+   * Checks wheather a path is that of a dry run view, which holds values and no contract.
+   * @param path A file path.
+   * @returns `true` if the path was built by `viewPath`, `false` otherwise.
+   */
+  export function isViewPath(path: string): boolean {
+    return path.endsWith(".dry-run.tz");
+  }
+
+  /**
+   * Reads the outcome of a dry run from ligo's output.
+   * Failing contracts are recognized from every known ligo wording,
+   * successful ones print a pair of operations and new storage.
+   * @param scenario Scenario that was run.
+   * @param ok Wheather ligo exited successfully.
+   * @param output Standard output if successful, standard error otherwise.
+   * @returns The outcome of the run, compared against the expected storage.
+   */
+  export function parse(
+    scenario: DryRunScenario,
+    ok: boolean,
+    output: string
+  ): DryRunResult {
+    const text = output.trim();
+    const result: DryRunResult = {
+      scenario: scenario,
+      status: "success",
+      operations: "",
+      storage: "",
+      failure: undefined,
+      matches: undefined,
+    };
+
+    const failed =
+      /^failwith\s*\(([\s\S]*)\)$/.exec(text) ||
+      /^(?:failed with|an error occurred while evaluating an expression)\s*:?\s*([\s\S]+)$/im.exec(
+        text
+      );
+    if (failed) {
+      return { ...result, status: "failure", failure: failed[1].trim() };
+    }
+    if (!ok) {
+      return { ...result, status: "error", failure: text };
+    }
+
+    const [operations, storage] = splitPair(text);
+    return {
+      ...result,
+      operations: operations,
+      storage: storage,
+      matches:
+        scenario.expected !== undefined
+          ? normalize(scenario.expected) === normalize(storage)
+          : undefined,
+    };
+  }
+
+  /**
+   * Builds the contents of the dry run view of an entry.
+   * Every line but returned values is a michelson comment.
+   * @param entry Contract entry that was run.
+   * @param results Outcomes of its scenarios, in order.
+   * @returns Text of the dry run view.
+   */
+  export function render(
+    entry: ContractEntryScheme,
+    results: DryRunResult[]
+  ): string {
+    const comment = (text: string) =>
+      text
+        .split("\n")
+        .map((line) => `# ${line}`)
+        .join("\n");
+
+    const sections = results.map((r) => {
+      const lines = [
+        `# ===== ${r.scenario.name}: ${verdict(r)} =====`,
+        comment(`parameter: ${r.scenario.parameter}`),
+        comment(`storage:   ${r.scenario.storage}`),
+      ];
+
+      if (r.status === "failure") {
+        lines.push(`# !!! FAILWITH ${r.failure}`);
+      } else if (r.status === "error") {
+        lines.push(comment(r.failure || "ligo failed without output"));
+      } else {
+        lines.push("# operations", r.operations, "# new storage", r.storage);
+        if (r.matches === false) {
+          lines.push(comment(`!!! expected storage: ${r.scenario.expected}`));
+        }
+      }
+      return lines.join("\n");
+    });
+
+    return [`# Dry runs of ${entry.title} (${entry.target})`, ...sections]
+      .join("\n\n")
+      .concat("\n");
+  }
+
+  /**
+   * One word summary of a dry run outcome.
+   * @param result Outcome of a scenario.
+   * @returns `PASSED`, `DIFFERS`, `DONE`, `FAILWITH` or `ERROR`.
+   */
+  export function verdict(result: DryRunResult): string {
+    switch (result.status) {
+      case "failure":
+        return "FAILWITH";
+      case "error":
+        return "ERROR";
+      default:
+        return result.matches === undefined
+          ? "DONE"
+          : result.matches
+          ? "PASSED"
+          : "DIFFERS";
+    }
+  }
+
+  /**
+   * Reads `scenarios.json` contents, leaving out malformed scenarios.
+   * @param text Contents of a `scenarios.json` file, possibly empty.
+   * @returns Scenarios of every entry, empty if the file is unusable.
+   */
+  export function read(text: string): ScenariosFile {
+    const file: ScenariosFile = { version: version, scenarios: {} };
+    let raw: Maybe<Partial<ScenariosFile>>;
+    try {
+      raw = JSON.parse(text);
+    } catch {
+      return file;
+    }
+
+    if (typeof raw?.scenarios !== "object" || raw.scenarios === null) {
+      return file;
+    }
+    Object.entries(raw.scenarios).forEach(([key, scenarios]) => {
+      if (Array.isArray(scenarios)) {
+        file.scenarios[key] = scenarios.filter(isScenario);
+      }
+    });
+    return file;
+  }
+
+  /**
+   * Checks the fields of a scenario read from disk.
+   */
+  function isScenario(value: unknown): value is DryRunScenario {
+    const s = value as Partial<DryRunScenario>;
+    return (
+      typeof s === "object" &&
+      s !== null &&
+      typeof s.name === "string" &&
+      typeof s.parameter === "string" &&
+      typeof s.storage === "string" &&
+      (s.expected === undefined || typeof s.expected === "string")
+    );
+  }
+
+  /**
+   * Splits a printed `(operations, storage)` pair at its top level comma.
+   * @param text Output of a successful dry run.
+   * @returns Operations and storage, the whole text as storage if not a pair.
+   */
+  function splitPair(text: string): [string, string] {
+    const inner = /^\(([\s\S]*)\)$/.exec(text)?.[1];
+    if (inner === undefined) {
+      return ["", text];
+    }
+
+    let depth = 0;
+    let quoted = false;
+    for (let i = 0; i < inner.length; i++) {
+      const c = inner[i];
+      if (quoted) {
+        quoted = c !== '"' || inner[i - 1] === "\\";
+      } else if (c === '"') {
+        quoted = true;
+      } else if ("([{".includes(c)) {
+        depth++;
+      } else if (")]}".includes(c)) {
+        depth--;
+      } else if (c === "," && depth === 0) {
+        return [inner.slice(0, i).trim(), inner.slice(i + 1).trim()];
+      }
+    }
+    return ["", text];
+  }
+
+  /**
+   * Whitespace insensitive form of a printed value, for comparisons.
+   */
+  function normalize(value: string): string {
+    return value.replace(/\s+/g, " ").replace(/\s*([()[\]{},;])\s*/g, "$1");
+  }
+}
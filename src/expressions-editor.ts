@@ -0,0 +1,139 @@
+import * as vscode from "vscode";
+import {
+  ContractEntryScheme,
+  ExpressionKind,
+  ExpressionsEditorItem,
+  Maybe,
+} from "./types";
+
+/**
+ * QuickPick based editor for the storage and parameter expressions of a contract entry.
+ */
+export class ExpressionsEditor {
+  /**
+   * Lets user add, edit and remove expressions of an entry until saved or discarded.
+   * @param entry Contract entry whose expressions are edited.
+   * @returns Possibly the new expressions, `undefined` if edition was discarded.
+   */
+  public async edit(
+    entry: ContractEntryScheme
+  ): Promise<Maybe<Pick<ContractEntryScheme, "storages" | "parameters">>> {
+    const named: Record<ExpressionKind, Record<string, string>> = {
+      storage: { ...entry.storages },
+      parameter: { ...entry.parameters },
+    };
+
+    for (;;) {
+      const picked = await vscode.window.showQuickPick(this.items(named), {
+        title: `Storage and parameters of ${entry.title} (${entry.target})`,
+        placeHolder: "Pick an expression to edit it, emptied ones are removed",
+        ignoreFocusOut: true,
+      });
+
+      switch (picked?.action) {
+        case "edit":
+          await this.editExpression(named[picked.group!], picked.name!);
+          break;
+        case "add":
+          await this.addExpression(named[picked.group!], picked.group!);
+          break;
+        case "save":
+          // Empty groups are left out of `contracts.json`
+          return {
+            storages:
+              Object.keys(named.storage).length > 0 ? named.storage : undefined,
+            parameters:
+              Object.keys(named.parameter).length > 0
+                ? named.parameter
+                : undefined,
+          };
+        default:
+          return undefined;
+      }
+    }
+  }
+
+  /**
+   * Items of the editor: expressions grouped by kind, with their actions.
+   */
+  private items(
+    named: Record<ExpressionKind, Record<string, string>>
+  ): ExpressionsEditorItem[] {
+    const items: ExpressionsEditorItem[] = [];
+
+    (["storage", "parameter"] as ExpressionKind[]).forEach((kind) => {
+      items.push({ label: kind, kind: vscode.QuickPickItemKind.Separator });
+      Object.entries(named[kind]).forEach(([name, expression]) =>
+        items.push({
+          label: name,
+          description: expression,
+          action: "edit",
+          group: kind,
+          name: name,
+        })
+      );
+      items.push({
+        label: `$(add) Add ${kind}...`,
+        action: "add",
+        group: kind,
+      });
+    });
+
+    items.push(
+      { label: "", kind: vscode.QuickPickItemKind.Separator },
+      { label: "$(check) Save", action: "save" },
+      { label: "$(close) Discard", action: "discard" }
+    );
+    return items;
+  }
+
+  /**
+   * Asks for the new value of an expression, removing it if emptied.
+   */
+  private async editExpression(values: Record<string, string>, name: string) {
+    const expression = await vscode.window.showInputBox({
+      title: name,
+      prompt: "Ligo expression, in the syntax of the document. Empty to remove",
+      value: values[name],
+    });
+
+    if (expression === "") {
+      delete values[name];
+    } else if (expression !== undefined) {
+      values[name] = expression;
+    }
+  }
+
+  /**
+   * Asks for the name and value of a new expression.
+   */
+  private async addExpression(
+    values: Record<string, string>,
+    kind: ExpressionKind
+  ) {
+    const name = await vscode.window.showInputBox({
+      title: `New ${kind}`,
+      prompt: `Name the ${kind}, its michelson is written next to the contract`,
+      value: kind === "storage" && !("initial" in values) ? "initial" : "",
+      validateInput: (text) => {
+        if (!new RegExp(/^[a-zA-Z0-9_][a-zA-Z0-9_.'-]*$/g).test(text)) {
+          return "Names are made of letters, digits, `_`, `.`, `'` and `-`";
+        }
+        return text in values ? `${kind} ${text} already exists` : undefined;
+      },
+    });
+    if (!name) {
+      return;
+    }
+
+    const expression = await vscode.window.showInputBox({
+      title: `New ${kind} ${name}`,
+      prompt: "Ligo expression, in the syntax of the document",
+      validateInput: (text) =>
+        text.trim() ? undefined : "Expression must not be empty",
+    });
+    if (expression) {
+      values[name] = expression;
+    }
+  }
+}
@@ -0,0 +1,236 @@
+import * as vscode from "vscode";
+import { compileFlags } from "./compile-flags";
+import { Logger } from "./logger";
+import {
+  CompilerBackend,
+  ContractEntryScheme,
+  FlagOption,
+  FlagsEditorItem,
+  Maybe,
+  ParsedFlags,
+} from "./types";
+
+/**
+ * QuickPick based editor for the compile flags of a contract entry.
+ * Options are validated against the flags accepted by the installed ligo.
+ */
+export class FlagsEditor {
+  private readonly _log: Logger;
+  private readonly _backend: () => CompilerBackend;
+  private readonly _accepted: WeakMap<
+    CompilerBackend,
+    Promise<Maybe<Set<string>>>
+  >;
+
+  /**
+   * Creates a FlagsEditor instance.
+   * @param logger Logger for the extension output channel.
+   * @param backend Gets the backend ligo is currently run with.
+   */
+  constructor(logger: Logger, backend: () => CompilerBackend) {
+    this._log = logger;
+    this._backend = backend;
+    this._accepted = new WeakMap();
+  }
+
+  /**
+   * Lets user edit the compile flags of an entry until saved or discarded.
+   * @param entry Contract entry whose flags are edited.
+   * @param command Builds the arguments ligo would be called with for some flags,
+   * previewed as spelled for the installed ligo.
+   * @returns Possibly the new flags, `undefined` if edition was discarded.
+   */
+  public async edit(
+    entry: ContractEntryScheme,
+    command: (flags: string[]) => string[]
+  ): Promise<Maybe<string[]>> {
+    const accepted = await this.accepted();
+    let parsed = compileFlags.parse(entry.flags);
+
+    for (;;) {
+      const flags = compileFlags.build(parsed);
+      const problems = compileFlags.validate(flags, accepted);
+      const args = await this._backend().adapt(command(flags));
+
+      const picked = await vscode.window.showQuickPick(
+        this.items(parsed, problems, accepted),
+        {
+          title: `Compile flags of ${entry.title}`,
+          placeHolder: `ligo ${compileFlags.preview(args)}`,
+          ignoreFocusOut: true,
+        }
+      );
+
+      switch (picked?.action) {
+        case "option":
+          parsed = await this.editOption(parsed, picked.option!);
+          break;
+        case "custom":
+          parsed = await this.editCustom(parsed);
+          break;
+        case "save":
+          return problems.length === 0 ||
+            (await vscode.window.showWarningMessage(
+              `Flags of ${entry.title} have problems: ${problems.join(", ")}.`,
+              { modal: true },
+              "Save Anyway"
+            )) === "Save Anyway"
+            ? flags
+            : undefined;
+        default:
+          return undefined;
+      }
+    }
+  }
+
+  /**
+   * Items of the editor: every known option grouped, custom flags and actions.
+   */
+  private items(
+    parsed: ParsedFlags,
+    problems: string[],
+    accepted: Maybe<Set<string>>
+  ): FlagsEditorItem[] {
+    const items: FlagsEditorItem[] = [];
+
+    compileFlags.known.forEach((option, i) => {
+      if (option.group !== compileFlags.known[i - 1]?.group) {
+        items.push({
+          label: option.group,
+          kind: vscode.QuickPickItemKind.Separator,
+        });
+      }
+
+      const value = parsed.options.get(option);
+      const supported = compileFlags.isSupported(option, accepted);
+      items.push({
+        label: option.label,
+        description:
+          value === undefined
+            ? option.values
+              ? "unset"
+              : "off"
+            : option.values
+            ? `${option.names[0]} ${value}`
+            : option.names[0],
+        detail: supported
+          ? option.description
+          : `$(warning) Not accepted by the installed ligo. ${option.description}`,
+        action: "option",
+        option: option,
+      });
+    });
+
+    items.push(
+      { label: "custom", kind: vscode.QuickPickItemKind.Separator },
+      {
+        label: "Custom flags",
+        description: parsed.custom.join(" ") || "none",
+        detail: "Any other flags, passed verbatim",
+        action: "custom",
+      },
+      { label: "", kind: vscode.QuickPickItemKind.Separator },
+      {
+        label: "$(check) Save",
+        detail:
+          problems.length > 0
+            ? `$(warning) ${problems.join(", ")}`
+            : "Flags are accepted by the installed ligo",
+        action: "save",
+      },
+      { label: "$(close) Discard", action: "discard" }
+    );
+    return items;
+  }
+
+  /**
+   * Toggles a switch or asks for the value of an option.
+   */
+  private async editOption(
+    parsed: ParsedFlags,
+    option: FlagOption
+  ): Promise<ParsedFlags> {
+    const options = new Map(parsed.options);
+
+    if (!option.values) {
+      options.has(option) ? options.delete(option) : options.set(option, "");
+      return { options, custom: parsed.custom };
+    }
+
+    const other = "Other...";
+    const unset = "Unset";
+    const current = options.get(option);
+    const picked = await vscode.window.showQuickPick(
+      [...option.values, other, unset],
+      {
+        title: option.label,
+        placeHolder: current
+          ? `${option.names[0]} ${current}`
+          : option.description,
+      }
+    );
+
+    const value =
+      picked === other
+        ? await vscode.window.showInputBox({
+            title: option.label,
+            prompt: option.description,
+            value: current,
+          })
+        : picked;
+
+    if (value === unset || value === "") {
+      options.delete(option);
+    } else if (value !== undefined) {
+      options.set(option, value);
+    }
+    return { options, custom: parsed.custom };
+  }
+
+  /**
+   * Asks for custom flags, separated by spaces.
+   */
+  private async editCustom(parsed: ParsedFlags): Promise<ParsedFlags> {
+    const input = await vscode.window.showInputBox({
+      title: "Custom flags",
+      prompt: "Flags passed verbatim to ligo, separated by spaces",
+      value: parsed.custom.join(" "),
+    });
+    if (input === undefined) {
+      return parsed;
+    }
+
+    // Known options typed here are moved to their own items
+    const typed = compileFlags.parse(input.split(/\s+/).filter((f) => f));
+    return {
+      options: new Map([...parsed.options, ...typed.options]),
+      custom: typed.custom,
+    };
+  }
+
+  /**
+   * Flag names accepted by the installed ligo, read once per backend from its help.
+   * @returns Possibly the flag names, `undefined` if ligo could not be asked.
+   */
+  private accepted(): Promise<Maybe<Set<string>>> {
+    const backend = this._backend();
+    let accepted = this._accepted.get(backend);
+    if (!accepted) {
+      accepted = backend
+        .run(["compile", "contract", "--help"], {
+          timeout: 10000,
+        })
+        .then(({ stdout, stderr, error }) => {
+          const flags = compileFlags.supported(stdout || stderr);
+          if (error || flags.size === 0) {
+            this._log.info("Unable to read flags accepted by ligo");
+            this._accepted.delete(backend);
+            return undefined;
+          }
+          return flags;
+        });
+      this._accepted.set(backend, accepted);
+    }
+    return accepted;
+  }
+}
@@ -0,0 +1,240 @@
+import { posix } from "path";
+import * as vscode from "vscode";
+import { contracts } from "./contracts-file";
+import { CompilationResult, ContractEntryScheme } from "./types";
+
+/**
+ * Publishes errors and warnings from ligo compilations as editor diagnostics.
+ */
+export class LigoDiagnostics {
+  private readonly _collection: vscode.DiagnosticCollection;
+  private readonly _reported: Map<string, Map<string, vscode.Diagnostic[]>>;
+
+  /**
+   * Creates a LigoDiagnostics instance.
+   * @param context Extension context, owner of the diagnostic collection.
+   */
+  constructor(context: vscode.ExtensionContext) {
+    this._collection = vscode.languages.createDiagnosticCollection("ligo");
+    this._reported = new Map<string, Map<string, vscode.Diagnostic[]>>();
+    context.subscriptions.push(this._collection);
+  }
+
+  /**
+   * Replaces diagnostics of a target with those found in its compilation.
+   * A successful compilation without warnings clears all of them,
+   * those of other targets of the same source are kept.
+   * @param entry Entry of the compiled target.
+   * @param result Results of compiling the target.
+   */
+  public publish(entry: ContractEntryScheme, result: CompilationResult) {
+    const key = contracts.key(entry);
+    const previous = [...(this._reported.get(key)?.keys() || [])];
+    const found = LigoDiagnostics.parse(
+      result.messages,
+      entry.source,
+      !result.ok
+    );
+
+    // Errors may be located in imported files, refresh every file from last time
+    this._reported.set(key, found);
+    this.refresh([...previous, ...found.keys()]);
+  }
+
+  /**
+   * Removes every diagnostic that was reported by compiling a target.
+   * @param entry Entry of the target.
+   */
+  public clear(entry: ContractEntryScheme) {
+    const key = contracts.key(entry);
+    const previous = [...(this._reported.get(key)?.keys() || [])];
+    this._reported.delete(key);
+    this.refresh(previous);
+  }
+
+  /**
+   * Sets the diagnostics of files to those reported by every target,
+   * a message found by several targets being shown once.
+   * @param files File paths to refresh.
+   */
+  private refresh(files: string[]) {
+    new Set(files).forEach((file) => {
+      const merged = new Map<string, vscode.Diagnostic>();
+      this._reported.forEach((found) =>
+        found
+          .get(file)
+          ?.forEach((d) =>
+            merged.set(
+              [
+                d.range.start.line,
+                d.range.start.character,
+                d.range.end.line,
+                d.range.end.character,
+                d.severity,
+                d.message,
+              ].join(":"),
+              d
+            )
+          )
+      );
+
+      if (merged.size > 0) {
+        this._collection.set(vscode.Uri.file(file), [...merged.values()]);
+      } else {
+        this._collection.delete(vscode.Uri.file(file));
+      }
+    });
+  }
+
+  /**
+   * Parses ligo compiler output into diagnostics grouped by file.
+   * Messages are expected in the form of
+   * `File "<path>", line <l>, characters <c1>-<c2>:` followed by a code excerpt and the message.
+   * @param output Error output from the ligo compiler.
+   * @param source File path of the compiled ligo document, relative paths are resolved from it.
+   * @param failed If `true`, messages without location are reported on `source`.
+   * @returns Map from file path to the diagnostics found for it.
+   */
+  public static parse(
+    output: string,
+    source: string,
+    failed: boolean
+  ): Map<string, vscode.Diagnostic[]> {
+    const found = new Map<string, vscode.Diagnostic[]>();
+    const add = (file: string, diagnostic: vscode.Diagnostic) => {
+      diagnostic.source = "ligo";
+      found.set(file, [...(found.get(file) || []), diagnostic]);
+    };
+
+    const header =
+      /^File "(.+)", line (\d+), (?:characters (\d+)-(\d+)|character (\d+) to line (\d+), character (\d+)):\s*$/;
+    const lines = output.split(/\r?\n/);
+
+    // Text appearing before the first location has no position to point at
+    const preamble: string[] = [];
+    let i = 0;
+    while (i < lines.length && !header.test(lines[i])) {
+      preamble.push(lines[i++]);
+    }
+
+    while (i < lines.length) {
+      const m = lines[i++].match(header)!;
+      const line = Number(m[2]) - 1;
+      const range = m[3]
+        ? new vscode.Range(line, Number(m[3]), line, Number(m[4]))
+        : new vscode.Range(line, Number(m[5]), Number(m[6]) - 1, Number(m[7]));
+      const file = posix.isAbsolute(m[1])
+        ? m[1]
+        : posix.join(posix.dirname(source), m[1]);
+
+      const body: string[] = [];
+      while (i < lines.length && !header.test(lines[i])) {
+        body.push(lines[i++]);
+      }
+
+      const message = LigoDiagnostics.stripExcerpt(body);
+      if (message.length > 0) {
+        add(file, LigoDiagnostics.toDiagnostic(range, message));
+      }
+    }
+
+    // Unlocated text is only relevant if nothing else explains the failure
+    const orphan = LigoDiagnostics.stripExcerpt(preamble);
+    if (
+      orphan.length > 0 &&
+      ((failed && found.size === 0) || orphan.startsWith("Warning"))
+    ) {
+      add(
+        source,
+        LigoDiagnostics.toDiagnostic(new vscode.Range(0, 0, 0, 0), orphan)
+      );
+    }
+
+    // A failed compilation must always leave a trace in the document
+    if (failed && found.size === 0) {
+      add(
+        source,
+        new vscode.Diagnostic(
+          new vscode.Range(0, 0, 0, 0),
+          "Compilation failed without error messages.",
+          vscode.DiagnosticSeverity.Error
+        )
+      );
+    }
+
+    return found;
+  }
+
+  /**
+   * Rewrites ligo compiler output as a location header followed by a single message line,
+   * for every message, the form read by the `$ligo` problem matcher.
+   * Headers always name the end line, and count columns from 1 as problem matchers do,
+   * one past ligo's numbering.
+   * @param output Error output from the ligo compiler.
+   * @param source File path of the compiled ligo document, relative paths are resolved from it.
+   * @param failed If `true`, messages without location are reported on `source`.
+   * @returns Lines to be written, locations being absolute.
+   */
+  public static condense(
+    output: string,
+    source: string,
+    failed: boolean
+  ): string[] {
+    const lines: string[] = [];
+    LigoDiagnostics.parse(output, source, failed).forEach((diagnostics, file) =>
+      diagnostics.forEach(({ range: { start, end }, message, severity }) =>
+        lines.push(
+          `File "${file}", line ${start.line + 1}, character ${
+            start.character + 1
+          } to line ${end.line + 1}, character ${end.character + 1}:`,
+          `${
+            severity === vscode.DiagnosticSeverity.Warning ? "Warning" : "Error"
+          }: ${message.replace(/\s*\n\s*/g, " ")}`
+        )
+      )
+    );
+    return lines;
+  }
+
+  /**
+   * Removes code excerpt lines (`"  3 | let x = ..."`), their `^^^` underlines
+   * and blank edges from a message block.
+   * @param block Lines following a location header.
+   * @returns The message text, possibly empty.
+   */
+  private static stripExcerpt(block: string[]): string {
+    return block
+      .filter(
+        (l) =>
+          !/^\s*(\d+\s*)?\|/.test(l) &&
+          !/^\s*:\s*$/.test(l) &&
+          !/^\s*\^+\s*$/.test(l)
+      )
+      .join("\n")
+      .trim();
+  }
+
+  /**
+   * Creates a diagnostic whose severity is taken from the message prefix.
+   * @param range Range in the document the message refers to.
+   * @param message Message from the ligo compiler.
+   * @returns A diagnostic, warning if message starts with `"Warning:"`, error otherwise.
+   */
+  private static toDiagnostic(
+    range: vscode.Range,
+    message: string
+  ): vscode.Diagnostic {
+    const warning = message.match(/^Warning:\s*([\s\S]*)$/);
+    return warning
+      ? new vscode.Diagnostic(
+          range,
+          warning[1],
+          vscode.DiagnosticSeverity.Warning
+        )
+      : new vscode.Diagnostic(
+          range,
+          message.replace(/^Error:\s*/, ""),
+          vscode.DiagnosticSeverity.Error
+        );
+  }
+}
@@ -0,0 +1,384 @@
+import * as vscode from "vscode";
+import {
+  EntrypointCandidate,
+  LigoDeclaration,
+  LigoDialect,
+  LigoParameter,
+  Maybe,
+} from "./types";
+
+export namespace ligoSyntax {
+  /**
+   * Declaration keywords of every dialect, `namespace` being jsligo's module.
+   */
+  const head =
+    /^([ \t]*)((?:\[@[^\]\n]*\][ \t]*|@\w+[ \t]+)*)(?:export[ \t]+)?(let|const|function|module|namespace)[ \t]+(?:rec[ \t]+)?([a-zA-Z_][\w']*)/gm;
+
+  /**
+   * Lines made only of attributes, e.g. `[@entry]`, `// @entry` or `@entry`.
+   */
+  const attributeLine =
+    /^\s*(?:\[@[^\]]*\]\s*|\/\/\s*@\w+.*|\/\*\s*@\w+[\s\S]*?\*\/\s*|@\w+\s*)$/;
+
+  /**
+   * Finds declarations of a ligo document by scanning their headers.
+   * Scanning is lexical, declarations inside comments or strings are found as well.
+   * @param doc A ligo document of any dialect.
+   * @returns Declarations in order of appearance.
+   */
+  export function declarations(doc: vscode.TextDocument): LigoDeclaration[] {
+    const text = doc.getText();
+    const dialect = doc.languageId as LigoDialect;
+    const found: LigoDeclaration[] = [];
+
+    head.lastIndex = 0;
+    let m: RegExpExecArray | null;
+    while ((m = head.exec(text))) {
+      const [whole, indent, inline, keyword, name] = m;
+      const nameStart = m.index + whole.length - name.length;
+      const { groups, type, end, bare } = header(
+        text,
+        m.index + whole.length,
+        dialect
+      );
+
+      const isModule = keyword === "module" || keyword === "namespace";
+      const params = isModule
+        ? []
+        : [...bare, ...groups.flatMap((g) => splitParams(g, dialect))];
+
+      found.push({
+        name: name,
+        kind: isModule
+          ? "module"
+          : groups.length > 0 || bare.length > 0 || keyword === "function"
+          ? "function"
+          : "value",
+        params: params,
+        type: type,
+        attributes: [
+          ...precedingAttributes(doc, doc.positionAt(m.index).line),
+          ...attributeNames(inline),
+        ],
+        indent: indent.length,
+        range: new vscode.Range(
+          doc.positionAt(nameStart),
+          doc.positionAt(nameStart + name.length)
+        ),
+        header: text.slice(m.index + indent.length + inline.length, end).trim(),
+      });
+    }
+
+    return found;
+  }
+
+  /**
+   * Finds the declaration immediately following a position,
+   * which is the one annotated by attributes at that position.
+   * @param decls Declarations of a ligo document.
+   * @param position A position in the same document.
+   * @returns Possibly the first declaration starting after position.
+   */
+  export function nextDeclaration(
+    decls: LigoDeclaration[],
+    position: vscode.Position
+  ): Maybe<LigoDeclaration> {
+    return decls.find((d) => d.range.start.isAfter(position));
+  }
+
+  /**
+   * Finds what a ligo document may be compiled as contracts from:
+   * functions marked with `@entry`, at any depth, top level functions
+   * with the contract signature, taking parameter and storage and returning
+   * operations along with the new storage, and modules holding `@entry` functions,
+   * compiled as a whole.
+   * @param doc A ligo document of any dialect.
+   * @returns Candidates in order of appearance.
+   */
+  export function entrypoints(doc: vscode.TextDocument): EntrypointCandidate[] {
+    const decls = declarations(doc);
+    const path = (d: LigoDeclaration) => {
+      const modules = enclosingModules(decls, d);
+      return modules.length > 0 ? modules.join(".") : undefined;
+    };
+
+    // Modules only count through the `@entry` functions directly in them
+    const entries = decls.filter(
+      (d) => d.kind === "function" && d.attributes.includes("entry")
+    );
+    const holders = new Set(entries.map(path));
+
+    return decls
+      .map((d): Maybe<EntrypointCandidate> => {
+        if (d.kind === "module") {
+          const own = [path(d), d.name].filter((m) => m).join(".");
+          return holders.has(own)
+            ? {
+                name: d.name,
+                module: own,
+                signature: d.header.replace(/\s+/g, " "),
+                reason: "module",
+              }
+            : undefined;
+        }
+
+        const reason = entries.includes(d)
+          ? "attribute"
+          : d.kind === "function" && d.indent === 0 && isContractSignature(d)
+          ? "signature"
+          : undefined;
+        return reason
+          ? {
+              name: d.name,
+              module: path(d),
+              signature: d.header.replace(/\s+/g, " "),
+              reason: reason,
+            }
+          : undefined;
+      })
+      .filter((c): c is EntrypointCandidate => !!c);
+  }
+
+  /**
+   * Splits the contents of a parameter group into parameters.
+   * Handles cameligo tuples such as `p, s : parameter * storage`,
+   * destructured tuples of reasonligo and jsligo
+   * and pascaligo `const`/`var` parameters separated by `;`.
+   * @param group Text between the parentheses of a parameter group.
+   * @param dialect Dialect of the document.
+   * @returns Named parameters, unit and wildcard patterns excluded.
+   */
+  export function splitParams(
+    group: string,
+    dialect: LigoDialect
+  ): LigoParameter[] {
+    // Destructured tuples, as in `(p, s): (parameter, storage)` or `[p, s]: [parameter, storage]`
+    const tuple = group.match(
+      /^\s*[([]([^()[\]]*)[)\]]\s*:\s*[([]([\s\S]*)[)\]]\s*$/
+    );
+    if (tuple) {
+      const types = splitTopLevel(tuple[2], ",");
+      return splitTopLevel(tuple[1], ",")
+        .map((name, i) => ({ name: name.trim(), type: types[i]?.trim() }))
+        .filter((p) => /^[a-zA-Z_][\w']*$/.test(p.name));
+    }
+
+    const params = splitTopLevel(group, dialect === "ligo" ? ";" : ",")
+      .map((segment) =>
+        segment.match(
+          /^\s*(?:const\s+|var\s+)?([a-zA-Z_][\w']*)\s*(?::\s*([\s\S]+?))?\s*$/
+        )
+      )
+      .filter((m): m is RegExpMatchArray => !!m && m[1] !== "_")
+      .map((m) => ({ name: m[1], type: m[2] }));
+
+    // Cameligo tuple, only the last element carries the product type
+    const last = params[params.length - 1];
+    if (dialect === "mligo" && params.length > 1 && last.type) {
+      const parts = splitTopLevel(last.type, "*");
+      if (
+        parts.length === params.length &&
+        params.slice(0, -1).every((p) => !p.type)
+      ) {
+        return params.map((p, i) => ({ name: p.name, type: parts[i].trim() }));
+      }
+    }
+    return params;
+  }
+
+  /**
+   * Scans a declaration header from the end of the declared name up to its body.
+   * @returns Parameter groups, declared or return type, untyped cameligo
+   * parameters and the offset where the header ends.
+   */
+  function header(
+    text: string,
+    from: number,
+    dialect: LigoDialect
+  ): {
+    groups: string[];
+    type: Maybe<string>;
+    end: number;
+    bare: LigoParameter[];
+  } {
+    const groups: string[] = [];
+    const limit = Math.min(text.length, from + 2000);
+    let depth = 0;
+    let groupStart = -1;
+    let typeStart = -1;
+    let i = from;
+
+    const finish = (end: number) => {
+      const type =
+        typeStart >= 0
+          ? text.slice(typeStart, end).trim() || undefined
+          : undefined;
+
+      // Cameligo accepts untyped parameters, as in `let f x y = ...`
+      const bare =
+        dialect === "mligo" && groups.length === 0
+          ? (
+              text
+                .slice(from, typeStart >= 0 ? typeStart - 1 : end)
+                .match(/[a-zA-Z_][\w']*/g) || []
+            ).map((name) => ({ name, type: undefined }))
+          : [];
+      return { groups, type, end, bare };
+    };
+
+    for (; i < limit; i++) {
+      const c = text[i];
+      // Parentheses after a type annotation belong to the type
+      if (c === "(") {
+        if (depth === 0 && typeStart < 0) {
+          groupStart = i + 1;
+        }
+        depth++;
+        continue;
+      }
+      if (c === ")") {
+        depth--;
+        if (depth === 0 && typeStart < 0) {
+          groups.push(text.slice(groupStart, i));
+        }
+        continue;
+      }
+      if (depth > 0) {
+        continue;
+      }
+
+      if (c === "=" && text[i + 1] === ">") {
+        return finish(i);
+      }
+      if (c === "=" && !"<>!=".includes(text[i - 1]) && text[i + 1] !== "=") {
+        // Reasonligo and jsligo functions are values bound to lambdas
+        if (
+          (dialect === "religo" || dialect === "jsligo") &&
+          groups.length === 0 &&
+          isLambda(text, i + 1)
+        ) {
+          typeStart = -1;
+          continue;
+        }
+        return finish(i);
+      }
+      if (c === "{" || c === ";") {
+        return finish(i);
+      }
+      if (dialect === "ligo" && /^\sis\b/.test(text.slice(i, i + 4))) {
+        return finish(i);
+      }
+      if (c === ":" && typeStart < 0) {
+        typeStart = i + 1;
+      }
+    }
+
+    return finish(i);
+  }
+
+  /**
+   * Checks wheather text at offset is a lambda, as in `(x: int): int => ...`.
+   */
+  function isLambda(text: string, offset: number): boolean {
+    const rest = text.slice(offset, offset + 2000);
+    if (!/^\s*\(/.test(rest)) {
+      return false;
+    }
+
+    let depth = 0;
+    for (let i = rest.indexOf("("); i < rest.length; i++) {
+      depth += rest[i] === "(" ? 1 : rest[i] === ")" ? -1 : 0;
+      if (depth === 0) {
+        return /^\s*(:\s*[^=;{]+)?=>/.test(rest.slice(i + 1));
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Checks wheather a function looks like a contract, as in
+   * `let main (p, s : parameter * storage) : operation list * storage`.
+   */
+  function isContractSignature(decl: LigoDeclaration): boolean {
+    if (decl.params.length !== 2) {
+      return false;
+    }
+
+    const returnsOperations =
+      !!decl.type && /operation\s+list|list\s*[<(]\s*operation/.test(decl.type);
+    return (
+      returnsOperations ||
+      decl.name === "main" ||
+      decl.params[0].type === "parameter"
+    );
+  }
+
+  /**
+   * Names of the modules enclosing a declaration, outermost first.
+   * Nesting is inferred from indentation.
+   */
+  function enclosingModules(
+    decls: LigoDeclaration[],
+    decl: LigoDeclaration
+  ): string[] {
+    const modules: string[] = [];
+    let indent = decl.indent;
+    for (let i = decls.indexOf(decl) - 1; i >= 0 && indent > 0; i--) {
+      const d = decls[i];
+      if (d.indent < indent) {
+        if (d.kind !== "module") {
+          break;
+        }
+        modules.unshift(d.name);
+        indent = d.indent;
+      }
+    }
+    return modules;
+  }
+
+  /**
+   * Splits text on a separator, ignoring separators nested in brackets.
+   */
+  function splitTopLevel(text: string, separator: string): string[] {
+    const parts: string[] = [];
+    let depth = 0;
+    let start = 0;
+    for (let i = 0; i < text.length; i++) {
+      const c = text[i];
+      // Arrows in function types are not closing brackets
+      const arrow = c === ">" && (text[i - 1] === "-" || text[i - 1] === "=");
+      depth += "([{<".includes(c) ? 1 : ")]}>".includes(c) && !arrow ? -1 : 0;
+      if (depth === 0 && c === separator) {
+        parts.push(text.slice(start, i));
+        start = i + 1;
+      }
+    }
+    parts.push(text.slice(start));
+    return parts.filter((p) => p.trim().length > 0);
+  }
+
+  /**
+   * Collects attribute names from the lines right above a declaration.
+   */
+  function precedingAttributes(
+    doc: vscode.TextDocument,
+    line: number
+  ): string[] {
+    const names: string[] = [];
+    for (let l = line - 1; l >= 0; l--) {
+      const text = doc.lineAt(l).text;
+      if (!attributeLine.test(text)) {
+        break;
+      }
+      names.unshift(...attributeNames(text));
+    }
+    return names;
+  }
+
+  /**
+   * Extracts attribute names, `[@inline] [@entry]` yields `inline` and `entry`.
+   */
+  function attributeNames(text: string): string[] {
+    return (text.match(/@\w+/g) || []).map((a) => a.slice(1));
+  }
+}
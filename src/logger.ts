@@ -30,6 +30,19 @@ export class Logger {
     }
   }
 
+  /**
+   * Send text to output channel exactly as given, without a level prefix.
+   * Used to relay output from external tools.
+   * @param msg `string` The text to be displayed.
+   * @param show `boolean` Bring output channel to focus.
+   */
+  public append(msg: string, show: boolean = false) {
+    this._extensionOutput.appendLine(msg);
+    if (show) {
+      this._extensionOutput.show(true);
+    }
+  }
+
   /**
    * Send a message to output channel.
    * Debug messages seen in every environment but production.
@@ -0,0 +1,135 @@
+import * as vscode from "vscode";
+import { michelsonSyntax } from "./michelson-syntax";
+import { Maybe, MichelsonReference, MichelsonSymbol } from "./types";
+import { io } from "./utils";
+import { ViewManager } from "./view-manager";
+
+/**
+ * Outline, folding and hover documentation for michelson views.
+ */
+export class MichelsonLanguageFeatures
+  implements
+    vscode.DocumentSymbolProvider,
+    vscode.FoldingRangeProvider,
+    vscode.HoverProvider
+{
+  static readonly selector: vscode.DocumentSelector = [
+    { scheme: ViewManager.scheme },
+  ];
+
+  private readonly _context: vscode.ExtensionContext;
+  private _reference: Maybe<Promise<Maybe<MichelsonReference>>>;
+
+  /**
+   * Creates a MichelsonLanguageFeatures instance.
+   * @param context Context of the extension, locating the bundled reference.
+   */
+  constructor(context: vscode.ExtensionContext) {
+    this._context = context;
+  }
+
+  /**
+   * Sections of the contract, views and lambdas nested where they appear.
+   */
+  provideDocumentSymbols(doc: vscode.TextDocument): vscode.DocumentSymbol[] {
+    const convert = (s: MichelsonSymbol): vscode.DocumentSymbol => {
+      const symbol = new vscode.DocumentSymbol(
+        s.name,
+        s.detail,
+        s.kind === "lambda"
+          ? vscode.SymbolKind.Function
+          : s.kind === "view"
+          ? vscode.SymbolKind.Method
+          : s.name === "code"
+          ? vscode.SymbolKind.Module
+          : vscode.SymbolKind.TypeParameter,
+        s.range,
+        s.selection
+      );
+      symbol.children = s.children.map(convert);
+      return symbol;
+    };
+    return michelsonSyntax.symbols(doc).map(convert);
+  }
+
+  /**
+   * Brace blocks, sections and comment runs spanning several lines.
+   */
+  provideFoldingRanges(doc: vscode.TextDocument): vscode.FoldingRange[] {
+    return michelsonSyntax.foldingRanges(doc);
+  }
+
+  /**
+   * Documents the instruction, type or section keyword under the cursor.
+   */
+  async provideHover(
+    doc: vscode.TextDocument,
+    position: vscode.Position
+  ): Promise<Maybe<vscode.Hover>> {
+    const range = doc.getWordRangeAtPosition(position, /[A-Za-z_][\w]*/);
+    if (!range) {
+      return undefined;
+    }
+
+    // Words in comments and strings are not code
+    const before = doc
+      .lineAt(position.line)
+      .text.slice(0, range.start.character)
+      .replace(/"(?:[^"\\]|\\.)*"/g, "");
+    if (before.includes("#") || before.includes('"')) {
+      return undefined;
+    }
+
+    const word = doc.getText(range);
+    const reference = await this.reference();
+    const found =
+      reference?.instructions[word] ||
+      reference?.types[word] ||
+      reference?.keywords[word];
+
+    const markdown = new vscode.MarkdownString();
+    if (found) {
+      const kind = reference!.instructions[word]
+        ? "instruction"
+        : reference!.types[word]
+        ? "type"
+        : "section";
+      markdown.appendMarkdown(`**${word}** *${kind}*\n\n`);
+      if (found.typing.length > 0) {
+        markdown.appendCodeblock(
+          found.typing
+            .map((t) => (t.startsWith(word) ? t : `${word} :: ${t}`))
+            .join("\n"),
+          "michelson"
+        );
+      }
+      markdown.appendMarkdown(found.description);
+    } else {
+      const macro = michelsonSyntax.macro(word);
+      if (!macro) {
+        return undefined;
+      }
+      markdown.appendMarkdown(`**${word}** *macro*\n\n${macro}`);
+    }
+    return new vscode.Hover(markdown, range);
+  }
+
+  /**
+   * Michelson reference bundled with the extension, read once.
+   * @returns Possibly the reference, `undefined` if it could not be read.
+   */
+  private reference(): Promise<Maybe<MichelsonReference>> {
+    if (!this._reference) {
+      this._reference = io
+        .safeRead(
+          vscode.Uri.joinPath(
+            this._context.extensionUri,
+            "resources",
+            "michelson-reference.json"
+          )
+        )
+        .then((text) => io.safeParse<MichelsonReference>(text));
+    }
+    return this._reference;
+  }
+}
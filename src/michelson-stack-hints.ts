@@ -0,0 +1,133 @@
+import * as vscode from "vscode";
+import { Config } from "./config";
+import { dryRun } from "./dry-run";
+import { michelsonTypes } from "./michelson-typechecker";
+import { TypecheckResult } from "./types";
+import { ViewManager } from "./view-manager";
+
+/**
+ * Shows the stack type after each instruction of michelson views as inlay hints,
+ * reporting type errors and unsupported instructions as diagnostics.
+ */
+export class MichelsonStackHints implements vscode.InlayHintsProvider {
+  static readonly selector: vscode.DocumentSelector = [
+    { scheme: ViewManager.scheme },
+  ];
+
+  /**
+   * Hints longer than this are shortened, the whole stack shown on hover.
+   */
+  private static readonly maxLength = 60;
+
+  private readonly _config: Config;
+  private readonly _collection: vscode.DiagnosticCollection;
+  private readonly _results: Map<
+    string,
+    { version: number; result: TypecheckResult }
+  >;
+  private readonly _onDidChangeInlayHints: vscode.EventEmitter<void>;
+  readonly onDidChangeInlayHints: vscode.Event<void>;
+
+  /**
+   * Creates a MichelsonStackHints instance.
+   * @param context Extension context, owner of the diagnostics.
+   * @param config Extension configurations, `stackHints` controls inlay hints.
+   */
+  constructor(context: vscode.ExtensionContext, config: Config) {
+    this._config = config;
+    this._collection = vscode.languages.createDiagnosticCollection("michelson");
+    this._results = new Map();
+    this._onDidChangeInlayHints = new vscode.EventEmitter<void>();
+    this.onDidChangeInlayHints = this._onDidChangeInlayHints.event;
+    context.subscriptions.push(this._collection, this._onDidChangeInlayHints);
+  }
+
+  /**
+   * Typechecks a michelson view, replacing its diagnostics.
+   * @param doc A document, ignored unless a michelson view of a contract.
+   */
+  public refresh(doc: vscode.TextDocument) {
+    if (
+      doc.uri.scheme !== ViewManager.scheme ||
+      dryRun.isViewPath(doc.uri.path)
+    ) {
+      return;
+    }
+
+    const diagnostics = this.typecheck(doc).problems.map((p) => {
+      const diagnostic = new vscode.Diagnostic(
+        new vscode.Range(doc.positionAt(p.start), doc.positionAt(p.end)),
+        p.message,
+        p.unsupported
+          ? vscode.DiagnosticSeverity.Information
+          : vscode.DiagnosticSeverity.Error
+      );
+      diagnostic.source = "michelson";
+      return diagnostic;
+    });
+    this._collection.set(doc.uri, diagnostics);
+  }
+
+  /**
+   * Removes the diagnostics of a closed michelson view.
+   * @param doc A document, ignored unless a michelson view.
+   */
+  public clear(doc: vscode.TextDocument) {
+    if (doc.uri.scheme !== ViewManager.scheme) {
+      return;
+    }
+    this._collection.delete(doc.uri);
+    this._results.delete(doc.uri.toString());
+  }
+
+  /**
+   * Asks for inlay hints again, e.g. after configurations change.
+   */
+  public refreshHints() {
+    this._onDidChangeInlayHints.fire();
+  }
+
+  /**
+   * Stack types after the instructions within range, unless disabled.
+   */
+  provideInlayHints(
+    doc: vscode.TextDocument,
+    range: vscode.Range
+  ): vscode.InlayHint[] {
+    if (!this._config.getStackHints()) {
+      return [];
+    }
+
+    return this.typecheck(doc)
+      .hints.map((h) => ({ ...h, position: doc.positionAt(h.offset) }))
+      .filter((h) => range.contains(h.position))
+      .map((h) => {
+        const full = michelsonTypes.showStack(h.stack);
+        const label =
+          full.length > MichelsonStackHints.maxLength
+            ? `${full.slice(0, MichelsonStackHints.maxLength - 1)}…`
+            : full;
+        const hint = new vscode.InlayHint(h.position, label);
+        hint.paddingLeft = true;
+        if (label !== full) {
+          hint.tooltip = full;
+        }
+        return hint;
+      });
+  }
+
+  /**
+   * Typechecks a document once per version.
+   */
+  private typecheck(doc: vscode.TextDocument): TypecheckResult {
+    const key = doc.uri.toString();
+    const cached = this._results.get(key);
+    if (cached?.version === doc.version) {
+      return cached.result;
+    }
+
+    const result = michelsonTypes.check(doc.getText());
+    this._results.set(key, { version: doc.version, result: result });
+    return result;
+  }
+}
@@ -0,0 +1,298 @@
+import * as vscode from "vscode";
+import { Maybe, MichelsonSymbol, MichelsonToken } from "./types";
+
+export namespace michelsonSyntax {
+  /**
+   * Comments, strings, punctuation, annotations, words and literals, in this order.
+   */
+  const lexeme =
+    /#[^\n]*|\/\*[\s\S]*?\*\/|"(?:[^"\\]|\\.)*"|[{}();]|[%@:][\w.%@]*|[A-Za-z_][\w]*|0x[0-9a-fA-F]*|-?\d+|\S/g;
+
+  /**
+   * Top level keywords of a contract.
+   */
+  const sections = ["parameter", "storage", "code", "view"];
+
+  /**
+   * Splits michelson code into tokens, leaving comments and annotations out.
+   * @param text Michelson code.
+   * @returns Tokens in order of appearance.
+   */
+  export function tokenize(text: string): MichelsonToken[] {
+    const tokens: MichelsonToken[] = [];
+    lexeme.lastIndex = 0;
+    let m: RegExpExecArray | null;
+    while ((m = lexeme.exec(text))) {
+      if (!/^(#|\/\*|[%@:])/.test(m[0])) {
+        tokens.push({ text: m[0], offset: m.index });
+      }
+    }
+    return tokens;
+  }
+
+  /**
+   * Pairs every opening brace with its closing brace.
+   * Unbalanced braces are left out.
+   * @param tokens Tokens of michelson code.
+   * @returns Index of the closing token, by index of the opening token.
+   */
+  export function braces(tokens: MichelsonToken[]): Map<number, number> {
+    const pairs = new Map<number, number>();
+    const open: number[] = [];
+    tokens.forEach((t, i) => {
+      if (t.text === "{") {
+        open.push(i);
+      } else if (t.text === "}" && open.length > 0) {
+        pairs.set(open.pop()!, i);
+      }
+    });
+    return pairs;
+  }
+
+  /**
+   * Finds the sections, views and lambdas of a michelson document,
+   * lambdas nested in the symbol they appear in.
+   * @param doc A michelson document, contract or view.
+   * @returns Top level symbols in order of appearance.
+   */
+  export function symbols(doc: vscode.TextDocument): MichelsonSymbol[] {
+    const text = doc.getText();
+    const tokens = tokenize(text);
+    const pairs = braces(tokens);
+    const flat: MichelsonSymbol[] = [];
+
+    const symbol = (
+      name: string,
+      kind: MichelsonSymbol["kind"],
+      first: number,
+      last: number,
+      detail: string
+    ): MichelsonSymbol => ({
+      name: name,
+      detail: detail.replace(/\s+/g, " ").trim(),
+      kind: kind,
+      range: new vscode.Range(
+        doc.positionAt(tokens[first].offset),
+        doc.positionAt(tokens[last].offset + tokens[last].text.length)
+      ),
+      selection: new vscode.Range(
+        doc.positionAt(tokens[first].offset),
+        doc.positionAt(tokens[first].offset + tokens[first].text.length)
+      ),
+      children: [],
+    });
+    const between = (from: number, to: number) =>
+      from <= to
+        ? text.slice(
+            tokens[from].offset,
+            tokens[to].offset + tokens[to].text.length
+          )
+        : "";
+
+    // Compiled contracts are usually wrapped in braces
+    const top = tokens[0]?.text === "{" ? 1 : 0;
+    let depth = 0;
+    tokens.forEach((t, i) => {
+      if (depth === top && sections.includes(t.text)) {
+        const end = sectionEnd(tokens, i);
+        if (t.text === "view") {
+          const name = tokens[i + 1]?.text.replace(/^"|"$/g, "") || "view";
+          const body = tokens.findIndex((b, j) => j > i && b.text === "{");
+          flat.push(
+            symbol(
+              name,
+              "view",
+              i,
+              end,
+              between(i + 2, Math.min(body, end) - 1)
+            )
+          );
+        } else {
+          flat.push(
+            symbol(
+              t.text,
+              "section",
+              i,
+              end,
+              t.text === "code" ? "" : between(i + 1, end)
+            )
+          );
+        }
+      } else if (t.text === "LAMBDA" || t.text === "LAMBDA_REC") {
+        const body = tokens.findIndex((b, j) => j > i && b.text === "{");
+        const close = pairs.get(body);
+        if (close !== undefined) {
+          flat.push(
+            symbol(t.text, "lambda", i, close, between(i + 1, body - 1))
+          );
+        }
+      }
+
+      depth += t.text === "{" || t.text === "(" ? 1 : 0;
+      depth -= t.text === "}" || t.text === ")" ? 1 : 0;
+    });
+
+    return nest(flat);
+  }
+
+  /**
+   * Lines folded for every multiline brace block and section,
+   * and for runs of comment lines.
+   * @param doc A michelson document.
+   * @returns Folding ranges, possibly nested.
+   */
+  export function foldingRanges(
+    doc: vscode.TextDocument
+  ): vscode.FoldingRange[] {
+    const tokens = tokenize(doc.getText());
+    const ranges: vscode.FoldingRange[] = [];
+
+    braces(tokens).forEach((close, open) => {
+      const start = doc.positionAt(tokens[open].offset).line;
+      const end = doc.positionAt(tokens[close].offset).line;
+      if (end > start) {
+        ranges.push(new vscode.FoldingRange(start, end));
+      }
+    });
+
+    const top = tokens[0]?.text === "{" ? 1 : 0;
+    let depth = 0;
+    tokens.forEach((t, i) => {
+      if (depth === top && sections.includes(t.text)) {
+        const start = doc.positionAt(t.offset).line;
+        const end = doc.positionAt(tokens[sectionEnd(tokens, i)].offset).line;
+        if (end > start) {
+          ranges.push(new vscode.FoldingRange(start, end));
+        }
+      }
+      depth += t.text === "{" || t.text === "(" ? 1 : 0;
+      depth -= t.text === "}" || t.text === ")" ? 1 : 0;
+    });
+
+    // Headers of error messages and compiled expressions are comment runs
+    let first: Maybe<number>;
+    for (let line = 0; line <= doc.lineCount; line++) {
+      const comment =
+        line < doc.lineCount && /^\s*#/.test(doc.lineAt(line).text);
+      if (comment && first === undefined) {
+        first = line;
+      } else if (!comment && first !== undefined) {
+        if (line - 1 > first) {
+          ranges.push(
+            new vscode.FoldingRange(
+              first,
+              line - 1,
+              vscode.FoldingRangeKind.Comment
+            )
+          );
+        }
+        first = undefined;
+      }
+    }
+
+    // Sections often span the same lines as their block
+    return ranges.filter(
+      (r, i) =>
+        ranges.findIndex((o) => o.start === r.start && o.end === r.end) === i
+    );
+  }
+
+  /**
+   * Explains michelson macros, which are expanded by the parser
+   * and thus missing from the instruction reference.
+   * @param word An uppercase word of michelson code.
+   * @returns Possibly a markdown explanation of the macro.
+   */
+  export function macro(word: string): Maybe<string> {
+    const comparison = "(EQ|NEQ|LT|GT|LE|GE)";
+    let m: RegExpExecArray | null;
+
+    if ((m = new RegExp(`^CMP${comparison}$`).exec(word))) {
+      return `Macro for \`COMPARE ; ${m[1]}\`.`;
+    }
+    if ((m = new RegExp(`^IFCMP${comparison}$`).exec(word))) {
+      return `Macro for \`COMPARE ; ${m[1]} ; IF bt bf\`.`;
+    }
+    if ((m = new RegExp(`^IF${comparison}$`).exec(word))) {
+      return `Macro for \`${m[1]} ; IF bt bf\`.`;
+    }
+    if ((m = new RegExp(`^ASSERT_CMP${comparison}$`).exec(word))) {
+      return `Macro for \`COMPARE ; ${m[1]} ; IF {} { FAIL }\`.`;
+    }
+    if ((m = new RegExp(`^ASSERT_${comparison}$`).exec(word))) {
+      return `Macro for \`${m[1]} ; IF {} { FAIL }\`.`;
+    }
+    if ((m = /^ASSERT_(NONE|SOME|LEFT|RIGHT)$/.exec(word))) {
+      return `Macro failing unless the top of the stack is \`${m[1]}\`.`;
+    }
+    if (word === "ASSERT") {
+      return "Macro for `IF {} { FAIL }`.";
+    }
+    if (word === "FAIL") {
+      return "Macro for `UNIT ; FAILWITH`.";
+    }
+    if (/^C[AD]{2,}R$/.test(word)) {
+      return `Macro accessing nested pairs, \`${word
+        .slice(1, -1)
+        .split("")
+        .map((c) => `C${c}R`)
+        .join(" ; ")}\`.`;
+    }
+    if (/^DU{2,}P$/.test(word)) {
+      return `Macro for \`DUP ${word.length - 2}\`.`;
+    }
+    if (/^DI{2,}P$/.test(word)) {
+      return `Macro for \`DIP ${word.length - 2} code\`.`;
+    }
+    return undefined;
+  }
+
+  /**
+   * Finds the last token of a top level section, before its `;`
+   * or the closing brace of the block wrapping the contract.
+   * @param tokens Tokens of michelson code.
+   * @param start Index of the section keyword.
+   * @returns Index of the last token of the section.
+   */
+  function sectionEnd(tokens: MichelsonToken[], start: number): number {
+    let depth = 0;
+    for (let i = start + 1; i < tokens.length; i++) {
+      const t = tokens[i].text;
+      if (t === ";" && depth === 0) {
+        return i - 1;
+      }
+      if (depth === 0 && sections.includes(t)) {
+        return i - 1;
+      }
+      depth += t === "{" || t === "(" ? 1 : 0;
+      depth -= t === "}" || t === ")" ? 1 : 0;
+
+      // Closing brace of the wrapping block
+      if (depth < 0) {
+        return i - 1;
+      }
+    }
+    return tokens.length - 1;
+  }
+
+  /**
+   * Nests symbols into the symbols containing them.
+   * @param flat Symbols in order of appearance.
+   * @returns Outermost symbols.
+   */
+  function nest(flat: MichelsonSymbol[]): MichelsonSymbol[] {
+    const roots: MichelsonSymbol[] = [];
+    const open: MichelsonSymbol[] = [];
+    flat.forEach((s) => {
+      while (
+        open.length > 0 &&
+        !open[open.length - 1].range.contains(s.range)
+      ) {
+        open.pop();
+      }
+      (open.length > 0 ? open[open.length - 1].children : roots).push(s);
+      open.push(s);
+    });
+    return roots;
+  }
+}
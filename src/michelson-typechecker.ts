@@ -0,0 +1,1402 @@
+import { michelsonSyntax } from "./michelson-syntax";
+import {
+  Maybe,
+  MichelsonNode,
+  MichelsonStack,
+  MichelsonToken,
+  MichelsonType,
+  TypecheckResult,
+} from "./types";
+
+export namespace michelsonTypes {
+  /**
+   * Instructions popping two operands, by accepted operand types and result.
+   */
+  const binary = new Map<string, [string, string, string][]>([
+    [
+      "ADD",
+      [
+        ["nat", "nat", "nat"],
+        ["nat", "int", "int"],
+        ["int", "nat", "int"],
+        ["int", "int", "int"],
+        ["timestamp", "int", "timestamp"],
+        ["int", "timestamp", "timestamp"],
+        ["mutez", "mutez", "mutez"],
+        ["bls12_381_g1", "bls12_381_g1", "bls12_381_g1"],
+        ["bls12_381_g2", "bls12_381_g2", "bls12_381_g2"],
+        ["bls12_381_fr", "bls12_381_fr", "bls12_381_fr"],
+      ],
+    ],
+    [
+      "SUB",
+      [
+        ["nat", "nat", "int"],
+        ["nat", "int", "int"],
+        ["int", "nat", "int"],
+        ["int", "int", "int"],
+        ["timestamp", "int", "timestamp"],
+        ["timestamp", "timestamp", "int"],
+        ["mutez", "mutez", "mutez"],
+      ],
+    ],
+    ["SUB_MUTEZ", [["mutez", "mutez", "option mutez"]]],
+    [
+      "MUL",
+      [
+        ["nat", "nat", "nat"],
+        ["nat", "int", "int"],
+        ["int", "nat", "int"],
+        ["int", "int", "int"],
+        ["mutez", "nat", "mutez"],
+        ["nat", "mutez", "mutez"],
+        ["bls12_381_g1", "bls12_381_fr", "bls12_381_g1"],
+        ["bls12_381_g2", "bls12_381_fr", "bls12_381_g2"],
+        ["bls12_381_fr", "bls12_381_fr", "bls12_381_fr"],
+        ["nat", "bls12_381_fr", "bls12_381_fr"],
+        ["int", "bls12_381_fr", "bls12_381_fr"],
+        ["bls12_381_fr", "nat", "bls12_381_fr"],
+        ["bls12_381_fr", "int", "bls12_381_fr"],
+      ],
+    ],
+    [
+      "EDIV",
+      [
+        ["nat", "nat", "option (pair nat nat)"],
+        ["nat", "int", "option (pair int nat)"],
+        ["int", "nat", "option (pair int nat)"],
+        ["int", "int", "option (pair int nat)"],
+        ["mutez", "nat", "option (pair mutez mutez)"],
+        ["mutez", "mutez", "option (pair nat mutez)"],
+      ],
+    ],
+    [
+      "LSL",
+      [
+        ["nat", "nat", "nat"],
+        ["bytes", "nat", "bytes"],
+      ],
+    ],
+    [
+      "LSR",
+      [
+        ["nat", "nat", "nat"],
+        ["bytes", "nat", "bytes"],
+      ],
+    ],
+    [
+      "OR",
+      [
+        ["bool", "bool", "bool"],
+        ["nat", "nat", "nat"],
+        ["bytes", "bytes", "bytes"],
+      ],
+    ],
+    [
+      "AND",
+      [
+        ["bool", "bool", "bool"],
+        ["nat", "nat", "nat"],
+        ["int", "nat", "nat"],
+        ["bytes", "bytes", "bytes"],
+      ],
+    ],
+    [
+      "XOR",
+      [
+        ["bool", "bool", "bool"],
+        ["nat", "nat", "nat"],
+        ["bytes", "bytes", "bytes"],
+      ],
+    ],
+    ["TICKET", [["_", "nat", "option (ticket _)"]]],
+  ]);
+
+  /**
+   * Instructions replacing the top of the stack, by accepted operand type and result.
+   */
+  const unary = new Map<string, [string, string][]>([
+    ["ABS", [["int", "nat"]]],
+    ["ISNAT", [["int", "option nat"]]],
+    [
+      "INT",
+      [
+        ["nat", "int"],
+        ["bytes", "int"],
+        ["bls12_381_fr", "int"],
+      ],
+    ],
+    ["NAT", [["bytes", "nat"]]],
+    [
+      "BYTES",
+      [
+        ["int", "bytes"],
+        ["nat", "bytes"],
+      ],
+    ],
+    [
+      "NEG",
+      [
+        ["int", "int"],
+        ["nat", "int"],
+        ["bls12_381_g1", "bls12_381_g1"],
+        ["bls12_381_g2", "bls12_381_g2"],
+        ["bls12_381_fr", "bls12_381_fr"],
+      ],
+    ],
+    [
+      "NOT",
+      [
+        ["bool", "bool"],
+        ["nat", "int"],
+        ["int", "int"],
+        ["bytes", "bytes"],
+      ],
+    ],
+    ["EQ", [["int", "bool"]]],
+    ["NEQ", [["int", "bool"]]],
+    ["LT", [["int", "bool"]]],
+    ["GT", [["int", "bool"]]],
+    ["LE", [["int", "bool"]]],
+    ["GE", [["int", "bool"]]],
+    ["HASH_KEY", [["key", "key_hash"]]],
+    ["BLAKE2B", [["bytes", "bytes"]]],
+    ["KECCAK", [["bytes", "bytes"]]],
+    ["SHA256", [["bytes", "bytes"]]],
+    ["SHA3", [["bytes", "bytes"]]],
+    ["SHA512", [["bytes", "bytes"]]],
+    ["IMPLICIT_ACCOUNT", [["key_hash", "contract unit"]]],
+    ["VOTING_POWER", [["key_hash", "nat"]]],
+    ["SET_DELEGATE", [["option key_hash", "operation"]]],
+    ["JOIN_TICKETS", [["pair (ticket _) (ticket _)", "option (ticket _)"]]],
+    ["PAIRING_CHECK", [["list (pair bls12_381_g1 bls12_381_g2)", "bool"]]],
+  ]);
+
+  /**
+   * Instructions pushing a value of a fixed type.
+   */
+  const nullary = new Map<string, string>([
+    ["AMOUNT", "mutez"],
+    ["BALANCE", "mutez"],
+    ["NOW", "timestamp"],
+    ["LEVEL", "nat"],
+    ["CHAIN_ID", "chain_id"],
+    ["SENDER", "address"],
+    ["SOURCE", "address"],
+    ["SELF_ADDRESS", "address"],
+    ["TOTAL_VOTING_POWER", "nat"],
+    ["MIN_BLOCK_TIME", "nat"],
+    ["UNIT", "unit"],
+  ]);
+
+  /**
+   * Types of the tables, parsed once.
+   */
+  const patterns = new Map<string, MichelsonType>();
+
+  const comparison = "(EQ|NEQ|LT|GT|LE|GE)";
+
+  /**
+   * Typechecks the contract of a michelson view, from its declared
+   * parameter and storage, along with its views and lambdas.
+   * Typing of the code and of each view stops at its first error.
+   * @param text Michelson code, possibly followed by compiled expressions.
+   * @returns Stack types after each instruction and problems found,
+   * a problem on the first token if the text holds no contract.
+   */
+  export function check(text: string): TypecheckResult {
+    const result: TypecheckResult = { hints: [], problems: [] };
+    const tokens = michelsonSyntax.tokenize(text);
+    const program = new Parser(tokens, result).program();
+
+    const section = (name: string) =>
+      program.find((n) => n.kind === "prim" && n.name === name);
+    const code = section("code");
+    if (!code || code.kind !== "prim") {
+      // ? Parse problems of text that is no contract would only add noise
+      const first = tokens[0] || { text: "", offset: 0 };
+      return {
+        hints: [],
+        problems: [
+          {
+            start: first.offset,
+            end: first.offset + first.text.length,
+            message:
+              "No contract found, expected parameter, storage and code sections.",
+            unsupported: false,
+          },
+        ],
+      };
+    }
+
+    const checker = new Checker(result);
+    const parameter = typeArg(section("parameter"), result);
+    const storage = typeArg(section("storage"), result);
+    if (!parameter || !storage) {
+      checker.problem(code, "Missing parameter or storage section.");
+      return result;
+    }
+
+    checker.self = parameter;
+    checker.body(
+      code,
+      code.args[0],
+      [t("pair", parameter, storage)],
+      [t("pair", t("list", t("operation")), storage)]
+    );
+
+    program.forEach((view) => {
+      if (view.kind !== "prim" || view.name !== "view") {
+        return;
+      }
+      const [, input, output, body] = view.args;
+      const arg = input && checker.type(input);
+      const ret = output && checker.type(output);
+      if (arg && ret) {
+        checker.body(view, body, [t("pair", arg, storage)], [ret]);
+      }
+    });
+    return result;
+  }
+
+  /**
+   * Prints a stack, top first.
+   * @param stack Stack types or `"failed"`.
+   * @returns Bracketed types separated by colons.
+   */
+  export function showStack(stack: MichelsonStack): string {
+    return stack === "failed"
+      ? "[FAILED]"
+      : `[ ${stack.map(show).join(" : ")} ]`.replace("[  ]", "[]");
+  }
+
+  /**
+   * Prints a type, nested types in parentheses.
+   * @param type A michelson type.
+   * @returns Michelson notation of the type.
+   */
+  export function show(type: MichelsonType): string {
+    return [
+      type.prim,
+      ...type.args.map((a) => (a.args.length > 0 ? `(${show(a)})` : show(a))),
+    ].join(" ");
+  }
+
+  /**
+   * Builds a type, combs of pairs normalized to nested pairs.
+   */
+  function t(prim: string, ...args: MichelsonType[]): MichelsonType {
+    if (prim === "pair" && args.length > 2) {
+      return { prim, args: [args[0], t("pair", ...args.slice(1))] };
+    }
+    return { prim, args };
+  }
+
+  /**
+   * Structural equality of types.
+   */
+  function equal(a: MichelsonType, b: MichelsonType): boolean {
+    return (
+      a.prim === b.prim &&
+      a.args.length === b.args.length &&
+      a.args.every((x, i) => equal(x, b.args[i]))
+    );
+  }
+
+  /**
+   * Structural equality of stacks.
+   */
+  function equalStacks(a: MichelsonStack, b: MichelsonStack): boolean {
+    if (a === "failed" || b === "failed") {
+      return a === b;
+    }
+    return a.length === b.length && a.every((x, i) => equal(x, b[i]));
+  }
+
+  /**
+   * Reads the single type argument of a section.
+   */
+  function typeArg(
+    node: Maybe<MichelsonNode>,
+    result: TypecheckResult
+  ): Maybe<MichelsonType> {
+    if (node?.kind !== "prim" || node.args.length !== 1) {
+      return undefined;
+    }
+    return new Checker(result).type(node.args[0]);
+  }
+
+  /**
+   * Reads a type of the operand tables, `_` matching any type.
+   * Types of the tables are fixed, thus parsed without reporting.
+   */
+  function pattern(text: string): MichelsonType {
+    let type = patterns.get(text);
+    if (!type) {
+      const result: TypecheckResult = { hints: [], problems: [] };
+      const node = new Parser(
+        michelsonSyntax.tokenize(`(${text})`),
+        result
+      ).program()[0];
+      type = new Checker(result).type(node)!;
+      patterns.set(text, type);
+    }
+    return type;
+  }
+
+  /**
+   * Matches a type against a pattern of the operand tables.
+   * @param pat Pattern possibly holding `_`.
+   * @param type Type to be matched.
+   * @param bound Type bound to `_` so far.
+   * @returns The type bound to `_`, `null` if the type does not match.
+   */
+  function match(
+    pat: MichelsonType,
+    type: MichelsonType,
+    bound: Maybe<MichelsonType>
+  ): Maybe<MichelsonType> | null {
+    if (pat.prim === "_") {
+      return !bound || equal(bound, type) ? type : null;
+    }
+    if (pat.prim !== type.prim || pat.args.length !== type.args.length) {
+      return null;
+    }
+    for (let i = 0; i < pat.args.length; i++) {
+      const next = match(pat.args[i], type.args[i], bound);
+      if (next === null) {
+        return null;
+      }
+      bound = next;
+    }
+    return bound;
+  }
+
+  /**
+   * Replaces `_` in a pattern of the operand tables.
+   */
+  function instantiate(
+    pat: MichelsonType,
+    bound: Maybe<MichelsonType>
+  ): MichelsonType {
+    return pat.prim === "_" && bound
+      ? bound
+      : t(pat.prim, ...pat.args.map((a) => instantiate(a, bound)));
+  }
+
+  /**
+   * Reads michelson tokens into nodes, reporting unbalanced delimiters.
+   */
+  class Parser {
+    private _index = 0;
+
+    constructor(
+      private readonly _tokens: MichelsonToken[],
+      private readonly _result: TypecheckResult
+    ) {}
+
+    /**
+     * Top level nodes, the braces wrapping a contract left out.
+     * Tokens after the contract, e.g. compiled expressions, are ignored.
+     */
+    program(): MichelsonNode[] {
+      if (this.peek()?.text === "{") {
+        const seq = this.atom();
+        return seq?.kind === "seq" ? seq.items : [];
+      }
+      return this.items(undefined);
+    }
+
+    private peek(): Maybe<MichelsonToken> {
+      return this._tokens[this._index];
+    }
+
+    private problem(token: MichelsonToken, message: string) {
+      this._result.problems.push({
+        start: token.offset,
+        end: token.offset + token.text.length,
+        message: message,
+        unsupported: false,
+      });
+    }
+
+    /**
+     * Instructions separated by `;`, up to a closing token or the end.
+     */
+    private items(close: Maybe<string>): MichelsonNode[] {
+      const items: MichelsonNode[] = [];
+      let token: Maybe<MichelsonToken>;
+      while ((token = this.peek()) && token.text !== close) {
+        if (token.text === ";") {
+          this._index++;
+          continue;
+        }
+        if (token.text === "}" || token.text === ")") {
+          if (close === undefined) {
+            // ? Left over of the wrapping block, compiled expressions follow
+            break;
+          }
+          this.problem(token, `Unexpected \`${token.text}\`.`);
+          this._index++;
+          continue;
+        }
+        const node = this.application(close);
+        if (node) {
+          items.push(node);
+        }
+      }
+      return items;
+    }
+
+    /**
+     * A primitive applied to the atoms following it, up to a separator.
+     */
+    private application(close: Maybe<string>): Maybe<MichelsonNode> {
+      const head = this.atom();
+      if (head?.kind !== "prim") {
+        return head;
+      }
+      let token: Maybe<MichelsonToken>;
+      while (
+        (token = this.peek()) &&
+        token.text !== ";" &&
+        token.text !== close &&
+        token.text !== "}" &&
+        token.text !== ")"
+      ) {
+        const arg = this.atom();
+        if (arg) {
+          head.args.push(arg);
+          head.end = arg.end;
+        }
+      }
+      return head;
+    }
+
+    /**
+     * A word, literal, sequence or parenthesized application.
+     */
+    private atom(): Maybe<MichelsonNode> {
+      const token = this.peek()!;
+      const start = token.offset;
+      this._index++;
+
+      if (token.text === "{") {
+        const items = this.items("}");
+        const close = this.peek();
+        if (!close) {
+          this.problem(token, "Unclosed `{`.");
+        }
+        this._index++;
+        return {
+          kind: "seq",
+          items: items,
+          start: start,
+          end: close ? close.offset + 1 : token.offset + 1,
+        };
+      }
+      if (token.text === "(") {
+        const inner = this.application(")");
+        const close = this.peek();
+        if (close?.text !== ")") {
+          this.problem(token, "Unclosed `(`.");
+        } else {
+          this._index++;
+        }
+        if (inner) {
+          inner.start = start;
+          inner.end = close ? close.offset + 1 : inner.end;
+        }
+        return inner;
+      }
+
+      const end = token.offset + token.text.length;
+      if (/^[A-Za-z_]/.test(token.text)) {
+        return { kind: "prim", name: token.text, args: [], start, end };
+      }
+      if (/^-?\d+$/.test(token.text)) {
+        return { kind: "int", value: token.text, start, end };
+      }
+      if (token.text.startsWith('"')) {
+        return { kind: "string", value: token.text, start, end };
+      }
+      if (token.text.startsWith("0x")) {
+        return { kind: "bytes", value: token.text, start, end };
+      }
+      this.problem(token, `Unexpected \`${token.text}\`.`);
+      return undefined;
+    }
+  }
+
+  /**
+   * Computes stack types instruction by instruction, recording hints and problems.
+   * Every method returns `undefined` once a problem was reported.
+   */
+  class Checker {
+    /**
+     * Parameter of the contract, type of `SELF`.
+     */
+    self: Maybe<MichelsonType>;
+
+    constructor(private readonly _result: TypecheckResult) {}
+
+    problem(node: MichelsonNode, message: string, unsupported = false) {
+      this._result.problems.push({
+        start: node.start,
+        end: node.end,
+        message: message,
+        unsupported: unsupported,
+      });
+      return undefined;
+    }
+
+    /**
+     * Reads a type node.
+     */
+    type(node: MichelsonNode): Maybe<MichelsonType> {
+      if (node.kind !== "prim") {
+        return this.problem(node, "Expected a type.");
+      }
+      const args: MichelsonType[] = [];
+      for (const arg of node.args) {
+        const type = this.type(arg);
+        if (!type) {
+          return undefined;
+        }
+        args.push(type);
+      }
+      return t(node.name, ...args);
+    }
+
+    /**
+     * Types the body of a section or lambda against its expected output.
+     * @param owner Node reported when the output differs.
+     * @param body Code of the body, a sequence.
+     * @param input Stack the body starts from.
+     * @param output Stack the body must end with.
+     */
+    body(
+      owner: MichelsonNode,
+      body: Maybe<MichelsonNode>,
+      input: MichelsonType[],
+      output: MichelsonType[]
+    ) {
+      if (!body) {
+        return this.problem(owner, "Missing code block.");
+      }
+      const out = this.block(body, input);
+      if (out && out !== "failed" && !equalStacks(out, output)) {
+        this.problem(
+          owner,
+          `Expected to end with ${showStack(output)}, found ${showStack(out)}.`
+        );
+      }
+    }
+
+    /**
+     * Types a sequence of instructions.
+     */
+    block(node: MichelsonNode, stack: MichelsonStack): Maybe<MichelsonStack> {
+      if (node.kind !== "seq") {
+        return this.problem(node, "Expected a code block.");
+      }
+      let current: Maybe<MichelsonStack> = stack;
+      for (const item of node.items) {
+        if (current === "failed") {
+          return this.problem(item, "Unreachable code after a failure.");
+        }
+        current = this.instruction(item, current);
+        if (!current) {
+          return undefined;
+        }
+        this._result.hints.push({ offset: item.end, stack: current });
+      }
+      return current;
+    }
+
+    /**
+     * Types two branches starting from their own stacks, which must agree.
+     */
+    branches(
+      node: MichelsonNode,
+      first: MichelsonStack,
+      second: MichelsonStack
+    ): Maybe<MichelsonStack> {
+      const [bt, bf] = node.kind === "prim" ? node.args : [];
+      if (!bt || !bf) {
+        return this.problem(node, "Expected two code blocks.");
+      }
+      const a = this.block(bt, first);
+      const b = this.block(bf, second);
+      if (!a || !b) {
+        return undefined;
+      }
+      if (a === "failed") {
+        return b;
+      }
+      if (b !== "failed" && !equalStacks(a, b)) {
+        return this.problem(
+          node,
+          `Branches end with different stacks, ${showStack(a)} and ${showStack(
+            b
+          )}.`
+        );
+      }
+      return a;
+    }
+
+    /**
+     * Types a lambda body, recording hints inside it.
+     */
+    lambda(
+      node: MichelsonNode,
+      body: Maybe<MichelsonNode>,
+      input: MichelsonType[],
+      output: MichelsonType
+    ): boolean {
+      const before = this._result.problems.length;
+      this.body(node, body, input, [output]);
+      return this._result.problems.length === before;
+    }
+
+    /**
+     * Types a single instruction or macro.
+     */
+    instruction(
+      node: MichelsonNode,
+      stack: MichelsonType[]
+    ): Maybe<MichelsonStack> {
+      if (node.kind === "seq") {
+        return this.block(node, stack);
+      }
+      if (node.kind !== "prim") {
+        return this.problem(node, "Expected an instruction.");
+      }
+
+      const name = node.name;
+      const args = node.args;
+      const rest = (n: number) => stack.slice(n);
+      const short = (n: number) => {
+        if (stack.length >= n) {
+          return false;
+        }
+        this.problem(
+          node,
+          `${name} needs ${n} stack elements, found ${showStack(stack)}.`
+        );
+        return true;
+      };
+      const count = (i: number, fallback: number): Maybe<number> => {
+        const arg = args[i];
+        if (arg === undefined) {
+          return fallback;
+        }
+        if (arg.kind !== "int" || Number(arg.value) < 0) {
+          this.problem(arg, "Expected a natural number.");
+          return undefined;
+        }
+        return Number(arg.value);
+      };
+      const typeAt = (i: number) =>
+        args[i] ? this.type(args[i]) : this.problem(node, "Missing type.");
+      const wrong = (found: MichelsonType[]) =>
+        this.problem(
+          node,
+          `${name} does not accept ${showStack(found)} on top of the stack.`
+        );
+
+      const fixed = nullary.get(name);
+      if (fixed) {
+        return [pattern(fixed), ...stack];
+      }
+      const operand = unary.get(name);
+      if (operand) {
+        if (short(1)) {
+          return undefined;
+        }
+        for (const [input, output] of operand) {
+          const bound = match(pattern(input), stack[0], undefined);
+          if (bound !== null) {
+            return [instantiate(pattern(output), bound), ...rest(1)];
+          }
+        }
+        return wrong(stack.slice(0, 1));
+      }
+      const operands = binary.get(name);
+      if (operands) {
+        if (short(2)) {
+          return undefined;
+        }
+        for (const [left, right, output] of operands) {
+          const first = match(pattern(left), stack[0], undefined);
+          const bound =
+            first === null ? null : match(pattern(right), stack[1], first);
+          if (bound !== null) {
+            return [instantiate(pattern(output), bound), ...rest(2)];
+          }
+        }
+        return wrong(stack.slice(0, 2));
+      }
+
+      let m: RegExpExecArray | null;
+      if ((m = new RegExp(`^CMP${comparison}$`).exec(name))) {
+        return this.sequence(node, stack, ["COMPARE", m[1]]);
+      }
+      if ((m = new RegExp(`^IF${comparison}$`).exec(name))) {
+        const out = this.sequence(node, stack, [m[1]]);
+        return out && this.ifBool(node, out);
+      }
+      if ((m = new RegExp(`^IFCMP${comparison}$`).exec(name))) {
+        const out = this.sequence(node, stack, ["COMPARE", m[1]]);
+        return out && this.ifBool(node, out);
+      }
+      if ((m = new RegExp(`^ASSERT_CMP${comparison}$`).exec(name))) {
+        return this.sequence(node, stack, ["COMPARE", m[1], "ASSERT"]);
+      }
+      if ((m = new RegExp(`^ASSERT_${comparison}$`).exec(name))) {
+        return this.sequence(node, stack, [m[1], "ASSERT"]);
+      }
+
+      switch (name) {
+        case "DROP": {
+          const n = count(0, 1);
+          return n === undefined || short(n) ? undefined : rest(n);
+        }
+        case "DUP": {
+          const n = count(0, 1);
+          if (n === 0) {
+            return this.problem(node, "DUP 0 is not allowed.");
+          }
+          return n === undefined || short(n)
+            ? undefined
+            : [stack[n - 1], ...stack];
+        }
+        case "SWAP":
+          return short(2) ? undefined : [stack[1], stack[0], ...rest(2)];
+        case "DIG": {
+          const n = count(0, -1);
+          if (n === -1) {
+            return this.problem(node, "DIG needs a depth.");
+          }
+          return n === undefined || short(n + 1)
+            ? undefined
+            : [stack[n], ...stack.slice(0, n), ...rest(n + 1)];
+        }
+        case "DUG": {
+          const n = count(0, -1);
+          if (n === -1) {
+            return this.problem(node, "DUG needs a depth.");
+          }
+          return n === undefined || short(n + 1)
+            ? undefined
+            : [...stack.slice(1, n + 1), stack[0], ...rest(n + 1)];
+        }
+        case "PUSH": {
+          const type = typeAt(0);
+          if (!type) {
+            return undefined;
+          }
+          if (type.prim === "lambda" && args[1]?.kind === "seq") {
+            if (!this.lambda(node, args[1], [type.args[0]], type.args[1])) {
+              return undefined;
+            }
+          }
+          return [type, ...stack];
+        }
+        case "DIP": {
+          const n = args.length > 1 ? count(0, 1) : 1;
+          const code = args[args.length - 1];
+          if (n === undefined || short(n)) {
+            return undefined;
+          }
+          if (!code) {
+            return this.problem(node, "Missing code block.");
+          }
+          const out = this.block(code, rest(n));
+          if (out === "failed") {
+            return this.problem(node, "DIP code cannot fail.");
+          }
+          return out && [...stack.slice(0, n), ...out];
+        }
+        case "SOME":
+          return short(1) ? undefined : [t("option", stack[0]), ...rest(1)];
+        case "NONE": {
+          const type = typeAt(0);
+          return type && [t("option", type), ...stack];
+        }
+        case "LEFT":
+        case "RIGHT": {
+          const type = typeAt(0);
+          if (!type || short(1)) {
+            return undefined;
+          }
+          return [
+            name === "LEFT" ? t("or", stack[0], type) : t("or", type, stack[0]),
+            ...rest(1),
+          ];
+        }
+        case "NIL": {
+          const type = typeAt(0);
+          return type && [t("list", type), ...stack];
+        }
+        case "EMPTY_SET": {
+          const type = typeAt(0);
+          return type && [t("set", type), ...stack];
+        }
+        case "EMPTY_MAP":
+        case "EMPTY_BIG_MAP": {
+          const key = typeAt(0);
+          const value = key && typeAt(1);
+          return (
+            value && [
+              t(name === "EMPTY_MAP" ? "map" : "big_map", key, value),
+              ...stack,
+            ]
+          );
+        }
+        case "CONS":
+          if (short(2)) {
+            return undefined;
+          }
+          return stack[1].prim === "list" && equal(stack[1].args[0], stack[0])
+            ? rest(1)
+            : wrong(stack.slice(0, 2));
+        case "PAIR": {
+          const n = count(0, 2);
+          if (n === undefined || n < 2) {
+            return n === undefined
+              ? undefined
+              : this.problem(node, "PAIR needs at least 2 elements.");
+          }
+          return short(n)
+            ? undefined
+            : [t("pair", ...stack.slice(0, n)), ...rest(n)];
+        }
+        case "UNPAIR": {
+          const n = count(0, 2);
+          if (n === undefined || n < 2) {
+            return n === undefined
+              ? undefined
+              : this.problem(node, "UNPAIR needs at least 2 elements.");
+          }
+          if (short(1)) {
+            return undefined;
+          }
+          const parts: MichelsonType[] = [];
+          let current = stack[0];
+          for (let i = 1; i < n; i++) {
+            if (current.prim !== "pair") {
+              return wrong(stack.slice(0, 1));
+            }
+            parts.push(current.args[0]);
+            current = current.args[1];
+          }
+          return [...parts, current, ...rest(1)];
+        }
+        case "CAR":
+        case "CDR":
+          if (short(1)) {
+            return undefined;
+          }
+          return stack[0].prim === "pair"
+            ? [stack[0].args[name === "CAR" ? 0 : 1], ...rest(1)]
+            : wrong(stack.slice(0, 1));
+        case "GET":
+          if (args.length > 0) {
+            const n = count(0, 0);
+            if (n === undefined || short(1)) {
+              return undefined;
+            }
+            const field = this.comb(stack[0], n);
+            return field ? [field, ...rest(1)] : wrong(stack.slice(0, 1));
+          }
+          if (short(2)) {
+            return undefined;
+          }
+          return this.isMap(stack[1]) && equal(stack[1].args[0], stack[0])
+            ? [t("option", stack[1].args[1]), ...rest(2)]
+            : wrong(stack.slice(0, 2));
+        case "UPDATE":
+          if (args.length > 0) {
+            const n = count(0, 0);
+            if (n === undefined || short(2)) {
+              return undefined;
+            }
+            const updated = this.comb(stack[1], n, stack[0]);
+            return updated ? [updated, ...rest(2)] : wrong(stack.slice(0, 2));
+          }
+          if (short(3)) {
+            return undefined;
+          }
+          if (
+            stack[2].prim === "set" &&
+            equal(stack[2].args[0], stack[0]) &&
+            stack[1].prim === "bool"
+          ) {
+            return rest(2);
+          }
+          return this.isMap(stack[2]) &&
+            equal(stack[2].args[0], stack[0]) &&
+            equal(stack[1], t("option", stack[2].args[1]))
+            ? rest(2)
+            : wrong(stack.slice(0, 3));
+        case "GET_AND_UPDATE":
+          if (short(3)) {
+            return undefined;
+          }
+          return this.isMap(stack[2]) &&
+            equal(stack[2].args[0], stack[0]) &&
+            equal(stack[1], t("option", stack[2].args[1]))
+            ? [stack[1], ...rest(2)]
+            : wrong(stack.slice(0, 3));
+        case "MEM":
+          if (short(2)) {
+            return undefined;
+          }
+          return (stack[1].prim === "set" || this.isMap(stack[1])) &&
+            equal(stack[1].args[0], stack[0])
+            ? [t("bool"), ...rest(2)]
+            : wrong(stack.slice(0, 2));
+        case "SIZE":
+          if (short(1)) {
+            return undefined;
+          }
+          return ["list", "set", "map", "string", "bytes"].includes(
+            stack[0].prim
+          )
+            ? [t("nat"), ...rest(1)]
+            : wrong(stack.slice(0, 1));
+        case "CONCAT":
+          if (short(1)) {
+            return undefined;
+          }
+          if (
+            stack[0].prim === "list" &&
+            ["string", "bytes"].includes(stack[0].args[0].prim)
+          ) {
+            return [stack[0].args[0], ...rest(1)];
+          }
+          if (short(2)) {
+            return undefined;
+          }
+          return ["string", "bytes"].includes(stack[0].prim) &&
+            equal(stack[0], stack[1])
+            ? rest(1)
+            : wrong(stack.slice(0, 2));
+        case "SLICE":
+          if (short(3)) {
+            return undefined;
+          }
+          return stack[0].prim === "nat" &&
+            stack[1].prim === "nat" &&
+            ["string", "bytes"].includes(stack[2].prim)
+            ? [t("option", stack[2]), ...rest(3)]
+            : wrong(stack.slice(0, 3));
+        case "COMPARE":
+          if (short(2)) {
+            return undefined;
+          }
+          return equal(stack[0], stack[1])
+            ? [t("int"), ...rest(2)]
+            : wrong(stack.slice(0, 2));
+        case "PACK":
+          return short(1) ? undefined : [t("bytes"), ...rest(1)];
+        case "UNPACK": {
+          const type = typeAt(0);
+          if (!type || short(1)) {
+            return undefined;
+          }
+          return stack[0].prim === "bytes"
+            ? [t("option", type), ...rest(1)]
+            : wrong(stack.slice(0, 1));
+        }
+        case "CAST": {
+          const type = typeAt(0);
+          if (!type || short(1)) {
+            return undefined;
+          }
+          return equal(type, stack[0]) ? stack : wrong(stack.slice(0, 1));
+        }
+        case "RENAME":
+          return short(1) ? undefined : stack;
+        case "ADDRESS":
+          if (short(1)) {
+            return undefined;
+          }
+          return stack[0].prim === "contract"
+            ? [t("address"), ...rest(1)]
+            : wrong(stack.slice(0, 1));
+        case "CONTRACT": {
+          const type = typeAt(0);
+          if (!type || short(1)) {
+            return undefined;
+          }
+          return stack[0].prim === "address"
+            ? [t("option", t("contract", type)), ...rest(1)]
+            : wrong(stack.slice(0, 1));
+        }
+        case "SELF":
+          return this.self
+            ? [t("contract", this.self), ...stack]
+            : this.problem(node, "SELF is only allowed in contract code.");
+        case "TRANSFER_TOKENS":
+          if (short(3)) {
+            return undefined;
+          }
+          return stack[1].prim === "mutez" &&
+            stack[2].prim === "contract" &&
+            equal(stack[2].args[0], stack[0])
+            ? [t("operation"), ...rest(3)]
+            : wrong(stack.slice(0, 3));
+        case "CREATE_CONTRACT":
+          if (short(3)) {
+            return undefined;
+          }
+          return equal(stack[0], t("option", t("key_hash"))) &&
+            stack[1].prim === "mutez"
+            ? [t("operation"), t("address"), ...rest(3)]
+            : wrong(stack.slice(0, 3));
+        case "EMIT":
+          return short(1) ? undefined : [t("operation"), ...rest(1)];
+        case "VIEW": {
+          const type = typeAt(1);
+          if (!type || short(2)) {
+            return undefined;
+          }
+          return stack[1].prim === "address"
+            ? [t("option", type), ...rest(2)]
+            : wrong(stack.slice(0, 2));
+        }
+        case "CHECK_SIGNATURE":
+          if (short(3)) {
+            return undefined;
+          }
+          return stack[0].prim === "key" &&
+            stack[1].prim === "signature" &&
+            stack[2].prim === "bytes"
+            ? [t("bool"), ...rest(3)]
+            : wrong(stack.slice(0, 3));
+        case "READ_TICKET":
+          if (short(1)) {
+            return undefined;
+          }
+          return stack[0].prim === "ticket"
+            ? [t("pair", t("address"), stack[0].args[0], t("nat")), ...stack]
+            : wrong(stack.slice(0, 1));
+        case "SPLIT_TICKET":
+          if (short(2)) {
+            return undefined;
+          }
+          return stack[0].prim === "ticket" &&
+            equal(stack[1], t("pair", t("nat"), t("nat")))
+            ? [t("option", t("pair", stack[0], stack[0])), ...rest(2)]
+            : wrong(stack.slice(0, 2));
+        case "OPEN_CHEST":
+          if (short(3)) {
+            return undefined;
+          }
+          return stack[0].prim === "chest_key" &&
+            stack[1].prim === "chest" &&
+            stack[2].prim === "nat"
+            ? [t("option", t("bytes")), ...rest(3)]
+            : wrong(stack.slice(0, 3));
+        case "EXEC":
+          if (short(2)) {
+            return undefined;
+          }
+          return stack[1].prim === "lambda" && equal(stack[1].args[0], stack[0])
+            ? [stack[1].args[1], ...rest(2)]
+            : wrong(stack.slice(0, 2));
+        case "APPLY":
+          if (short(2)) {
+            return undefined;
+          }
+          return stack[1].prim === "lambda" &&
+            stack[1].args[0].prim === "pair" &&
+            equal(stack[1].args[0].args[0], stack[0])
+            ? [
+                t("lambda", stack[1].args[0].args[1], stack[1].args[1]),
+                ...rest(2),
+              ]
+            : wrong(stack.slice(0, 2));
+        case "LAMBDA":
+        case "LAMBDA_REC": {
+          const input = typeAt(0);
+          const output = input && typeAt(1);
+          if (!input || !output) {
+            return undefined;
+          }
+          const self = t("lambda", input, output);
+          const start = name === "LAMBDA" ? [input] : [input, self];
+          return this.lambda(node, args[2], start, output)
+            ? [self, ...stack]
+            : undefined;
+        }
+        case "FAILWITH":
+        case "NEVER":
+          if (short(1)) {
+            return undefined;
+          }
+          return name === "NEVER" && stack[0].prim !== "never"
+            ? wrong(stack.slice(0, 1))
+            : "failed";
+        case "FAIL":
+          return "failed";
+        case "ASSERT":
+          if (short(1)) {
+            return undefined;
+          }
+          return stack[0].prim === "bool" ? rest(1) : wrong(stack.slice(0, 1));
+        case "ASSERT_NONE":
+        case "ASSERT_SOME":
+          if (short(1)) {
+            return undefined;
+          }
+          if (stack[0].prim !== "option") {
+            return wrong(stack.slice(0, 1));
+          }
+          return name === "ASSERT_NONE"
+            ? rest(1)
+            : [stack[0].args[0], ...rest(1)];
+        case "ASSERT_LEFT":
+        case "ASSERT_RIGHT":
+          if (short(1)) {
+            return undefined;
+          }
+          return stack[0].prim === "or"
+            ? [stack[0].args[name === "ASSERT_LEFT" ? 0 : 1], ...rest(1)]
+            : wrong(stack.slice(0, 1));
+        case "IF":
+          return short(1) ? undefined : this.ifBool(node, stack);
+        case "IF_NONE":
+        case "IF_SOME": {
+          if (short(1)) {
+            return undefined;
+          }
+          if (stack[0].prim !== "option") {
+            return wrong(stack.slice(0, 1));
+          }
+          const none = rest(1);
+          const some = [stack[0].args[0], ...rest(1)];
+          return name === "IF_NONE"
+            ? this.branches(node, none, some)
+            : this.branches(node, some, none);
+        }
+        case "IF_LEFT":
+        case "IF_RIGHT": {
+          if (short(1)) {
+            return undefined;
+          }
+          if (stack[0].prim !== "or") {
+            return wrong(stack.slice(0, 1));
+          }
+          const left = [stack[0].args[0], ...rest(1)];
+          const right = [stack[0].args[1], ...rest(1)];
+          return name === "IF_LEFT"
+            ? this.branches(node, left, right)
+            : this.branches(node, right, left);
+        }
+        case "IF_CONS": {
+          if (short(1)) {
+            return undefined;
+          }
+          if (stack[0].prim !== "list") {
+            return wrong(stack.slice(0, 1));
+          }
+          return this.branches(
+            node,
+            [stack[0].args[0], stack[0], ...rest(1)],
+            rest(1)
+          );
+        }
+        case "LOOP":
+        case "LOOP_LEFT": {
+          if (short(1)) {
+            return undefined;
+          }
+          const top = stack[0];
+          if (
+            (name === "LOOP" && top.prim !== "bool") ||
+            (name === "LOOP_LEFT" && top.prim !== "or")
+          ) {
+            return wrong(stack.slice(0, 1));
+          }
+          const start = name === "LOOP" ? rest(1) : [top.args[0], ...rest(1)];
+          return this.loop(
+            node,
+            start,
+            [top, ...rest(1)],
+            name === "LOOP" ? rest(1) : [top.args[1], ...rest(1)]
+          );
+        }
+        case "ITER": {
+          if (short(1)) {
+            return undefined;
+          }
+          const element = this.element(stack[0]);
+          if (!element) {
+            return wrong(stack.slice(0, 1));
+          }
+          return this.loop(node, [element, ...rest(1)], rest(1), rest(1));
+        }
+        case "MAP": {
+          if (short(1)) {
+            return undefined;
+          }
+          const element = this.element(stack[0]);
+          if (!element || stack[0].prim === "set") {
+            return wrong(stack.slice(0, 1));
+          }
+          const code = args[0];
+          if (!code) {
+            return this.problem(node, "Missing code block.");
+          }
+          const out = this.block(code, [element, ...rest(1)]);
+          if (!out) {
+            return undefined;
+          }
+          if (out === "failed" || out.length === 0) {
+            return this.problem(node, "MAP code must return a value.");
+          }
+          if (!equalStacks(out.slice(1), rest(1))) {
+            return this.problem(
+              node,
+              `MAP code must keep ${showStack(rest(1))} below its result.`
+            );
+          }
+          const mapped =
+            stack[0].prim === "map"
+              ? t("map", stack[0].args[0], out[0])
+              : t(stack[0].prim, out[0]);
+          return [mapped, ...rest(1)];
+        }
+      }
+
+      if (/^(C[AD]{2,}R|DU{2,}P|DI{2,}P|SET_C[AD]+R|MAP_C[AD]+R)$/.test(name)) {
+        return this.problem(node, `Macro ${name} is not supported.`, true);
+      }
+      return this.problem(node, `Unsupported instruction ${name}.`, true);
+    }
+
+    /**
+     * Types the expansion of a macro into instructions without arguments,
+     * none of which fails.
+     */
+    private sequence(
+      node: MichelsonNode,
+      stack: MichelsonType[],
+      names: string[]
+    ): Maybe<MichelsonType[]> {
+      let current = stack;
+      for (const name of names) {
+        const out = this.instruction(
+          { kind: "prim", name, args: [], start: node.start, end: node.end },
+          current
+        );
+        if (!out || out === "failed") {
+          return undefined;
+        }
+        current = out;
+      }
+      return current;
+    }
+
+    /**
+     * Types `IF`, the bool on top of the stack selecting a branch.
+     */
+    private ifBool(
+      node: MichelsonNode,
+      stack: MichelsonType[]
+    ): Maybe<MichelsonStack> {
+      if (stack[0]?.prim !== "bool") {
+        return this.problem(
+          node,
+          `Expected a bool on top of the stack, found ${showStack(stack)}.`
+        );
+      }
+      return this.branches(node, stack.slice(1), stack.slice(1));
+    }
+
+    /**
+     * Types the body of a loop, which must end where it started again.
+     * @param start Stack the body starts from.
+     * @param again Stack the body must end with.
+     * @param after Stack once the loop is over.
+     */
+    private loop(
+      node: MichelsonNode,
+      start: MichelsonType[],
+      again: MichelsonType[],
+      after: MichelsonType[]
+    ): Maybe<MichelsonStack> {
+      const code = node.kind === "prim" ? node.args[0] : undefined;
+      if (!code) {
+        return this.problem(node, "Missing code block.");
+      }
+      const out = this.block(code, start);
+      if (!out) {
+        return undefined;
+      }
+      if (out !== "failed" && !equalStacks(out, again)) {
+        return this.problem(
+          node,
+          `Loop body must end with ${showStack(again)}, found ${showStack(
+            out
+          )}.`
+        );
+      }
+      return after;
+    }
+
+    /**
+     * Element type of an iterable, pairs of keys and values for maps.
+     */
+    private element(type: MichelsonType): Maybe<MichelsonType> {
+      switch (type.prim) {
+        case "list":
+        case "set":
+        case "option":
+          return type.args[0];
+        case "map":
+          return t("pair", type.args[0], type.args[1]);
+        default:
+          return undefined;
+      }
+    }
+
+    /**
+     * Whether a type is a `map` or `big_map`.
+     */
+    private isMap(type: MichelsonType): boolean {
+      return type.prim === "map" || type.prim === "big_map";
+    }
+
+    /**
+     * Reads or replaces a field of a right comb of pairs, as `GET n` and `UPDATE n`.
+     * @param type The comb.
+     * @param n Index of the field, odd for left members.
+     * @param value New value of the field, if replaced.
+     * @returns The field or the updated comb, `undefined` if out of the comb.
+     */
+    private comb(
+      type: MichelsonType,
+      n: number,
+      value?: MichelsonType
+    ): Maybe<MichelsonType> {
+      if (n === 0) {
+        return value || type;
+      }
+      if (type.prim !== "pair") {
+        return undefined;
+      }
+      if (n === 1) {
+        return value ? t("pair", value, type.args[1]) : type.args[0];
+      }
+      const inner = this.comb(type.args[1], n - 2, value);
+      if (!inner) {
+        return undefined;
+      }
+      return value ? t("pair", type.args[0], inner) : inner;
+    }
+  }
+}
@@ -0,0 +1,171 @@
+import * as vscode from "vscode";
+import { annotations } from "./annotations";
+import { proofs } from "./proofs";
+import { EntryProofs, GoalResult, ProofState } from "./types";
+import { verifiers } from "./utils";
+
+/**
+ * Shows the proof results of Whylson sessions on the annotations of ligo documents,
+ * as gutter icons and diagnostics.
+ */
+export class ProofDecorator {
+  /**
+   * Every state shown, named after its gutter icon.
+   */
+  private static readonly states: ProofState[] = [
+    "proved",
+    "failed",
+    "timeout",
+    "unknown",
+    "stale",
+  ];
+
+  private readonly _collection: vscode.DiagnosticCollection;
+  private readonly _decorations: Map<
+    ProofState,
+    vscode.TextEditorDecorationType
+  >;
+  private readonly _stored: Map<string, EntryProofs[]>;
+
+  /**
+   * Creates a ProofDecorator instance.
+   * @param context Extension context, owner of the decorations and diagnostics.
+   */
+  constructor(context: vscode.ExtensionContext) {
+    this._collection =
+      vscode.languages.createDiagnosticCollection("whylson-proofs");
+    this._decorations = new Map(
+      ProofDecorator.states.map((state) => [
+        state,
+        vscode.window.createTextEditorDecorationType({
+          gutterIconPath: context.asAbsolutePath(
+            `resources/proofs/${state}.svg`
+          ),
+          gutterIconSize: "contain",
+        }),
+      ])
+    );
+    this._stored = new Map();
+    context.subscriptions.push(this._collection, ...this._decorations.values());
+  }
+
+  /**
+   * Replaces the stored results of a ligo document, refreshing it if open.
+   * @param uri Uri of the ligo document.
+   * @param stored Latest results of every entry of the document.
+   */
+  public set(uri: vscode.Uri, stored: EntryProofs[]) {
+    this._stored.set(uri.toString(), stored);
+    const doc = vscode.workspace.textDocuments.find(
+      (d) => d.uri.toString() === uri.toString()
+    );
+    if (doc) {
+      this.refresh(doc);
+    }
+  }
+
+  /**
+   * Checks wheather the results of a ligo document were set.
+   * @param uri Uri of the ligo document.
+   */
+  public has(uri: vscode.Uri): boolean {
+    return this._stored.has(uri.toString());
+  }
+
+  /**
+   * Matches the annotations of a ligo document with its stored results,
+   * updating its diagnostics and the gutter of every editor it is visible in.
+   * @param doc A ligo document.
+   */
+  public refresh(doc: vscode.TextDocument) {
+    const stored = this._stored.get(doc.uri.toString());
+    if (!verifiers.isLigoFile(doc) || !stored) {
+      return;
+    }
+
+    const found = annotations.find(doc);
+    const ranges = new Map<ProofState, vscode.DecorationOptions[]>(
+      ProofDecorator.states.map((state) => [state, []])
+    );
+    const diagnostics: vscode.Diagnostic[] = [];
+
+    proofs.resolve(found, stored).forEach((result, i) => {
+      if (!result) {
+        return;
+      }
+      const range = found[i].range;
+      const message = ProofDecorator.describe(result.state, result.goals);
+      ranges.get(result.state)!.push({
+        range: new vscode.Range(range.start, range.start),
+        hoverMessage: message,
+      });
+
+      if (result.state !== "proved") {
+        const diagnostic = new vscode.Diagnostic(
+          range,
+          message,
+          result.state === "failed"
+            ? vscode.DiagnosticSeverity.Error
+            : result.state === "stale"
+            ? vscode.DiagnosticSeverity.Information
+            : vscode.DiagnosticSeverity.Warning
+        );
+        diagnostic.source = "whylson";
+        diagnostics.push(diagnostic);
+      }
+    });
+
+    this._collection.set(doc.uri, diagnostics);
+    vscode.window.visibleTextEditors
+      .filter((ed) => ed.document === doc)
+      .forEach((ed) =>
+        ranges.forEach((options, state) =>
+          ed.setDecorations(this._decorations.get(state)!, options)
+        )
+      );
+  }
+
+  /**
+   * Refreshes every visible ligo document, e.g. once shown in another editor.
+   */
+  public refreshVisible() {
+    new Set(vscode.window.visibleTextEditors.map((ed) => ed.document)).forEach(
+      (doc) => this.refresh(doc)
+    );
+  }
+
+  /**
+   * Removes diagnostics of a ligo document, its results are kept.
+   * @param doc A ligo document, usually one being closed.
+   */
+  public clear(doc: vscode.TextDocument) {
+    this._collection.delete(doc.uri);
+  }
+
+  /**
+   * Explains the state of an annotation, naming the goals behind it.
+   * @param state State of the annotation.
+   * @param goals Goals traced back to the annotation.
+   * @returns A single line message.
+   */
+  private static describe(state: ProofState, goals: GoalResult[]): string {
+    const named = (status: GoalResult["status"]) =>
+      goals
+        .filter((g) => g.status === status)
+        .map((g) => `${g.goal}${g.detail ? ` (${g.detail})` : ""}`)
+        .join(", ");
+
+    switch (state) {
+      case "proved":
+        return `Proved by Whylson: ${named("proved")}`;
+      case "failed":
+        return `Proof failed: ${named("failed")}`;
+      case "timeout":
+        return `Proof timed out: ${named("timeout")}`;
+      case "unknown":
+        return `Proof result unknown: ${named("unknown")}`;
+      case "stale":
+        return "Annotation changed since its last verification, run Whylson again";
+    }
+  }
+}
@@ -0,0 +1,315 @@
+import { createHash } from "crypto";
+import {
+  Annotation,
+  AnnotationProof,
+  CachedProofs,
+  EntryProofs,
+  GoalResult,
+  GoalStatus,
+  Maybe,
+  ProofCacheRecord,
+  ProofState,
+  ProofTracing,
+  ProofsFile,
+} from "./types";
+
+export namespace proofs {
+  /**
+   * Version of the `proofs.json` format written by this extension.
+   */
+  export const version = 1 as const;
+
+  /**
+   * Outcomes from best to worst, an annotation showing the worst of its goals.
+   */
+  const ranking: GoalStatus[] = ["proved", "unknown", "timeout", "failed"];
+
+  /**
+   * Picks the worst outcome among goals.
+   * @param statuses Outcomes of some goals, at least one.
+   * @returns The outcome ranked worst.
+   */
+  export function worst(statuses: GoalStatus[]): GoalStatus {
+    return statuses.reduce((a, b) =>
+      ranking.indexOf(b) > ranking.indexOf(a) ? b : a
+    );
+  }
+
+  /**
+   * Traces the goals of a Whylson session back to the annotations of the verified source:
+   * 1. goals quoting the annotation text;
+   * 2. goals naming the line of the annotation, e.g. `line 12`;
+   * 3. remaining goals paired in order with remaining annotations, if as many of both.
+   * Goals left unmatched are taken to be about the contract as a whole.
+   * @param found Annotations of the ligo source, in order of appearance.
+   * @param goals Goals of the session, in order of appearance.
+   * @returns Goals of every annotation and of the contract.
+   */
+  export function trace(
+    found: Annotation[],
+    goals: GoalResult[]
+  ): ProofTracing {
+    const traced: GoalResult[][] = found.map(() => []);
+    const left: GoalResult[] = [];
+
+    goals.forEach((g) => {
+      const text = `${g.goal} ${g.detail}`;
+      const line = /\bline (\d+)/.exec(text);
+      let i = found.findIndex(
+        (a) => a.content.trim() && text.includes(a.content.trim())
+      );
+      if (i < 0 && line) {
+        i = found.findIndex((a) => a.range.start.line === Number(line[1]) - 1);
+      }
+      if (i < 0) {
+        left.push(g);
+      } else {
+        traced[i].push(g);
+      }
+    });
+
+    // ? Whylson emits goals in order of the specifications, an assumption worth no more
+    const untraced = traced
+      .map((goals, i) => (goals.length === 0 ? i : -1))
+      .filter((i) => i >= 0);
+    if (left.length > 0 && left.length === untraced.length) {
+      untraced.forEach((i, j) => traced[i].push(left[j]));
+      return { traced: traced, contract: [] };
+    }
+    return { traced: traced, contract: left };
+  }
+
+  /**
+   * Results of the annotations some goal was traced back to.
+   * @param found Annotations of the ligo source, in order of appearance.
+   * @param tracing Goals of every annotation, as given by `trace`.
+   * @returns Results to be kept in `proofs.json`.
+   */
+  export function attach(
+    found: Annotation[],
+    { traced }: ProofTracing
+  ): AnnotationProof[] {
+    return found.flatMap((a, i) =>
+      traced[i].length === 0
+        ? []
+        : [
+            {
+              content: a.content,
+              line: a.range.start.line,
+              status: worst(traced[i].map((g) => g.status)),
+              goals: traced[i],
+            },
+          ]
+    );
+  }
+
+  /**
+   * Every goal of a tracing, those of annotations first.
+   */
+  export function goals({ traced, contract }: ProofTracing): GoalResult[] {
+    return [...traced.flat(), ...contract];
+  }
+
+  /**
+   * Short hash of a michelson contract or an annotation text, naming cache entries.
+   * @param text Text to be hashed.
+   * @returns Start of its SHA-256, in hexadecimal.
+   */
+  export function hash(text: string): string {
+    return createHash("sha256").update(text).digest("hex").slice(0, 16);
+  }
+
+  /**
+   * Adds the goals of a session to the cache record of a build.
+   * Annotations no goal was traced back to are only recorded when every goal was proved,
+   * others being sent to Whylson again rather than taken as verified.
+   * @param found Annotations of the ligo source, in order of appearance.
+   * @param tracing Goals of every annotation, as given by `trace` or `merge`.
+   * @param ok Whether the session ended normally and every goal was proved.
+   * @param previous Record of earlier sessions of the same build, if any.
+   * @returns The record to be kept under the hash of the build.
+   */
+  export function toCache(
+    found: Annotation[],
+    { traced, contract }: ProofTracing,
+    ok: boolean,
+    previous: Maybe<ProofCacheRecord>
+  ): ProofCacheRecord {
+    const verified: Record<string, GoalResult[]> = {};
+    found.forEach((a, i) => {
+      const key = hash(a.content);
+      if (ok || traced[i].length > 0) {
+        verified[key] = [...(verified[key] || []), ...traced[i]];
+      }
+    });
+    return {
+      version: version,
+      verifiedAt: new Date().toISOString(),
+      annotations: { ...previous?.annotations, ...verified },
+      contract: contract,
+    };
+  }
+
+  /**
+   * Takes the goals of the annotations of a source from the cache record of its build.
+   * Annotations whose text was never verified with this build are left pending.
+   * @param record Cached sessions of the same build, if any.
+   * @param found Annotations of the ligo source, in order of appearance.
+   * @returns Cached goals, and annotations to be sent to Whylson.
+   */
+  export function fromCache(
+    record: Maybe<ProofCacheRecord>,
+    found: Annotation[]
+  ): CachedProofs {
+    const keys = found.map((a) => hash(a.content));
+    const pending = keys
+      .map((k, i) => (record && k in record.annotations ? -1 : i))
+      .filter((i) => i >= 0);
+
+    // Annotations sharing a text share their goals, given to the first one only
+    return {
+      tracing: {
+        traced: keys.map((k, i) =>
+          record && keys.indexOf(k) === i && !pending.includes(i)
+            ? record.annotations[k]
+            : []
+        ),
+        contract: record?.contract || [],
+      },
+      pending: pending,
+    };
+  }
+
+  /**
+   * Completes cached goals with those of a session over the pending annotations.
+   * @param cached Cached goals, as given by `fromCache`.
+   * @param session Goals of the session, traced back to the pending annotations only.
+   * @returns Goals of every annotation, the contract ones being those of the session.
+   */
+  export function merge(
+    { tracing, pending }: CachedProofs,
+    session: ProofTracing
+  ): ProofTracing {
+    const traced = [...tracing.traced];
+    pending.forEach((i, j) => (traced[i] = session.traced[j]));
+    return { traced: traced, contract: session.contract };
+  }
+
+  /**
+   * Whether goals are all proved, at least one being reported.
+   */
+  export function proved(goals: GoalResult[]): boolean {
+    return goals.length > 0 && goals.every((g) => g.status === "proved");
+  }
+
+  /**
+   * Reads a cached session, `undefined` if missing or malformed.
+   * @param text Contents of a cache record file, possibly empty.
+   */
+  export function readCache(text: string): Maybe<ProofCacheRecord> {
+    let raw: Maybe<Partial<ProofCacheRecord>>;
+    try {
+      raw = JSON.parse(text);
+    } catch {
+      return undefined;
+    }
+    return typeof raw === "object" &&
+      raw !== null &&
+      raw.version === version &&
+      typeof raw.verifiedAt === "string" &&
+      typeof raw.annotations === "object" &&
+      raw.annotations !== null &&
+      Array.isArray(raw.contract)
+      ? (raw as ProofCacheRecord)
+      : undefined;
+  }
+
+  /**
+   * States of the annotations of a document, from the stored results of its entries.
+   * Results are matched to annotations by text, in order of appearance. Results left
+   * unmatched belong to annotations since edited, paired in order with the annotations
+   * left unmatched, which are then stale. Others were never verified.
+   * @param found Annotations of the ligo document, in order of appearance.
+   * @param stored Latest results of every entry of the document.
+   * @returns State and goals of every annotation, `undefined` if never verified.
+   */
+  export function resolve(
+    found: Annotation[],
+    stored: EntryProofs[]
+  ): Maybe<{ state: ProofState; goals: GoalResult[] }>[] {
+    const matched: AnnotationProof[][] = found.map(() => []);
+    const stale = found.map(() => false);
+
+    stored.forEach((entry) => {
+      const unused = [...entry.annotations];
+      const unmatched: number[] = [];
+      found.forEach((a, i) => {
+        const j = unused.findIndex((p) => p.content === a.content);
+        if (j < 0) {
+          unmatched.push(i);
+        } else {
+          matched[i].push(...unused.splice(j, 1));
+        }
+      });
+      unmatched.slice(0, unused.length).forEach((i) => (stale[i] = true));
+    });
+
+    return found.map((_, i) =>
+      stale[i]
+        ? { state: "stale", goals: [] }
+        : matched[i].length > 0
+        ? {
+            state: worst(matched[i].map((p) => p.status)),
+            goals: matched[i].flatMap((p) => p.goals),
+          }
+        : undefined
+    );
+  }
+
+  /**
+   * Reads `proofs.json` contents, leaving out malformed results.
+   * @param text Contents of a `proofs.json` file, possibly empty.
+   * @returns Results of every entry, empty if the file is unusable.
+   */
+  export function read(text: string): ProofsFile {
+    const file: ProofsFile = { version: version, proofs: {} };
+    let raw: Maybe<Partial<ProofsFile>>;
+    try {
+      raw = JSON.parse(text);
+    } catch {
+      return file;
+    }
+
+    if (typeof raw?.proofs !== "object" || raw.proofs === null) {
+      return file;
+    }
+    Object.entries(raw.proofs).forEach(([key, proofs]) => {
+      if (isEntryProofs(proofs)) {
+        file.proofs[key] = proofs;
+      }
+    });
+    return file;
+  }
+
+  /**
+   * Checks the fields of results read from disk.
+   */
+  function isEntryProofs(value: unknown): value is EntryProofs {
+    const p = value as Partial<EntryProofs>;
+    return (
+      typeof p === "object" &&
+      p !== null &&
+      typeof p.verifiedAt === "string" &&
+      Array.isArray(p.annotations) &&
+      p.annotations.every(
+        (a: Partial<AnnotationProof>) =>
+          typeof a === "object" &&
+          a !== null &&
+          typeof a.content === "string" &&
+          typeof a.line === "number" &&
+          ranking.includes(a.status as GoalStatus) &&
+          Array.isArray(a.goals)
+      )
+    );
+  }
+}
@@ -0,0 +1,83 @@
+import * as vscode from "vscode";
+import { contractMetrics } from "./contract-metrics";
+import { ContractEntryScheme, ContractMetrics, Maybe } from "./types";
+
+/**
+ * Status bar item showing the compiled size of the active ligo document's target.
+ */
+export class SizeStatus {
+  private readonly _item: vscode.StatusBarItem;
+
+  /**
+   * Creates a SizeStatus instance, hidden until a size is shown.
+   * @param context Extension context, owner of the status bar item.
+   */
+  constructor(context: vscode.ExtensionContext) {
+    this._item = vscode.window.createStatusBarItem(
+      "whylson-connector.size",
+      vscode.StatusBarAlignment.Right,
+      100
+    );
+    this._item.name = "Contract Size";
+    context.subscriptions.push(this._item);
+  }
+
+  /**
+   * Shows the size of a target, highlighted when over the threshold.
+   * @param entry Entry of the target.
+   * @param metrics Size of its latest build, if measured.
+   * @param threshold Size in bytes not to be exceeded, `0` if unset.
+   */
+  public show(
+    entry: ContractEntryScheme,
+    metrics: Maybe<ContractMetrics>,
+    threshold: number
+  ) {
+    if (!metrics) {
+      this._item.text = "$(file-binary) -";
+      this._item.tooltip = `${entry.title} (${entry.target}) has not been measured yet`;
+      this._item.backgroundColor = undefined;
+      this._item.show();
+      return;
+    }
+
+    const over = threshold > 0 && metrics.size > threshold;
+    const change = contractMetrics.change(metrics);
+    this._item.text = `${over ? "$(warning)" : "$(file-binary)"} ${(
+      metrics.size / 1024
+    ).toFixed(1)} KB`;
+    this._item.backgroundColor = over
+      ? new vscode.ThemeColor("statusBarItem.warningBackground")
+      : undefined;
+
+    const tooltip = new vscode.MarkdownString(
+      `**${entry.title}** (${entry.target}): ${contractMetrics.bytes(
+        metrics.size
+      )}`
+    );
+    if (change !== undefined) {
+      tooltip.appendMarkdown(
+        `\n\nPrevious build: ${contractMetrics.bytes(metrics.previous!)} (${
+          change >= 0 ? "+" : ""
+        }${change.toFixed(1)}%)`
+      );
+    }
+    if (threshold > 0) {
+      tooltip.appendMarkdown(
+        `\n\nThreshold: ${contractMetrics.bytes(threshold)}`
+      );
+    }
+    tooltip.appendMarkdown(
+      `\n\nMeasured ${new Date(metrics.measuredAt).toLocaleString()}`
+    );
+    this._item.tooltip = tooltip;
+    this._item.show();
+  }
+
+  /**
+   * Hides the item, e.g. when the active document is not a ligo contract.
+   */
+  public hide() {
+    this._item.hide();
+  }
+}
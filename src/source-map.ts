@@ -0,0 +1,165 @@
+import { posix } from "path";
+import * as vscode from "vscode";
+import { Maybe, SourceMapping } from "./types";
+
+export namespace sourceMap {
+  /**
+   * Flags making ligo annotate michelson instructions with their source location.
+   */
+  export const flags = ["--michelson-comments", "location"] as const;
+
+  /**
+   * Removes location comments from compiled michelson,
+   * recording which michelson range each of them was attached to.
+   * Location comments take the form of `/* File "<path>", line <l>, characters <c1>-<c2> *\/`.
+   * @param code Michelson code compiled with location comments.
+   * @param source File path of the compiled ligo document, relative paths are resolved from it.
+   * @returns Michelson code without location comments and the mappings found.
+   */
+  export function extract(
+    code: string,
+    source: string
+  ): { code: string; mappings: SourceMapping[] } {
+    const comment =
+      /[ \t]*\/\*\s*File "([^"]+)", line (\d+), (?:characters (\d+)-(\d+)|character (\d+) to line (\d+), character (\d+))\s*\*\//g;
+
+    const lines: string[] = [];
+    const mappings: SourceMapping[] = [];
+
+    // Locations from lines left empty belong to the next line with code
+    let pending: Omit<SourceMapping, "michelson">[] = [];
+
+    code.split(/\r?\n/).forEach((line) => {
+      const found: { at: number; mapping: Omit<SourceMapping, "michelson"> }[] =
+        [];
+      let out = "";
+      let last = 0;
+      let m: RegExpExecArray | null;
+
+      comment.lastIndex = 0;
+      while ((m = comment.exec(line))) {
+        out += line.slice(last, m.index);
+        last = m.index + m[0].length;
+        found.push({ at: out.length, mapping: toMapping(m, source) });
+      }
+      out += line.slice(last);
+
+      if (found.length > 0 && out.trim().length === 0) {
+        pending.push(...found.map((f) => f.mapping));
+        return;
+      }
+
+      const lnum = lines.length;
+      lines.push(out);
+      if (pending.length > 0) {
+        const start = out.search(/\S/);
+        pending.forEach((mapping) =>
+          mappings.push({
+            ...mapping,
+            michelson: instructionAt(out, lnum, Math.max(start, 0)),
+          })
+        );
+        pending = [];
+      }
+      found.forEach(({ at, mapping }) =>
+        mappings.push({ ...mapping, michelson: instructionAt(out, lnum, at) })
+      );
+    });
+
+    return { code: lines.join("\n"), mappings: mappings };
+  }
+
+  /**
+   * Finds the mappings whose ligo range contains a position,
+   * keeping only the narrowest ligo range among them.
+   * @param mappings Mappings of a michelson view.
+   * @param file File path of the ligo document.
+   * @param position Position in the ligo document.
+   * @returns Mappings for the innermost ligo expression at position.
+   */
+  export function fromLigo(
+    mappings: SourceMapping[],
+    file: string,
+    position: vscode.Position
+  ): SourceMapping[] {
+    const hits = mappings.filter(
+      (m) => m.file === file && m.ligo.contains(position)
+    );
+    const narrowest = Math.min(...hits.map(span));
+    return hits.filter((m) => span(m) === narrowest);
+  }
+
+  /**
+   * Finds the mapping for the michelson instruction at a position.
+   * @param mappings Mappings of a michelson view.
+   * @param position Position in the michelson view.
+   * @returns Possibly the mapping of the narrowest instruction at position.
+   */
+  export function fromMichelson(
+    mappings: SourceMapping[],
+    position: vscode.Position
+  ): Maybe<SourceMapping> {
+    return mappings
+      .filter((m) => m.michelson.contains(position))
+      .sort((a, b) => span(a) - span(b))[0];
+  }
+
+  /**
+   * Rough size of the ligo range of a mapping, for narrowest-first ordering.
+   */
+  function span(m: SourceMapping): number {
+    return (
+      (m.ligo.end.line - m.ligo.start.line) * 10000 +
+      (m.ligo.end.character - m.ligo.start.character)
+    );
+  }
+
+  /**
+   * Builds the ligo side of a mapping from a location comment match.
+   */
+  function toMapping(
+    m: RegExpExecArray,
+    source: string
+  ): Omit<SourceMapping, "michelson"> {
+    const line = Number(m[2]) - 1;
+    return {
+      file: posix.isAbsolute(m[1])
+        ? m[1]
+        : posix.join(posix.dirname(source), m[1]),
+      ligo: m[3]
+        ? new vscode.Range(line, Number(m[3]), line, Number(m[4]))
+        : new vscode.Range(line, Number(m[5]), Number(m[6]) - 1, Number(m[7])),
+    };
+  }
+
+  /**
+   * Finds the instruction a location comment was attached to.
+   * Looks backwards up to the previous `;` or `{`, then forwards up to the next
+   * `;`, `{` or `}`, and falls back to the whole line.
+   * @param line Line of michelson code, without comments.
+   * @param lnum Line number of `line` in the michelson view.
+   * @param at Offset in `line` where the comment was.
+   * @returns Range of the instruction in the michelson view.
+   */
+  function instructionAt(line: string, lnum: number, at: number): vscode.Range {
+    const trimmed = (start: number, end: number) => {
+      const text = line.slice(start, end);
+      const s = start + (text.length - text.trimStart().length);
+      const e = end - (text.length - text.trimEnd().length);
+      return s < e ? new vscode.Range(lnum, s, lnum, e) : undefined;
+    };
+
+    const before = Math.max(
+      line.lastIndexOf(";", at - 1),
+      line.lastIndexOf("{", at - 1)
+    );
+    const after = line.slice(at).search(/[;{}]/);
+
+    return (
+      trimmed(before + 1, at) ||
+      trimmed(at, after < 0 ? line.length : at + after) ||
+      trimmed(0, line.length) ||
+      new vscode.Range(lnum, 0, lnum, 0)
+    );
+  }
+}
@@ -0,0 +1,38 @@
+import * as vscode from "vscode";
+import { LigoDialect } from "../types";
+
+/**
+ * Creates a read-only document holding text, as much of one as scanning modules use.
+ * @param text Contents of the document.
+ * @param languageId Dialect of the document, or `michelson`.
+ * @param path File path of the document.
+ * @returns A document of the given text.
+ */
+export function document(
+  text: string,
+  languageId: LigoDialect | "michelson" = "mligo",
+  path = `/work/contract.${languageId}`
+): vscode.TextDocument {
+  const lines = text.split("\n");
+  const starts = lines.map((_, i) =>
+    lines.slice(0, i).reduce((n, l) => n + l.length + 1, 0)
+  );
+  const positionAt = (offset: number) => {
+    let line = starts.length - 1;
+    while (line > 0 && starts[line] > offset) {
+      line--;
+    }
+    return new vscode.Position(line, offset - starts[line]);
+  };
+
+  return {
+    uri: vscode.Uri.file(path),
+    languageId: languageId,
+    lineCount: lines.length,
+    getText: () => text,
+    lineAt: (line: number) => ({ text: lines[line] }),
+    positionAt: positionAt,
+    offsetAt: (position: vscode.Position) =>
+      starts[position.line] + position.character,
+  } as unknown as vscode.TextDocument;
+}
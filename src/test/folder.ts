@@ -0,0 +1,29 @@
+import { mkdtempSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import * as vscode from "vscode";
+import { Logger } from "../logger";
+import { WhylsonFolder } from "../whylson-folder";
+
+/**
+ * Logger of the unit tested modules, writing to the `output` of the `vscode` stand-in.
+ */
+export const logger = new Logger({
+  extensionMode: vscode.ExtensionMode.Test,
+} as vscode.ExtensionContext);
+
+/**
+ * Creates a WhylsonFolder over a workspace folder on disk, `init` left to tests.
+ * @param name Name of the workspace folder.
+ * @param dir Path of the workspace folder, a new temporary one by default.
+ * @returns The folder, its path being that of `folder.uri`.
+ */
+export function whylsonFolder(
+  name = "work",
+  dir = mkdtempSync(join(tmpdir(), `whylson-${name}-`))
+): WhylsonFolder {
+  return new WhylsonFolder(
+    { uri: vscode.Uri.file(dir), name: name, index: 0 },
+    logger
+  );
+}
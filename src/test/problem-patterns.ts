@@ -0,0 +1,37 @@
+import { readFileSync } from "fs";
+import { join } from "path";
+
+/**
+ * A line of a problem pattern contributed in `package.json`.
+ */
+type PatternLine = {
+  regexp: RegExp;
+  kind?: string;
+  file?: number;
+  line?: number;
+  column?: number;
+  endLine?: number;
+  endColumn?: number;
+  severity?: number;
+  message?: number;
+};
+
+/**
+ * Reads a problem pattern contributed by the extension, as the editor applies it.
+ * @param name Name of the pattern, e.g. `whylson-location`.
+ * @returns Lines of the pattern, in order.
+ */
+export function problemPattern(name: string): PatternLine[] {
+  const manifest = JSON.parse(
+    readFileSync(join(__dirname, "..", "..", "package.json"), "utf8")
+  );
+  const pattern = manifest.contributes.problemPatterns.find(
+    (p: { name: string }) => p.name === name
+  );
+  return (pattern.patterns || [pattern]).map(
+    (line: { regexp: string }): PatternLine => ({
+      ...line,
+      regexp: new RegExp(line.regexp),
+    })
+  );
+}
@@ -0,0 +1,17 @@
+import Module = require("module");
+
+/**
+ * Required by mocha before the suites: `vscode` only exists inside the editor,
+ * unit tested modules get the stand-in of `./vscode` instead.
+ */
+type Resolver = (request: string, ...rest: unknown[]) => string;
+const loader = Module as unknown as { _resolveFilename: Resolver };
+const resolve = loader._resolveFilename;
+
+loader._resolveFilename = function (request, ...rest) {
+  return resolve.call(
+    this,
+    request === "vscode" ? require.resolve("./vscode") : request,
+    ...rest
+  );
+};
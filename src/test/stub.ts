@@ -0,0 +1,16 @@
+import { chmodSync, writeFileSync } from "fs";
+import { join } from "path";
+
+/**
+ * Writes a shell script standing in for an executable.
+ * @param dir Folder of the script.
+ * @param name Name of the executable.
+ * @param script Body of the script, `$@` being the arguments it was run with.
+ * @returns Path to the script.
+ */
+export function executable(dir: string, name: string, script: string): string {
+  const path = join(dir, name);
+  writeFileSync(path, `#!/bin/sh\n${script}\n`);
+  chmodSync(path, 0o755);
+  return path;
+}
@@ -0,0 +1,85 @@
+import * as assert from "assert";
+import * as vscode from "vscode";
+import { AnnotationLanguageFeatures } from "../../annotation-language";
+import { document } from "../document";
+
+suite("AnnotationLanguageFeatures", () => {
+  const features = new AnnotationLanguageFeatures();
+  const doc = document(
+    [
+      "let limit = 10n",
+      '[@comment: "nat > "]',
+      "let f (p : nat) = p",
+      '[@comment: "requires{ p > 0 }"]',
+      "let g (q : nat) = q",
+    ].join("\n")
+  );
+  const labels = (items: vscode.CompletionItem[] | undefined) =>
+    (items || []).map((i) => i.label);
+
+  test("completes types, operators and identifiers in scope", () => {
+    assert.deepStrictEqual(
+      labels(features.provideCompletionItems(doc, new vscode.Position(1, 12))),
+      [
+        "int",
+        "nat",
+        "mutez",
+        "string",
+        "address",
+        "requires",
+        "ensures",
+        "invariant",
+        "variant",
+      ]
+    );
+    assert.deepStrictEqual(
+      labels(
+        features.provideCompletionItems(
+          document('[@comment: "string "]'),
+          new vscode.Position(0, 19)
+        )
+      ),
+      ["=", "<>"]
+    );
+    assert.deepStrictEqual(
+      labels(features.provideCompletionItems(doc, new vscode.Position(1, 18))),
+      ["p", "f", "limit"]
+    );
+    assert.strictEqual(
+      features.provideCompletionItems(doc, new vscode.Position(2, 5)),
+      undefined
+    );
+  });
+
+  test("describes annotations on hover, without verification claims", () => {
+    const hover = features.provideHover(doc, new vscode.Position(3, 14));
+    assert.strictEqual(
+      (hover?.contents as unknown as vscode.MarkdownString).value,
+      [
+        "**Whylson requires**",
+        "",
+        "`requires` clause over `p > 0`.",
+        "",
+        "Pre-condition specification of `g`, the next declaration, checked by Whylson.",
+      ].join("\n")
+    );
+    assert.strictEqual(
+      features.provideHover(doc, new vscode.Position(1, 14)),
+      undefined
+    );
+  });
+
+  test("shows the annotation forms, the one being written active", () => {
+    const help = (text: string) => {
+      const h = features.provideSignatureHelp(
+        document(`[@comment: "${text}`),
+        new vscode.Position(0, 12 + text.length)
+      )!;
+      return [h.activeSignature, h.activeParameter];
+    };
+
+    assert.deepStrictEqual(help("nat "), [0, 1]);
+    assert.deepStrictEqual(help("0 <= int "), [1, 3]);
+    assert.deepStrictEqual(help("ensures{ "), [2, 1]);
+  });
+});
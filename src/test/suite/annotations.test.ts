@@ -0,0 +1,125 @@
+import * as assert from "assert";
+import { annotations } from "../../annotations";
+import { document } from "../document";
+
+suite("annotations.find", () => {
+  test("finds attributes in every dialect, comments in jsligo", () => {
+    const text = [
+      '[@comment: "nat > 0"]',
+      "let a = 1n",
+      '// @comment "int <> 0"',
+      '/* @comment: "0 <= int < 10" */',
+      "const b = 1",
+    ].join("\n");
+
+    assert.deepStrictEqual(
+      annotations.find(document(text, "mligo")).map((a) => a.content),
+      ["nat > 0"]
+    );
+    const found = annotations.find(document(text, "jsligo"));
+    assert.deepStrictEqual(
+      found.map((a) => [a.content, a.range.start.line]),
+      [
+        ["nat > 0", 0],
+        ["int <> 0", 2],
+        ["0 <= int < 10", 3],
+      ]
+    );
+    assert.deepStrictEqual(
+      [
+        found[0].contentRange.start.character,
+        found[0].contentRange.end.character,
+      ],
+      [12, 19]
+    );
+  });
+});
+
+suite("annotations.parse", () => {
+  const problems = (content: string) =>
+    annotations.parse(content).problems.map((p) => [p.severity, p.message]);
+
+  test("reads the forms of the snippets", () => {
+    assert.deepStrictEqual(annotations.parse("nat > 0"), {
+      spec: {
+        kind: "comparison",
+        type: "nat",
+        operator: ">",
+        value: { text: "0", offset: 6 },
+      },
+      problems: [],
+    });
+    assert.strictEqual(
+      annotations.parse("0 <= int < limit").spec?.kind,
+      "bound"
+    );
+    assert.deepStrictEqual(annotations.parse("requires{ p > 0 }"), {
+      spec: { kind: "clause", clause: "requires", body: " p > 0 " },
+      problems: [],
+    });
+    assert.strictEqual(
+      annotations.parse('string = \\"tez\\"').problems.length,
+      0
+    );
+  });
+
+  test("reports malformed annotations", () => {
+    assert.deepStrictEqual(problems("bool = true"), [
+      [
+        "error",
+        "Unknown type `bool`, expected one of `int`, `nat`, `mutez`, `string`, `address`.",
+      ],
+    ]);
+    assert.deepStrictEqual(problems("string < x"), [
+      ["error", "`<` is not defined for `string`, only `=` and `<>` are."],
+    ]);
+    assert.deepStrictEqual(problems("nat > -1"), [
+      ["error", "`-1` is not a valid `nat`."],
+    ]);
+    assert.deepStrictEqual(problems("10 < int >= 0"), [
+      ["error", "Bounds only accept `<` and `<=`, found `>=`."],
+    ]);
+    assert.deepStrictEqual(problems("10 < int < 11"), [
+      ["error", "Range between `10` and `11` is empty."],
+    ]);
+    assert.deepStrictEqual(problems("ensure{ x }"), [
+      [
+        "error",
+        "Unknown clause `ensure`, expected one of `requires`, `ensures`, `invariant`, `variant`.",
+      ],
+    ]);
+    assert.deepStrictEqual(problems("variant{ }"), [
+      ["error", "`variant` clause requires a term."],
+    ]);
+    assert.deepStrictEqual(problems("invariant{ {x }"), [
+      ["error", "Unbalanced braces in clause term."],
+    ]);
+    assert.deepStrictEqual(problems(" "), [
+      ["error", "Empty Whylson annotation."],
+    ]);
+  });
+
+  test("warns about comparisons decided by the type", () => {
+    assert.deepStrictEqual(problems("mutez >= 0"), [
+      ["warning", "Every `mutez` is `>= 0`, annotation always holds."],
+    ]);
+    assert.deepStrictEqual(problems("nat < 0"), [
+      ["warning", "No `nat` is `< 0`, annotation never holds."],
+    ]);
+  });
+});
+
+suite("annotations.tokenize", () => {
+  test("splits operators, strings and words", () => {
+    assert.deepStrictEqual(
+      annotations.tokenize("0<=int <>'a b'").map((t) => [t.text, t.offset]),
+      [
+        ["0", 0],
+        ["<=", 1],
+        ["int", 3],
+        ["<>", 7],
+        ["'a b'", 9],
+      ]
+    );
+  });
+});
@@ -0,0 +1,409 @@
+import * as assert from "assert";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import * as vscode from "vscode";
+import { BinaryBackend, ligoVersions } from "../../compiler-backend";
+import { CompileContractOptions } from "../../types";
+import { utils } from "../../utils";
+import { executable } from "../stub";
+
+suite("ligoVersions", () => {
+  const version = (text: string) => ligoVersions.parse(text);
+
+  test("reads releases, leaving those of development builds unknown", () => {
+    assert.deepStrictEqual(version("1.7.0\n"), {
+      text: "1.7.0",
+      release: [1, 7, 0],
+    });
+    assert.deepStrictEqual(version("Rolling release\nCommit: 4a1b2c3"), {
+      text: "Rolling release",
+      release: undefined,
+    });
+    assert.strictEqual(version("  "), undefined);
+    assert.ok(ligoVersions.isBefore([0, 26, 3], [0, 27, 0]));
+    assert.ok(!ligoVersions.isBefore([0, 27, 0], [0, 27, 0]));
+    assert.ok(!ligoVersions.isBefore([1, 0, 0], [0, 27, 0]));
+  });
+
+  test("respells arguments for releases before the command line rewrite", () => {
+    const args = [
+      "compile",
+      "contract",
+      "token.mligo",
+      "-e",
+      "main",
+      "--no-warn",
+    ];
+    assert.deepStrictEqual(ligoVersions.adapt(args, version("0.26.0")), [
+      "compile-contract",
+      "token.mligo",
+      "main",
+      "--warn=false",
+    ]);
+    assert.deepStrictEqual(
+      ligoVersions.adapt(
+        ["compile", "storage", "token.mligo", "0n", "-e", "main"],
+        version("0.26.0")
+      ),
+      ["compile-storage", "token.mligo", "main", "0n"]
+    );
+    assert.deepStrictEqual(
+      ligoVersions.adapt(
+        ["compile", "contract", "token.mligo", "-m", "Token"],
+        version("0.26.0")
+      ),
+      ["compile-contract", "token.mligo", "-m", "Token"]
+    );
+  });
+
+  test("leaves arguments as they are for recent or unknown releases", () => {
+    const args = [
+      "compile",
+      "contract",
+      "token.mligo",
+      "-e",
+      "main",
+      "--werror",
+    ];
+    assert.deepStrictEqual(ligoVersions.adapt(args, version("1.7.0")), args);
+    assert.deepStrictEqual(ligoVersions.adapt(args, version("dev")), args);
+    assert.deepStrictEqual(ligoVersions.adapt(args, undefined), args);
+  });
+});
+
+suite("BinaryBackend", () => {
+  let dir: string;
+
+  suiteSetup(function () {
+    if (process.platform === "win32") {
+      this.skip();
+    }
+    dir = mkdtempSync(join(tmpdir(), "ligo-stub-"));
+  });
+
+  suiteTeardown(() => {
+    if (dir) {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  test("runs ligo with the arguments it previews", async () => {
+    const ligo = executable(
+      dir,
+      "ligo-0.26",
+      'if [ "$1" = "--version" ]; then echo 0.26.0; else echo "$@"; fi'
+    );
+    const backend = new BinaryBackend(ligo);
+    const args = [
+      "compile",
+      "contract",
+      "/work/token.mligo",
+      "-e",
+      "main",
+      "--no-warn",
+    ];
+
+    const preview = await backend.adapt(args);
+    const { stdout } = await backend.run(args, {});
+    assert.deepStrictEqual(preview, [
+      "compile-contract",
+      "/work/token.mligo",
+      "main",
+      "--warn=false",
+    ]);
+    assert.strictEqual(stdout.trim(), preview.join(" "));
+  });
+});
+
+suite("utils.compileEntry", () => {
+  let dir: string;
+
+  suiteSetup(function () {
+    if (process.platform === "win32") {
+      this.skip();
+    }
+    dir = mkdtempSync(join(tmpdir(), "ligo-stub-"));
+  });
+
+  suiteTeardown(() => {
+    if (dir) {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  test("asks for location comments and takes them out as mappings", async () => {
+    // Prints the arguments it was run with, then an instruction with its location
+    const ligo = executable(
+      dir,
+      "ligo",
+      [
+        'if [ "$1" = "--version" ]; then echo 1.7.0; exit 0; fi',
+        'echo "# $@"',
+        `echo '{ CDR /* File "token.mligo", line 2, characters 4-9 */ }'`,
+      ].join("\n")
+    );
+    // Ligo runs from the folder of the source
+    const entry = utils.createEntry(
+      join(dir, "token.mligo"),
+      join(dir, "token.tz"),
+      "main",
+      ["--protocol", "nairobi"]
+    );
+
+    const result = await utils.compileEntry(
+      new BinaryBackend(ligo),
+      entry,
+      true,
+      undefined,
+      undefined
+    );
+    assert.ok(result?.ok);
+    assert.strictEqual(
+      result.content.trim(),
+      [
+        `# compile contract ${entry.source} -e main --protocol nairobi --michelson-comments location`,
+        "{ CDR }",
+      ].join("\n")
+    );
+    assert.strictEqual(result.mappings?.length, 1);
+  });
+
+  test("compiles expressions with the entrypoint and flags of their contract", async () => {
+    const ligo = executable(dir, "ligo", 'echo "# $@"');
+    const entry = utils.createEntry(
+      join(dir, "token.mligo"),
+      join(dir, "token.tz"),
+      "main",
+      ["-m", "Token"]
+    );
+
+    const result = await utils.compileExpression(
+      new BinaryBackend(ligo),
+      entry.source,
+      "storage",
+      "Token.initial 1n",
+      entry,
+      undefined,
+      undefined
+    );
+    assert.ok(result?.ok);
+    assert.deepStrictEqual(
+      utils.expressionArgs(entry.source, "storage", "Token.initial 1n", entry),
+      [
+        "compile",
+        "storage",
+        entry.source,
+        "Token.initial 1n",
+        "-e",
+        "main",
+        "-m",
+        "Token",
+      ]
+    );
+    assert.strictEqual(
+      result.content.trim(),
+      `# compile storage ${entry.source} Token.initial 1n -e main -m Token`
+    );
+  });
+
+  test("compiles a copy of the document as if it were the document", async () => {
+    // Fails pointing at the file it was given, by full and relative path
+    const ligo = executable(
+      dir,
+      "ligo",
+      [
+        'echo "File \\"$3\\", line 1, characters 0-3:" >&2',
+        'echo "File \\"$(basename "$3")\\", line 2:" >&2',
+        "exit 1",
+      ].join("\n")
+    );
+    const entry = utils.createEntry(
+      join(dir, "token.mligo"),
+      join(dir, "token.tz"),
+      "main"
+    );
+    const shadow = utils.shadowPath(entry.source, 3);
+
+    const result = await utils.compileEntry(
+      new BinaryBackend(ligo),
+      entry,
+      false,
+      undefined,
+      undefined,
+      shadow
+    );
+    assert.strictEqual(result?.ok, false);
+    assert.strictEqual(
+      result.messages.trim(),
+      [
+        `File "${entry.source}", line 1, characters 0-3:`,
+        'File "token.mligo", line 2:',
+      ].join("\n")
+    );
+  });
+
+  test("leaves flags as they are without source mapping", async () => {
+    const entry = utils.createEntry(
+      "/work/token.mligo",
+      "/work/token.tz",
+      "main"
+    );
+    assert.deepStrictEqual(
+      utils.contractOptions(entry, false).options.flags,
+      []
+    );
+    assert.deepStrictEqual(utils.contractOptions(entry, true).options.flags, [
+      "--michelson-comments",
+      "location",
+    ]);
+  });
+});
+
+suite("utils.compileLigo", () => {
+  let dir: string;
+  let source: string;
+  let options: CompileContractOptions;
+
+  // A ligo whose compilations run the given script
+  const ligo = (script: string) =>
+    new BinaryBackend(
+      executable(
+        dir,
+        "ligo",
+        `if [ "$1" = "--version" ]; then echo 1.7.0; exit 0; fi\n${script}`
+      )
+    );
+
+  suiteSetup(function () {
+    if (process.platform === "win32") {
+      this.skip();
+    }
+    dir = mkdtempSync(join(tmpdir(), "ligo-stub-"));
+    source = join(dir, "token.mligo");
+    options = utils.createEntry(source, join(dir, "token.tz"), "main");
+  });
+
+  suiteTeardown(() => {
+    if (dir) {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  test("keeps warnings of successful compilations", async () => {
+    const result = await utils.compileLigo(
+      ligo('echo "{ CDR }"\necho "Warning: unused" >&2'),
+      source,
+      options,
+      undefined,
+      undefined
+    );
+    assert.deepStrictEqual(result, {
+      ok: true,
+      disp: true,
+      content: "{ CDR }\n",
+      messages: "Warning: unused\n",
+    });
+  });
+
+  test("shows errors as michelson comments", async () => {
+    const result = await utils.compileLigo(
+      ligo('echo "Variable not found." >&2\nexit 1'),
+      source,
+      options,
+      undefined,
+      undefined
+    );
+    assert.strictEqual(result?.ok, false);
+    assert.strictEqual(result.messages, "Variable not found.\n");
+    assert.ok(result.content.startsWith("# Variable not found."));
+  });
+
+  test("is aborted by its token or its timeout", async () => {
+    const backend = ligo("exec sleep 30");
+    const cancellation = new vscode.CancellationTokenSource();
+    setTimeout(() => cancellation.cancel(), 200);
+    assert.strictEqual(
+      await utils.compileLigo(
+        backend,
+        source,
+        options,
+        cancellation.token,
+        undefined
+      ),
+      undefined
+    );
+
+    const timedOut = await utils.compileLigo(
+      backend,
+      source,
+      options,
+      undefined,
+      200
+    );
+    assert.strictEqual(timedOut?.ok, false);
+    assert.strictEqual(
+      timedOut.messages,
+      "Compilation timed out after 200 ms."
+    );
+  });
+
+  test("reports a missing ligo as a failed compilation", async () => {
+    const result = await utils.compileLigo(
+      new BinaryBackend(join(dir, "missing-ligo")),
+      source,
+      options,
+      undefined,
+      undefined
+    );
+    assert.strictEqual(result?.ok, false);
+    assert.ok(result.messages.includes("ENOENT"));
+  });
+});
+
+suite("utils.shadowPath", () => {
+  test("hides the copy next to its document, keeping its extension", () => {
+    assert.strictEqual(
+      utils.shadowPath("/work/src/token.jsligo", 12),
+      "/work/src/.token.whylson-12.jsligo"
+    );
+    assert.strictEqual(
+      utils.shadowPath("/work/token.mligo", "verify-main-4"),
+      "/work/.token.whylson-verify-main-4.mligo"
+    );
+  });
+
+  test("points results of the copy back at the document", () => {
+    const shadow = utils.shadowPath("/work/token.mligo", 3);
+    const mention = (file: string) => `File "${file}", line 2:`;
+    const result = utils.unshadow(
+      {
+        ok: true,
+        disp: true,
+        content: `{ CAR /* ${mention(shadow)} */ }`,
+        messages: mention(".token.whylson-3.mligo"),
+        expressions: [
+          {
+            kind: "storage",
+            name: "initial",
+            ok: false,
+            content: "",
+            messages: mention(shadow),
+          },
+        ],
+      },
+      shadow,
+      "/work/token.mligo"
+    );
+
+    assert.strictEqual(
+      result.content,
+      `{ CAR /* ${mention("/work/token.mligo")} */ }`
+    );
+    assert.strictEqual(result.messages, mention("token.mligo"));
+    assert.strictEqual(
+      result.expressions?.[0].messages,
+      mention("/work/token.mligo")
+    );
+  });
+});
@@ -0,0 +1,74 @@
+import * as assert from "assert";
+import { contractMetrics } from "../../contract-metrics";
+import { utils } from "../../utils";
+
+suite("contractMetrics", () => {
+  const measuredAt = "2024-01-01T00:00:00.000Z";
+
+  test("warns once when the threshold is crossed", () => {
+    assert.deepStrictEqual(
+      contractMetrics.regressions(
+        { size: 40000, previous: 30000, measuredAt },
+        32768,
+        0
+      ),
+      ["is 40,000 bytes, over the 32,768 bytes threshold"]
+    );
+    assert.deepStrictEqual(
+      contractMetrics.regressions(
+        { size: 41000, previous: 40000, measuredAt },
+        32768,
+        0
+      ),
+      []
+    );
+  });
+
+  test("warns about growth beyond the configured percentage", () => {
+    assert.deepStrictEqual(
+      contractMetrics.regressions(
+        { size: 1200, previous: 1000, measuredAt },
+        0,
+        10
+      ),
+      [
+        "grew by 20.0% since the previous build, from 1,000 bytes to 1,200 bytes",
+      ]
+    );
+    assert.deepStrictEqual(
+      contractMetrics.regressions(
+        { size: 1050, previous: 1000, measuredAt },
+        0,
+        10
+      ),
+      []
+    );
+    assert.deepStrictEqual(
+      contractMetrics.regressions({ size: 1200, measuredAt }, 0, 10),
+      []
+    );
+  });
+
+  test("reads sizes printed by ligo", () => {
+    assert.strictEqual(contractMetrics.parse("1234 bytes\n"), 1234);
+    assert.strictEqual(contractMetrics.parse("error"), undefined);
+  });
+
+  test("measures without output format flags", () => {
+    const entry = utils.createEntry(
+      "/work/token.mligo",
+      "/work/token.tz",
+      "main",
+      ["--michelson-format", "json", "--protocol", "nairobi"]
+    );
+    assert.deepStrictEqual(contractMetrics.args(entry), [
+      "info",
+      "measure-contract",
+      "/work/token.mligo",
+      "-e",
+      "main",
+      "--protocol",
+      "nairobi",
+    ]);
+  });
+});
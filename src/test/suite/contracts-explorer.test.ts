@@ -0,0 +1,94 @@
+import * as assert from "assert";
+import { rmSync } from "fs";
+import { join } from "path";
+import * as vscode from "vscode";
+import { ContractsExplorer } from "../../contracts-explorer";
+import { ContractEntryScheme, ExplorerNode } from "../../types";
+import { utils } from "../../utils";
+import { WhylsonFolder } from "../../whylson-folder";
+import { whylsonFolder } from "../folder";
+
+suite("ContractsExplorer", () => {
+  let folder: WhylsonFolder;
+  let explorer: ContractsExplorer;
+  let token: ContractEntryScheme;
+  let vault: ContractEntryScheme;
+
+  setup(async () => {
+    folder = whylsonFolder();
+    await folder.init();
+    const path = (name: string) => join(folder.folder.uri.fsPath, name);
+    token = utils.createEntry(path("token.mligo"), path("token.tz"), "main", [
+      "-p",
+      "lima",
+    ]);
+    vault = utils.createEntry(path("vault.mligo"), path("vault.tz"), "", [
+      "-m",
+      "Vault",
+    ]);
+    await folder.addContractEntry(vault);
+    await folder.addContractEntry(token);
+    explorer = new ContractsExplorer(
+      { subscriptions: [] } as unknown as vscode.ExtensionContext,
+      () => [folder]
+    );
+  });
+
+  teardown(() => {
+    folder.dispose();
+    rmSync(folder.folder.uri.fsPath, { recursive: true, force: true });
+  });
+
+  // Descriptions of the detail nodes of an entry, by label
+  const details = (entry: ContractEntryScheme) =>
+    Object.fromEntries(
+      explorer
+        .getChildren({ kind: "contract", entry: entry })
+        .map((node) =>
+          node.kind === "detail" ? [node.label, node.description] : []
+        )
+    );
+
+  test("lists the entries of a single folder by title", () => {
+    assert.deepStrictEqual(explorer.getChildren(), [
+      { kind: "contract", entry: token },
+      { kind: "contract", entry: vault },
+    ] as ExplorerNode[]);
+  });
+
+  test("details the options of an entry", () => {
+    const shown = details(vault);
+    assert.strictEqual(shown.Entrypoint, "module Vault");
+    assert.strictEqual(shown.Flags, "-m Vault");
+    assert.strictEqual(shown.Output, vault.onPath);
+    assert.strictEqual(shown.Compilation, "not compiled yet");
+    assert.strictEqual(shown.Verification, "not verified yet");
+  });
+
+  test("records outcomes until the entry is forgotten", () => {
+    let fired = 0;
+    explorer.onDidChangeTreeData(() => fired++);
+
+    explorer.setCompilation(token, false);
+    explorer.setVerification(token, {
+      ok: false,
+      cancelled: false,
+      goals: [
+        { goal: "a", status: "proved", detail: "" },
+        { goal: "b", status: "timeout", detail: "" },
+      ],
+    });
+    explorer.setVerification(token, { ok: false, cancelled: true, goals: [] });
+    assert.match(details(token).Compilation, /^failed at /);
+    assert.strictEqual(
+      details(token).Verification,
+      "1/2 goals proved, 1 timeout"
+    );
+    assert.strictEqual(details(vault).Compilation, "not compiled yet");
+
+    explorer.forget(token);
+    assert.strictEqual(details(token).Compilation, "not compiled yet");
+    assert.strictEqual(details(token).Verification, "not verified yet");
+    assert.strictEqual(fired, 3);
+  });
+});
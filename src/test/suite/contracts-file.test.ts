@@ -0,0 +1,179 @@
+import * as assert from "assert";
+import { contracts } from "../../contracts-file";
+import { utils } from "../../utils";
+
+suite("contracts.parse", () => {
+  const legacy = {
+    title: "token",
+    source: "/work/token.mligo",
+    onPath: "/work/.whylson/bin-contracts/token.tz",
+    entrypoint: "main",
+    flags: [],
+  };
+
+  test("migrates entries without target, named after their entrypoint", () => {
+    [
+      JSON.stringify([legacy]),
+      JSON.stringify({ version: 1, contracts: [legacy] }),
+    ]
+      .map(contracts.parse)
+      .forEach((result) => {
+        assert.strictEqual(result.migrated, true);
+        assert.strictEqual(result.error, undefined);
+        assert.deepStrictEqual(result.entries, [{ ...legacy, target: "main" }]);
+      });
+  });
+
+  test("reads current files as they are", () => {
+    const entries = [
+      utils.createEntry("/work/token.mligo", "/work/main.tz", "main"),
+      utils.createEntry(
+        "/work/token.mligo",
+        "/work/admin.tz",
+        "main",
+        [],
+        "admin"
+      ),
+    ];
+    const result = contracts.parse(
+      JSON.stringify(contracts.serialize(entries, []))
+    );
+
+    assert.strictEqual(result.migrated, false);
+    assert.deepStrictEqual(result.entries, entries);
+    assert.deepStrictEqual(result.invalid, []);
+  });
+
+  test("keeps invalid entries apart, the first target of a source winning", () => {
+    const main = utils.createEntry(
+      "/work/token.mligo",
+      "/work/main.tz",
+      "main"
+    );
+    const result = contracts.parse(
+      JSON.stringify({
+        version: 2,
+        contracts: [
+          main,
+          { ...main, onPath: "/work/other.tz" },
+          { ...main, target: "" },
+        ],
+      })
+    );
+
+    assert.deepStrictEqual(result.entries, [main]);
+    assert.deepStrictEqual(
+      result.invalid.map((i) => [i.index, i.problems.length]),
+      [
+        [1, 1],
+        [2, 1],
+      ]
+    );
+    assert.deepStrictEqual(
+      contracts.serialize(result.entries, result.invalid).contracts.length,
+      3
+    );
+  });
+
+  test("rejects unusable files", () => {
+    ["{", "42", '{"version":99,"contracts":[]}', '{"version":2}'].forEach(
+      (text) => {
+        const result = contracts.parse(text);
+        assert.ok(result.error, text);
+        assert.deepStrictEqual(result.entries, []);
+      }
+    );
+  });
+});
+
+suite("contracts.validateEntry", () => {
+  const entry = utils.createEntry("/work/token.mligo", "/work/main.tz", "main");
+
+  test("accepts entries as written by the extension", () => {
+    assert.deepStrictEqual(contracts.validateEntry(entry), []);
+  });
+
+  test("describes every problem of an entry", () => {
+    assert.deepStrictEqual(contracts.validateEntry([entry]), [
+      "entry must be an object",
+    ]);
+    assert.deepStrictEqual(
+      contracts.validateEntry({
+        ...entry,
+        title: "",
+        onPath: "/work/main.json",
+        entrypoint: "1main",
+        flags: "-m Token",
+        extra: true,
+      }),
+      [
+        "`title` must be a non empty string",
+        "`onPath` must end with `.tz`",
+        "`entrypoint` must conform to ligo's function nomenclature",
+        "`flags` must be an array of strings",
+        "unknown field `extra`",
+      ]
+    );
+  });
+
+  test("checks the names and expressions of storages and parameters", () => {
+    assert.deepStrictEqual(
+      contracts.validateEntry({
+        ...entry,
+        storages: JSON.parse('{ "initial": "0n", "bump.1": "1n" }'),
+        parameters: {},
+      }),
+      []
+    );
+    [
+      JSON.parse('{ "a b": "0n" }'),
+      JSON.parse('{ ".hidden": "0n" }'),
+      { initial: "" },
+      { initial: 0 },
+      ["0n"],
+      null,
+    ].forEach((storages) =>
+      assert.deepStrictEqual(
+        contracts.validateEntry({ ...entry, storages: storages }),
+        [
+          "`storages` must map names made of letters, digits, `_`, `.`, `'` and `-` to non empty strings",
+        ]
+      )
+    );
+  });
+});
+
+suite("contracts.expressions", () => {
+  const entry = {
+    ...utils.createEntry("/work/token.mligo", "/work/bin/main.tz", "main"),
+    parameters: { reset: "Reset" },
+    storages: JSON.parse('{ "initial": "0n", "bump.1": "1n" }'),
+  };
+
+  test("lists storages first, in the order of the entry", () => {
+    assert.deepStrictEqual(contracts.expressions(entry), [
+      { kind: "storage", name: "initial", expression: "0n" },
+      { kind: "storage", name: "bump.1", expression: "1n" },
+      { kind: "parameter", name: "reset", expression: "Reset" },
+    ]);
+    assert.deepStrictEqual(
+      contracts.expressions({
+        ...entry,
+        storages: undefined,
+        parameters: undefined,
+      }),
+      []
+    );
+  });
+
+  test("places values next to their contract", () => {
+    assert.strictEqual(
+      contracts.expressionPath(entry, "storage", "bump.1"),
+      "/work/bin/main.storage.bump.1.tz"
+    );
+    assert.strictEqual(
+      contracts.expressionPath(entry, "parameter", "reset"),
+      "/work/bin/main.parameter.reset.tz"
+    );
+  });
+});
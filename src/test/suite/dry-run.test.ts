@@ -0,0 +1,118 @@
+import * as assert from "assert";
+import { dryRun } from "../../dry-run";
+import { DryRunScenario } from "../../types";
+import { utils } from "../../utils";
+
+suite("dryRun.parse", () => {
+  const scenario: DryRunScenario = {
+    name: "increment",
+    parameter: "Increment 1",
+    storage: "0",
+  };
+
+  test("splits operations from storage at the top level comma", () => {
+    const result = dryRun.parse(
+      scenario,
+      true,
+      '( LIST_EMPTY() , ( "a,b" , { 1 ; 2 } ) )\n'
+    );
+    assert.strictEqual(result.status, "success");
+    assert.strictEqual(result.operations, "LIST_EMPTY()");
+    assert.strictEqual(result.storage, '( "a,b" , { 1 ; 2 } )');
+    assert.strictEqual(result.matches, undefined);
+    assert.strictEqual(dryRun.verdict(result), "DONE");
+  });
+
+  test("leaves values other than pairs whole as storage", () => {
+    const result = dryRun.parse(scenario, true, "42");
+    assert.strictEqual(result.operations, "");
+    assert.strictEqual(result.storage, "42");
+  });
+
+  test("compares storage to the expected one regardless of spacing", () => {
+    const run = (expected: string) =>
+      dryRun.parse({ ...scenario, expected }, true, "( [] , ( 1 , 2 ) )");
+    assert.strictEqual(run("(1, 2)").matches, true);
+    assert.strictEqual(dryRun.verdict(run("(1, 2)")), "PASSED");
+    assert.strictEqual(run("(2, 1)").matches, false);
+    assert.strictEqual(dryRun.verdict(run("(2, 1)")), "DIFFERS");
+  });
+
+  test("recognizes failing contracts in every ligo wording", () => {
+    [
+      'failwith("NOT_OWNER")',
+      'failed with: "NOT_OWNER"',
+      'An error occurred while evaluating an expression: "NOT_OWNER"',
+    ].forEach((output) => {
+      const result = dryRun.parse(scenario, false, output);
+      assert.strictEqual(result.status, "failure");
+      assert.strictEqual(result.failure, '"NOT_OWNER"');
+      assert.strictEqual(dryRun.verdict(result), "FAILWITH");
+    });
+  });
+
+  test("reports other failures of ligo as errors", () => {
+    const result = dryRun.parse(scenario, false, 'Variable "x" not found.\n');
+    assert.strictEqual(result.status, "error");
+    assert.strictEqual(result.failure, 'Variable "x" not found.');
+    assert.strictEqual(dryRun.verdict(result), "ERROR");
+  });
+});
+
+suite("dryRun.read", () => {
+  test("keeps well formed scenarios only", () => {
+    const valid = { name: "a", parameter: "Reset", storage: "0n" };
+    assert.deepStrictEqual(
+      dryRun.read(
+        JSON.stringify({
+          version: 1,
+          scenarios: {
+            first: [valid, { name: "b", parameter: 1, storage: "0n" }],
+            second: "none",
+          },
+        })
+      ),
+      { version: 1, scenarios: { first: [valid] } }
+    );
+  });
+
+  test("reads unusable files as empty", () => {
+    ["", "{", "[]", '{ "scenarios": null }'].forEach((text) =>
+      assert.deepStrictEqual(dryRun.read(text), {
+        version: dryRun.version,
+        scenarios: {},
+      })
+    );
+  });
+});
+
+suite("dryRun.args", () => {
+  test("keeps the flags of the entry that apply to dry runs", () => {
+    const entry = utils.createEntry(
+      "/work/token.mligo",
+      "/work/token.tz",
+      "main",
+      [
+        "-m",
+        "Token",
+        "--enable-michelson-typed-opt",
+        "--michelson-format",
+        "json",
+      ]
+    );
+    assert.deepStrictEqual(
+      dryRun.args(entry, { name: "a", parameter: "Reset", storage: "0n" }),
+      [
+        "run",
+        "dry-run",
+        "/work/token.mligo",
+        "Reset",
+        "0n",
+        "-e",
+        "main",
+        "-m",
+        "Token",
+      ]
+    );
+  });
+});
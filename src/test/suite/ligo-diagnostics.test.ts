@@ -0,0 +1,199 @@
+import * as assert from "assert";
+import * as vscode from "vscode";
+import { LigoDiagnostics } from "../../ligo-diagnostics";
+import { CompilationResult } from "../../types";
+import { utils } from "../../utils";
+import { problemPattern } from "../problem-patterns";
+import { DiagnosticSeverity, diagnostics } from "../vscode";
+
+suite("LigoDiagnostics.parse", () => {
+  const summarize = (output: string, failed: boolean) =>
+    [...LigoDiagnostics.parse(output, "/work/token.mligo", failed)].map(
+      ([file, diagnostics]) => [
+        file,
+        diagnostics.map(({ range: { start, end }, message, severity }) => [
+          [start.line, start.character, end.line, end.character],
+          message,
+          severity,
+        ]),
+      ]
+    );
+
+  test("reports located messages on their file, without code excerpts", () => {
+    assert.deepStrictEqual(
+      summarize(
+        [
+          'File "token.mligo", line 3, characters 4-9:',
+          "  2 |",
+          "  3 | let x = y",
+          "          ^^^^^",
+          "",
+          'Variable "y" not found.',
+          'File "/work/lib.mligo", line 7, character 2 to line 9, character 5:',
+          "Warning: unused variable",
+          '  "z".',
+        ].join("\n"),
+        true
+      ),
+      [
+        [
+          "/work/token.mligo",
+          [[[2, 4, 2, 9], 'Variable "y" not found.', DiagnosticSeverity.Error]],
+        ],
+        [
+          "/work/lib.mligo",
+          [
+            [
+              [6, 2, 8, 5],
+              'unused variable\n  "z".',
+              DiagnosticSeverity.Warning,
+            ],
+          ],
+        ],
+      ]
+    );
+  });
+
+  test("reports unlocated failures at the start of the source", () => {
+    assert.deepStrictEqual(summarize("Unknown syntax.", true), [
+      [
+        "/work/token.mligo",
+        [[[0, 0, 0, 0], "Unknown syntax.", DiagnosticSeverity.Error]],
+      ],
+    ]);
+    assert.deepStrictEqual(summarize("", true), [
+      [
+        "/work/token.mligo",
+        [
+          [
+            [0, 0, 0, 0],
+            "Compilation failed without error messages.",
+            DiagnosticSeverity.Error,
+          ],
+        ],
+      ],
+    ]);
+    assert.deepStrictEqual(summarize("Compiled in 2s.", false), []);
+  });
+});
+
+suite("LigoDiagnostics.condense", () => {
+  const output = [
+    'File "token.mligo", line 3, characters 4-9:',
+    "  2 |",
+    "  3 | let x = y",
+    "          ^^^^^",
+    "",
+    'Variable "y" not found.',
+    'File "/work/lib.mligo", line 7, character 2 to line 9, character 5:',
+    "Warning: unused variable",
+    '  "z".',
+  ].join("\n");
+  const lines = LigoDiagnostics.condense(output, "/work/token.mligo", true);
+
+  test("writes a location and a single message line per message", () => {
+    assert.deepStrictEqual(lines, [
+      'File "/work/token.mligo", line 3, character 5 to line 3, character 10:',
+      'Error: Variable "y" not found.',
+      'File "/work/lib.mligo", line 7, character 3 to line 9, character 6:',
+      'Warning: unused variable "z".',
+    ]);
+  });
+
+  test("is read by the $ligo problem matcher at the same range", () => {
+    const [header, message] = problemPattern("whylson-location");
+    const found = lines.flatMap((line, i) => {
+      const m = header.regexp.exec(line);
+      const n = m && message.regexp.exec(lines[i + 1]);
+      return m && n
+        ? [
+            [
+              m[header.file!],
+              m[header.line!],
+              m[header.column!],
+              m[header.endLine!],
+              m[header.endColumn!],
+              n[message.severity!],
+            ],
+          ]
+        : [];
+    });
+
+    // Columns of problem matchers count from 1, ranges of diagnostics from 0
+    const parsed = [
+      ...LigoDiagnostics.parse(output, "/work/token.mligo", true),
+    ].flatMap(([file, diagnostics]) =>
+      diagnostics.map(({ range: { start, end } }) => [
+        file,
+        `${start.line + 1}`,
+        `${start.character + 1}`,
+        `${end.line + 1}`,
+        `${end.character + 1}`,
+      ])
+    );
+    assert.deepStrictEqual(
+      found.map((f) => f.slice(0, 5)),
+      parsed
+    );
+    assert.deepStrictEqual(
+      found.map((f) => f[5]),
+      ["Error", "Warning"]
+    );
+  });
+});
+
+suite("LigoDiagnostics", () => {
+  const source = "/work/token.mligo";
+  const main = utils.createEntry(source, "/work/main.tz", "main");
+  const admin = utils.createEntry(source, "/work/admin.tz", "admin");
+  const result = (ok: boolean, messages: string): CompilationResult => ({
+    ok: ok,
+    disp: false,
+    content: "",
+    messages: messages,
+  });
+  const messages = (file: string) =>
+    (diagnostics.get(file) || []).map((d) => d.message);
+  const failure = [
+    'File "token.mligo", line 3, characters 4-9:',
+    'Variable "y" not found.',
+  ].join("\n");
+
+  let ligo: LigoDiagnostics;
+  setup(() => {
+    ligo = new LigoDiagnostics({
+      subscriptions: [],
+    } as unknown as vscode.ExtensionContext);
+  });
+  teardown(() => diagnostics.clear());
+
+  test("keeps the diagnostics of other targets of the same source", () => {
+    ligo.publish(main, result(false, failure));
+    ligo.publish(admin, result(true, ""));
+    assert.deepStrictEqual(messages(source), ['Variable "y" not found.']);
+
+    ligo.publish(admin, result(false, failure));
+    ligo.publish(main, result(true, ""));
+    assert.deepStrictEqual(messages(source), ['Variable "y" not found.']);
+
+    ligo.clear(main);
+    assert.deepStrictEqual(messages(source), ['Variable "y" not found.']);
+    ligo.clear(admin);
+    assert.strictEqual(diagnostics.has(source), false);
+  });
+
+  test("shows a message found by several targets once", () => {
+    ligo.publish(main, result(false, failure));
+    ligo.publish(
+      admin,
+      result(
+        false,
+        `${failure}\nFile "token.mligo", line 5, characters 4-5:\nWarning: unused variable`
+      )
+    );
+    assert.deepStrictEqual(messages(source), [
+      'Variable "y" not found.',
+      "unused variable",
+    ]);
+  });
+});
@@ -0,0 +1,88 @@
+import * as assert from "assert";
+import { contracts } from "../../contracts-file";
+import { ligoSyntax } from "../../ligo-syntax";
+import { utils } from "../../utils";
+import { document } from "../document";
+
+suite("ligoSyntax.entrypoints", () => {
+  test("offers modules holding @entry functions along with the functions", () => {
+    const doc = document(
+      [
+        "module Token = struct",
+        "  [@entry]",
+        "  let transfer (p : nat) (s : storage) : operation list * storage = [], s",
+        "  let helper (x : nat) = x",
+        "end",
+        "",
+        "let main (p, s : parameter * storage) : operation list * storage = [], s",
+      ].join("\n")
+    );
+
+    assert.deepStrictEqual(
+      ligoSyntax.entrypoints(doc).map((c) => [c.reason, c.name, c.module]),
+      [
+        ["module", "Token", "Token"],
+        ["attribute", "transfer", "Token"],
+        ["signature", "main", undefined],
+      ]
+    );
+  });
+
+  test("leaves out modules without @entry functions of their own", () => {
+    const doc = document(
+      [
+        "module Outer = struct",
+        "  module Inner = struct",
+        "    [@entry]",
+        "    let go (p : unit) (s : int) : operation list * int = [], s",
+        "  end",
+        "end",
+      ].join("\n")
+    );
+
+    assert.deepStrictEqual(
+      ligoSyntax.entrypoints(doc).map((c) => [c.reason, c.name, c.module]),
+      [
+        ["module", "Inner", "Outer.Inner"],
+        ["attribute", "go", "Outer.Inner"],
+      ]
+    );
+  });
+});
+
+suite("entrypoint arguments", () => {
+  const entry = utils.createEntry(
+    "/work/token.mligo",
+    "/work/token.tz",
+    "",
+    ["-m", "Token"],
+    "Token"
+  );
+
+  test("modules are compiled without -e", () => {
+    assert.deepStrictEqual(utils.compileArgs(entry.source, entry), [
+      "compile",
+      "contract",
+      "/work/token.mligo",
+      "-o",
+      "/work/token.tz",
+      "-m",
+      "Token",
+    ]);
+    assert.strictEqual(contracts.entrypointLabel(entry), "module Token");
+  });
+
+  test("functions are compiled with -e", () => {
+    assert.deepStrictEqual(
+      contracts.entrypointArgs({ ...entry, entrypoint: "main" }),
+      ["-e", "main"]
+    );
+  });
+
+  test("empty entrypoints require a module", () => {
+    assert.deepStrictEqual(contracts.validateEntry(entry), []);
+    assert.deepStrictEqual(contracts.validateEntry({ ...entry, flags: [] }), [
+      "`entrypoint` may only be empty when `-m` is in `flags`",
+    ]);
+  });
+});
@@ -0,0 +1,97 @@
+import * as assert from "assert";
+import * as vscode from "vscode";
+import { michelsonSyntax } from "../../michelson-syntax";
+import { MichelsonSymbol } from "../../types";
+import { document } from "../document";
+
+suite("michelsonSyntax", () => {
+  const contract = document(
+    [
+      "# Compiled from token.mligo",
+      "# with ligo 1.7.0",
+      "{ parameter (or (nat %bump) (unit %reset)) ;",
+      "  storage nat ;",
+      "  code { UNPAIR ;",
+      "         LAMBDA nat nat { PUSH nat 1 ; ADD } ;",
+      "         SWAP ; EXEC ; NIL operation ; PAIR } ;",
+      '  view "total" unit nat { CDR } }',
+    ].join("\n"),
+    "michelson",
+    "/work/token.tz"
+  );
+
+  // Names, kinds, details and lines of symbols, nested as found
+  const outline = (
+    symbols: MichelsonSymbol[]
+  ): [string, string, string, number[], unknown][] =>
+    symbols.map((s) => [
+      s.name,
+      s.kind,
+      s.detail,
+      [s.range.start.line, s.range.end.line],
+      outline(s.children),
+    ]);
+
+  test("tokenizes code without comments or annotations", () => {
+    assert.deepStrictEqual(
+      michelsonSyntax
+        .tokenize('PUSH @x nat 1 ; # one\n/* two */ DROP %f "a;\\"b"')
+        .map((t) => t.text),
+      ["PUSH", "nat", "1", ";", "DROP", '"a;\\"b"']
+    );
+  });
+
+  test("pairs braces, leaving unbalanced ones out", () => {
+    const tokens = michelsonSyntax.tokenize("{ { } } }");
+    assert.deepStrictEqual(
+      [...michelsonSyntax.braces(tokens)],
+      [
+        [1, 2],
+        [0, 3],
+      ]
+    );
+  });
+
+  test("outlines sections and views, lambdas nested in them", () => {
+    assert.deepStrictEqual(outline(michelsonSyntax.symbols(contract)), [
+      ["parameter", "section", "(or (nat %bump) (unit %reset))", [2, 2], []],
+      ["storage", "section", "nat", [3, 3], []],
+      [
+        "code",
+        "section",
+        "",
+        [4, 6],
+        [["LAMBDA", "lambda", "nat nat", [5, 5], []]],
+      ],
+      ["total", "view", "unit nat", [7, 7], []],
+    ]);
+  });
+
+  test("folds blocks spanning several lines, sections and comment headers", () => {
+    assert.deepStrictEqual(
+      michelsonSyntax
+        .foldingRanges(contract)
+        .map((r) => [r.start, r.end, r.kind])
+        .sort(([a], [b]) => (a as number) - (b as number)),
+      [
+        [0, 1, vscode.FoldingRangeKind.Comment],
+        [2, 7, undefined],
+        [4, 6, undefined],
+      ]
+    );
+  });
+
+  test("explains macros only", () => {
+    assert.strictEqual(
+      michelsonSyntax.macro("CMPLE"),
+      "Macro for `COMPARE ; LE`."
+    );
+    assert.strictEqual(
+      michelsonSyntax.macro("CADR"),
+      "Macro accessing nested pairs, `CAR ; CDR`."
+    );
+    assert.strictEqual(michelsonSyntax.macro("DUUUP"), "Macro for `DUP 3`.");
+    assert.strictEqual(michelsonSyntax.macro("CAR"), undefined);
+    assert.strictEqual(michelsonSyntax.macro("COMPARE"), undefined);
+  });
+});
@@ -0,0 +1,120 @@
+import * as assert from "assert";
+import { michelsonTypes } from "../../michelson-typechecker";
+
+suite("michelsonTypes.check", () => {
+  // Problems as text and position, stacks as printed
+  const check = (text: string) => {
+    const { hints, problems } = michelsonTypes.check(text);
+    return {
+      problems: problems.map((p) => [
+        text.slice(p.start, p.end),
+        p.message,
+        p.unsupported,
+      ]),
+      stacks: hints.map((h) => michelsonTypes.showStack(h.stack)),
+    };
+  };
+
+  test("types well typed contracts and their views", () => {
+    assert.deepStrictEqual(
+      check(
+        [
+          "{ parameter nat ; storage nat ;",
+          "  code { UNPAIR ; ADD ; NIL operation ; PAIR } ;",
+          '  view "twice" unit nat { CDR ; DUP ; ADD } }',
+        ].join("\n")
+      ),
+      {
+        problems: [],
+        stacks: [
+          "[ nat : nat ]",
+          "[ nat ]",
+          "[ list operation : nat ]",
+          "[ pair (list operation) nat ]",
+          "[ nat ]",
+          "[ nat : nat ]",
+          "[ nat ]",
+        ],
+      }
+    );
+  });
+
+  test("leaves out compiled expressions following the contract", () => {
+    assert.deepStrictEqual(
+      check(
+        [
+          "{ parameter nat ; storage nat ; code { CAR ; NIL operation ; PAIR } }",
+          "# ----- storage initial -----",
+          "0",
+          "# ----- parameter bump -----",
+          "(Pair 1 2)",
+        ].join("\n")
+      ).problems,
+      []
+    );
+  });
+
+  test("stops at the first ill typed instruction", () => {
+    assert.deepStrictEqual(
+      check(
+        "{ parameter nat ; storage string ; code { UNPAIR ; ADD ; NIL operation ; PAIR } }"
+      ),
+      {
+        problems: [
+          [
+            "ADD",
+            "ADD does not accept [ nat : string ] on top of the stack.",
+            false,
+          ],
+        ],
+        stacks: ["[ nat : string ]"],
+      }
+    );
+    assert.deepStrictEqual(
+      check(
+        "{ parameter nat ; storage nat ; code { FAILWITH ; NIL operation } }"
+      ).problems,
+      [["NIL operation", "Unreachable code after a failure.", false]]
+    );
+  });
+
+  test("tells unsupported instructions apart from type errors", () => {
+    assert.deepStrictEqual(
+      check("{ parameter nat ; storage nat ; code { CAR ; FOO ; PAIR } }")
+        .problems,
+      [["FOO", "Unsupported instruction FOO.", true]]
+    );
+  });
+
+  test("reports malformed contracts", () => {
+    assert.deepStrictEqual(
+      check(
+        "{ parameter nat ; storage nat ; code { CAR ; NIL operation ; PAIR }"
+      ).problems,
+      [["{", "Unclosed `{`.", false]]
+    );
+    assert.deepStrictEqual(
+      check("{ parameter nat ; code { CAR ; NIL operation ; PAIR } }").problems,
+      [
+        [
+          "code { CAR ; NIL operation ; PAIR }",
+          "Missing parameter or storage section.",
+          false,
+        ],
+      ]
+    );
+  });
+
+  test("reports text holding no contract", () => {
+    const missing =
+      "No contract found, expected parameter, storage and code sections.";
+    assert.deepStrictEqual(check("hello world } {"), {
+      problems: [["hello", missing, false]],
+      stacks: [],
+    });
+    assert.deepStrictEqual(check("# Compilation failed\n# Syntax error"), {
+      problems: [["", missing, false]],
+      stacks: [],
+    });
+  });
+});
@@ -0,0 +1,184 @@
+import * as assert from "assert";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import * as vscode from "vscode";
+import { annotations } from "../../annotations";
+import { Logger } from "../../logger";
+import { proofs } from "../../proofs";
+import { EntryProofs, GoalResult } from "../../types";
+import { utils } from "../../utils";
+import { WhylsonFolder } from "../../whylson-folder";
+import { document } from "../document";
+
+const goal = (name: string, status: GoalResult["status"]): GoalResult => ({
+  goal: name,
+  status: status,
+  detail: "",
+});
+
+suite("proofs", () => {
+  const doc = document(
+    [
+      '[@comment: "requires p > 0"]',
+      "let f (p : int) = p",
+      "",
+      '[@comment: "ensures result >= 0"]',
+      "let g (p : int) = p",
+    ].join("\n")
+  );
+  const found = annotations.find(doc);
+
+  test("traces goals by text, then by line, then in order", () => {
+    const tracing = proofs.trace(found, [
+      goal("VC requires p > 0", "proved"),
+      { goal: "VC for g", status: "failed", detail: "line 4" },
+    ]);
+    assert.deepStrictEqual(
+      tracing.traced.map((goals) => goals.map((g) => g.goal)),
+      [["VC requires p > 0"], ["VC for g"]]
+    );
+    assert.deepStrictEqual(
+      proofs.attach(found, tracing).map((p) => [p.line, p.status]),
+      [
+        [0, "proved"],
+        [3, "failed"],
+      ]
+    );
+  });
+
+  test("reuses cached goals and leaves edited annotations pending", () => {
+    const first = proofs.trace(found, [
+      goal("VC requires p > 0", "proved"),
+      goal("VC ensures result >= 0", "failed"),
+      goal("VC for storage", "proved"),
+    ]);
+    const record = proofs.toCache(found, first, false, undefined);
+    assert.deepStrictEqual(proofs.fromCache(record, found).pending, []);
+
+    const edited = annotations.find(
+      document(doc.getText().replace("result >= 0", "result > 0"))
+    );
+    const cached = proofs.fromCache(record, edited);
+    assert.deepStrictEqual(cached.pending, [1]);
+    assert.deepStrictEqual(
+      cached.tracing.traced.map((goals) => goals.map((g) => g.goal)),
+      [["VC requires p > 0"], []]
+    );
+
+    // Whylson only saw the edited annotation
+    const tracing = proofs.merge(
+      cached,
+      proofs.trace([edited[1]], [goal("VC ensures result > 0", "proved")])
+    );
+    assert.deepStrictEqual(
+      proofs.goals(tracing).map((g) => g.goal),
+      ["VC requires p > 0", "VC ensures result > 0"]
+    );
+    assert.ok(proofs.proved(proofs.goals(tracing)));
+
+    const merged = proofs.toCache(edited, tracing, true, record);
+    assert.deepStrictEqual(proofs.fromCache(merged, found).pending, []);
+    assert.deepStrictEqual(proofs.fromCache(merged, edited).pending, []);
+    assert.deepStrictEqual(proofs.fromCache(undefined, edited).pending, [0, 1]);
+  });
+
+  test("caches annotations without goals only from proved sessions", () => {
+    const tracing = proofs.trace(found, [goal("VC requires p > 0", "failed")]);
+    assert.deepStrictEqual(
+      proofs.fromCache(proofs.toCache(found, tracing, false, undefined), found)
+        .pending,
+      [1]
+    );
+    assert.deepStrictEqual(
+      proofs.fromCache(proofs.toCache(found, tracing, true, undefined), found)
+        .pending,
+      []
+    );
+  });
+
+  test("blanks annotations out, keeping locations", () => {
+    const text = annotations.strip(doc, [found[1]]);
+    assert.strictEqual(text.length, doc.getText().length);
+    assert.deepStrictEqual(
+      annotations.find(document(text)).map((a) => a.content),
+      ["requires p > 0"]
+    );
+    assert.strictEqual(text.split("\n")[4], "let g (p : int) = p");
+  });
+
+  test("marks edited annotations as stale", () => {
+    const stored: EntryProofs = {
+      verifiedAt: "2024-01-01T00:00:00.000Z",
+      annotations: [
+        { content: "requires p > 0", line: 0, status: "proved", goals: [] },
+        { content: "ensures result > 0", line: 3, status: "failed", goals: [] },
+      ],
+    };
+    assert.deepStrictEqual(
+      proofs.resolve(found, [stored]).map((r) => r?.state),
+      ["proved", "stale"]
+    );
+    assert.deepStrictEqual(
+      proofs.resolve(found, []).map((r) => r?.state),
+      [undefined, undefined]
+    );
+  });
+
+  test("leaves out malformed results", () => {
+    const file = proofs.read(
+      '{"version":1,"proofs":{' +
+        '"/a#main":{"verifiedAt":"x","annotations":[]},' +
+        '"/b#main":{"verifiedAt":1}}}'
+    );
+    assert.deepStrictEqual(Object.keys(file.proofs), ["/a#main"]);
+    assert.deepStrictEqual(proofs.read("not json").proofs, {});
+  });
+});
+
+suite("WhylsonFolder proofs", () => {
+  let dir: string;
+  let folder: WhylsonFolder;
+
+  setup(() => {
+    dir = mkdtempSync(join(tmpdir(), "whylson-folder-"));
+    folder = new WhylsonFolder(
+      { uri: vscode.Uri.file(dir), name: "work", index: 0 },
+      new Logger({
+        extensionMode: vscode.ExtensionMode.Test,
+      } as vscode.ExtensionContext)
+    );
+  });
+
+  teardown(() => rmSync(dir, { recursive: true, force: true }));
+
+  test("keeps the results of sessions ending at once", async () => {
+    const entries = ["main", "admin", "burn"].map((target) =>
+      utils.createEntry(
+        join(dir, "token.mligo"),
+        join(dir, `${target}.tz`),
+        target
+      )
+    );
+    const results = (status: GoalResult["status"]): EntryProofs => ({
+      verifiedAt: "2024-01-01T00:00:00.000Z",
+      annotations: [{ content: "x", line: 0, status: status, goals: [] }],
+    });
+
+    const saved = await Promise.all([
+      folder.saveProofs(entries[0], results("proved")),
+      folder.saveProofs(entries[1], results("failed")),
+      folder.saveProofs(entries[2], undefined),
+      folder.saveProofs(entries[2], results("timeout")),
+    ]);
+    assert.deepStrictEqual(saved, [true, true, true, true]);
+    assert.deepStrictEqual(
+      await Promise.all(
+        entries.map(
+          async (e) => (await folder.getProofs(e))?.annotations[0].status
+        )
+      ),
+      ["proved", "failed", "timeout"]
+    );
+  });
+});
@@ -0,0 +1,84 @@
+import * as assert from "assert";
+import { mkdirSync, readFileSync, rmSync, writeFileSync } from "fs";
+import { join } from "path";
+import { ContractEntryScheme } from "../../types";
+import { utils } from "../../utils";
+import { WhylsonFolder } from "../../whylson-folder";
+import { whylsonFolder } from "../folder";
+
+suite("WhylsonFolder snapshots", () => {
+  let folder: WhylsonFolder;
+  let entry: ContractEntryScheme;
+  const path = (...segments: string[]) =>
+    join(folder.folder.uri.fsPath, ...segments);
+
+  // Snapshots are named after their time, to the millisecond
+  const tick = () => new Promise((resolve) => setTimeout(resolve, 5));
+
+  setup(async () => {
+    folder = whylsonFolder();
+    await folder.init();
+    entry = utils.createEntry(path("token.mligo"), path("main.tz"), "main");
+    writeFileSync(entry.source, "let main = ...");
+  });
+
+  teardown(() => {
+    folder.dispose();
+    rmSync(folder.folder.uri.fsPath, { recursive: true, force: true });
+  });
+
+  test("keeps builds under the source and target of their entry", async () => {
+    const snapshot = await folder.snapshot(entry, "{ CAR }", 3);
+
+    assert.ok(snapshot);
+    assert.strictEqual(
+      join(snapshot.uri.fsPath, ".."),
+      path(WhylsonFolder.hspath, "token.mligo", "main")
+    );
+    assert.strictEqual(readFileSync(snapshot.uri.fsPath, "utf-8"), "{ CAR }");
+    assert.deepStrictEqual(await folder.getSnapshots(entry), [snapshot]);
+  });
+
+  test("skips builds identical to the latest one, source included", async () => {
+    const first = await folder.snapshot(entry, "{ CAR }", 3);
+    await tick();
+    assert.strictEqual(await folder.snapshot(entry, "{ CAR }", 3), undefined);
+
+    writeFileSync(entry.source, "let main = ... // edited");
+    const second = await folder.snapshot(entry, "{ CAR }", 3);
+    assert.ok(second);
+    assert.notStrictEqual(second.sourceHash, first?.sourceHash);
+  });
+
+  test("lists snapshots newest first, the oldest dropped past the limit", async () => {
+    const taken = [];
+    for (const code of ["{ CAR }", "{ CDR }", "{ UNIT }"]) {
+      taken.push(await folder.snapshot(entry, code, 2));
+      await tick();
+    }
+
+    assert.deepStrictEqual(await folder.getSnapshots(entry), [
+      taken[2],
+      taken[1],
+    ]);
+  });
+
+  test("leaves out files not named by the extension", async () => {
+    const dir = path(WhylsonFolder.hspath, "token.mligo", "main");
+    mkdirSync(join(dir, "nested.tz"), { recursive: true });
+    writeFileSync(join(dir, "notes.tz"), "{}");
+
+    assert.deepStrictEqual(await folder.getSnapshots(entry), []);
+  });
+
+  test("removes every snapshot of an entry only", async () => {
+    const admin = { ...entry, target: "admin" };
+    await folder.snapshot(entry, "{ CAR }", 3);
+    const kept = await folder.snapshot(admin, "{ CDR }", 3);
+
+    assert.strictEqual(await folder.removeSnapshots(entry), true);
+    assert.deepStrictEqual(await folder.getSnapshots(entry), []);
+    assert.deepStrictEqual(await folder.getSnapshots(admin), [kept]);
+    assert.strictEqual(await folder.removeSnapshots(entry), true);
+  });
+});
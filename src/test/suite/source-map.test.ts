@@ -0,0 +1,72 @@
+import * as assert from "assert";
+import { sourceMap } from "../../source-map";
+import * as vscode from "vscode";
+
+suite("sourceMap", () => {
+  const compiled = [
+    "{ parameter unit ;",
+    '  code { CDR /* File "token.mligo", line 2, characters 4-9 */ ;',
+    '         /* File "token.mligo", line 2, characters 0-20 */',
+    '         /* File "/work/lib.mligo", line 3, character 2 to line 4, character 5 */',
+    "         NIL operation ; PAIR } }",
+  ].join("\n");
+  const { code, mappings } = sourceMap.extract(compiled, "/work/token.mligo");
+
+  // Ranges as [start line, start character, end line, end character]
+  const bounds = (r: vscode.Range) => [
+    r.start.line,
+    r.start.character,
+    r.end.line,
+    r.end.character,
+  ];
+
+  test("takes location comments out of the michelson", () => {
+    assert.strictEqual(
+      code,
+      [
+        "{ parameter unit ;",
+        "  code { CDR ;",
+        "         NIL operation ; PAIR } }",
+      ].join("\n")
+    );
+  });
+
+  test("maps ligo ranges to the instruction of their comment", () => {
+    assert.deepStrictEqual(
+      mappings.map((m) => [m.file, bounds(m.ligo), bounds(m.michelson)]),
+      [
+        ["/work/token.mligo", [1, 4, 1, 9], [1, 9, 1, 12]],
+        // Comments on lines of their own belong to the next instruction
+        ["/work/token.mligo", [1, 0, 1, 20], [2, 9, 2, 22]],
+        ["/work/lib.mligo", [2, 2, 3, 5], [2, 9, 2, 22]],
+      ]
+    );
+  });
+
+  test("finds the narrowest mappings at a position on either side", () => {
+    assert.deepStrictEqual(
+      sourceMap
+        .fromLigo(mappings, "/work/token.mligo", new vscode.Position(1, 5))
+        .map((m) => bounds(m.michelson)),
+      [[1, 9, 1, 12]]
+    );
+    assert.deepStrictEqual(
+      sourceMap.fromLigo(
+        mappings,
+        "/work/other.mligo",
+        new vscode.Position(1, 5)
+      ),
+      []
+    );
+    assert.deepStrictEqual(
+      bounds(
+        sourceMap.fromMichelson(mappings, new vscode.Position(2, 12))!.ligo
+      ),
+      [1, 0, 1, 20]
+    );
+    assert.strictEqual(
+      sourceMap.fromMichelson(mappings, new vscode.Position(0, 3)),
+      undefined
+    );
+  });
+});
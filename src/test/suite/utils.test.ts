@@ -0,0 +1,64 @@
+import * as assert from "assert";
+import * as vscode from "vscode";
+import { utils } from "../../utils";
+
+suite("utils.pool", () => {
+  // Resolves after some milliseconds
+  const wait = (ms: number) =>
+    new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+  test("keeps results in order of the items", async () => {
+    assert.deepStrictEqual(
+      await utils.pool([30, 10, 20], 3, async (ms) => {
+        await wait(ms);
+        return ms * 2;
+      }),
+      [60, 20, 40]
+    );
+    assert.deepStrictEqual(await utils.pool([], 4, async () => 1), []);
+  });
+
+  test("runs at most limit tasks at once, starting them in order", async () => {
+    const started: number[] = [];
+    let running = 0;
+    let most = 0;
+
+    await utils.pool([1, 2, 3, 4, 5], 2, async (item) => {
+      started.push(item);
+      most = Math.max(most, ++running);
+      await wait(10);
+      running--;
+    });
+    assert.deepStrictEqual(started, [1, 2, 3, 4, 5]);
+    assert.strictEqual(most, 2);
+  });
+
+  test("runs one task at a time for limits below one", async () => {
+    let running = 0;
+    let most = 0;
+
+    await utils.pool([1, 2, 3], 0, async () => {
+      most = Math.max(most, ++running);
+      await wait(5);
+      running--;
+    });
+    assert.strictEqual(most, 1);
+  });
+
+  test("skips items not started once cancelled", async () => {
+    const source = new vscode.CancellationTokenSource();
+    const results = await utils.pool(
+      [1, 2, 3, 4],
+      2,
+      async (item) => {
+        if (item === 2) {
+          source.cancel();
+        }
+        await wait(5);
+        return item;
+      },
+      source.token
+    );
+    assert.deepStrictEqual(results, [1, 2, undefined, undefined]);
+  });
+});
@@ -0,0 +1,218 @@
+import * as assert from "assert";
+import { existsSync, mkdirSync, readFileSync, rmSync, writeFileSync } from "fs";
+import { join } from "path";
+import * as vscode from "vscode";
+import { utils } from "../../utils";
+import { WhylsonFolder } from "../../whylson-folder";
+import { whylsonFolder } from "../folder";
+import { shown } from "../vscode";
+
+suite("WhylsonFolder", () => {
+  let folders: WhylsonFolder[];
+  const path = (folder: WhylsonFolder, ...segments: string[]) =>
+    join(folder.folder.uri.fsPath, ...segments);
+
+  setup(() => (folders = []));
+
+  teardown(() =>
+    folders.forEach((f) => {
+      f.dispose();
+      rmSync(f.folder.uri.fsPath, { recursive: true, force: true });
+    })
+  );
+
+  // A new folder, removed after the test
+  const create = (name?: string) => {
+    const folder = whylsonFolder(name);
+    folders.push(folder);
+    return folder;
+  };
+
+  test("creates its .whylson folder on first use", async () => {
+    const folder = create();
+    assert.strictEqual(await folder.init(), true);
+
+    assert.ok(existsSync(path(folder, WhylsonFolder.cbpath)));
+    assert.deepStrictEqual(
+      JSON.parse(readFileSync(path(folder, WhylsonFolder.cjpath), "utf-8")),
+      { version: 2, contracts: [] }
+    );
+  });
+
+  test("writes contracts.json to be read and edited by hand", async () => {
+    const folder = create();
+    await folder.init();
+    const entry = utils.createEntry(
+      path(folder, "token.mligo"),
+      path(folder, "main.tz"),
+      "main"
+    );
+    await folder.addContractEntry(entry);
+
+    assert.strictEqual(
+      readFileSync(path(folder, WhylsonFolder.cjpath), "utf-8"),
+      JSON.stringify({ version: 2, contracts: [entry] }, null, 2)
+    );
+  });
+
+  test("keeps the entries of every workspace folder apart", async () => {
+    const [a, b] = [create("a"), create("b")];
+    await Promise.all([a.init(), b.init()]);
+    const source = path(a, "token.mligo");
+    const entry = utils.createEntry(source, path(a, "main.tz"), "main");
+
+    assert.ok(await a.addContractEntry(entry));
+    assert.deepStrictEqual(a.getContractEntries(vscode.Uri.file(source)), [
+      entry,
+    ]);
+    assert.deepStrictEqual(b.entries, []);
+
+    // Entries are read back from the folder's own contracts.json
+    const reloaded = whylsonFolder("a", a.folder.uri.fsPath);
+    await reloaded.init();
+    assert.deepStrictEqual(reloaded.entries, [entry]);
+  });
+
+  test("maps sources to contracts through the output path template", () => {
+    const folder = create();
+    const source = path(folder, "src", "token.mligo");
+    const bin = (...segments: string[]) =>
+      path(folder, WhylsonFolder.cbpath, ...segments);
+
+    assert.strictEqual(
+      folder.ligoToMichelson(source, "main", WhylsonFolder.defaultTemplate),
+      bin("src", "token.mligo", "main.tz")
+    );
+    assert.strictEqual(
+      folder.ligoToMichelson(source, "admin", "${baseName}-${target}.tz"),
+      bin("token-admin.tz")
+    );
+    ["${missing}.tz", "${target}.json", "../${target}.tz"].forEach((template) =>
+      assert.strictEqual(
+        folder.ligoToMichelson(source, "main", template),
+        undefined
+      )
+    );
+  });
+
+  test("falls back to the default layout when a template collides", async () => {
+    const folder = create();
+    await folder.init();
+    const source = path(folder, "token.mligo");
+    const template = "${baseName}.tz";
+    await folder.addContractEntry(
+      utils.createEntry(
+        source,
+        folder.michelsonPath(source, "main", template)!,
+        "main"
+      )
+    );
+
+    assert.strictEqual(
+      folder.michelsonPath(source, "admin", template),
+      path(folder, WhylsonFolder.cbpath, "token.mligo", "admin.tz")
+    );
+    assert.strictEqual(
+      folder.michelsonPath(source, "main", template),
+      path(folder, WhylsonFolder.cbpath, "token.tz")
+    );
+  });
+
+  test("moves contracts of earlier versions to the default layout", async () => {
+    const folder = create();
+    const flat = path(folder, WhylsonFolder.cbpath, "token.tz");
+    mkdirSync(path(folder, WhylsonFolder.cbpath), { recursive: true });
+    writeFileSync(flat, "code");
+    writeFileSync(
+      path(folder, WhylsonFolder.cjpath),
+      JSON.stringify([
+        {
+          title: "token",
+          source: path(folder, "token.mligo"),
+          onPath: flat,
+          entrypoint: "main",
+          flags: [],
+        },
+      ])
+    );
+    await folder.init();
+    const moved = path(folder, WhylsonFolder.cbpath, "token.mligo", "main.tz");
+
+    assert.strictEqual(
+      await folder.relocateContracts(WhylsonFolder.defaultTemplate, (entry) =>
+        folder.isFlatLayout(entry)
+      ),
+      1
+    );
+    assert.strictEqual(readFileSync(moved, "utf-8"), "code");
+    assert.strictEqual(existsSync(flat), false);
+    assert.deepStrictEqual(
+      JSON.parse(readFileSync(path(folder, WhylsonFolder.cjpath), "utf-8")),
+      {
+        version: 2,
+        contracts: [{ ...folder.entries[0], onPath: moved }],
+      }
+    );
+    assert.strictEqual(folder.entries[0].target, "main");
+  });
+
+  test("keeps the path of contracts that cannot be moved", async () => {
+    const folder = create();
+    await folder.init();
+    const onPath = path(folder, "main.tz");
+    const entry = utils.createEntry(
+      path(folder, "token.mligo"),
+      onPath,
+      "main"
+    );
+    writeFileSync(onPath, "code");
+    await folder.addContractEntry(entry);
+
+    // A directory in the way of the new path
+    const blocked = path(
+      folder,
+      WhylsonFolder.cbpath,
+      "token.mligo",
+      "main.tz"
+    );
+    mkdirSync(join(blocked, "taken"), { recursive: true });
+    shown.length = 0;
+
+    assert.strictEqual(
+      await folder.relocateContracts(WhylsonFolder.defaultTemplate),
+      0
+    );
+    assert.deepStrictEqual(folder.entries, [entry]);
+    assert.strictEqual(readFileSync(onPath, "utf-8"), "code");
+    assert.deepStrictEqual(shown, [
+      "Unable to move the Michelson contract of token (main), kept at its previous path.",
+    ]);
+  });
+
+  test("queues writes of scenarios, for entries saved at once to be kept", async () => {
+    const folder = create();
+    await folder.init();
+    const source = path(folder, "token.mligo");
+    const [main, admin] = ["main", "admin"].map((target) =>
+      utils.createEntry(source, path(folder, `${target}.tz`), target)
+    );
+    const scenario = { name: "reset", parameter: "Reset", storage: "0n" };
+
+    assert.deepStrictEqual(
+      await Promise.all([
+        folder.saveScenarios(main, [scenario]),
+        folder.saveScenarios(admin, [scenario]),
+      ]),
+      [true, true]
+    );
+    assert.deepStrictEqual(await folder.getScenarios(main), [scenario]);
+    assert.deepStrictEqual(await folder.getScenarios(admin), [scenario]);
+
+    await folder.saveScenarios(main, []);
+    assert.deepStrictEqual(await folder.getScenarios(main), []);
+    assert.match(
+      readFileSync(path(folder, WhylsonFolder.scpath), "utf-8"),
+      /^{\n {2}"version": 1,/
+    );
+  });
+});
@@ -0,0 +1,188 @@
+import * as assert from "assert";
+import { existsSync, mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { delimiter, join } from "path";
+import * as vscode from "vscode";
+import { Logger } from "../../logger";
+import { Maybe } from "../../types";
+import { utils, verifiers } from "../../utils";
+import { WhylsonSession } from "../../whylson-session";
+import { problemPattern } from "../problem-patterns";
+import { executable } from "../stub";
+import { output } from "../vscode";
+
+suite("WhylsonSession", () => {
+  let bin: string;
+  let path: Maybe<string>;
+  const logger = new Logger({
+    extensionMode: vscode.ExtensionMode.Test,
+  } as vscode.ExtensionContext);
+  const entry = utils.createEntry("/work/token.mligo", "/work/main.tz", "main");
+  const progress = { report: () => undefined };
+
+  // A `whylson` script printing the given lines, first in PATH
+  const stub = (script: string) => executable(bin, "whylson", script);
+
+  suiteSetup(function () {
+    if (process.platform === "win32") {
+      this.skip();
+    }
+    bin = mkdtempSync(join(tmpdir(), "whylson-stub-"));
+    path = process.env.PATH;
+    process.env.PATH = `${bin}${delimiter}${path}`;
+  });
+
+  suiteTeardown(() => {
+    process.env.PATH = path;
+    if (bin) {
+      rmSync(bin, { recursive: true, force: true });
+    }
+  });
+
+  setup(() => output.splice(0));
+
+  test("reports every goal and streams output", async () => {
+    stub(
+      [
+        'echo "whylson $1"',
+        'echo "VC for main : Valid (0.02s, 45 steps)."',
+        'echo "VC for transfer : Timeout (5.00s)."',
+        'echo "VC for burn : Invalid (0.10s)."',
+      ].join("\n")
+    );
+    const result = await new WhylsonSession(entry, logger).run(
+      bin,
+      new vscode.CancellationTokenSource().token,
+      progress
+    );
+
+    assert.deepStrictEqual(
+      result.goals.map((g) => [g.goal, g.status]),
+      [
+        ["VC for main", "proved"],
+        ["VC for transfer", "timeout"],
+        ["VC for burn", "failed"],
+      ]
+    );
+    assert.strictEqual(result.ok, false);
+    assert.strictEqual(result.cancelled, false);
+    assert.ok(output.includes("whylson /work/main.tz"));
+    assert.strictEqual(
+      WhylsonSession.summarize(result),
+      "1/3 goals proved, 1 failed, 1 timeout"
+    );
+  });
+
+  test("is ok only if every goal is proved and Whylson exits normally", async () => {
+    stub('echo "VC for main : Valid (0.02s)."');
+    const proved = await new WhylsonSession(entry, logger).run(
+      bin,
+      new vscode.CancellationTokenSource().token,
+      progress
+    );
+    assert.strictEqual(proved.ok, true);
+
+    stub('echo "VC for main : Valid (0.02s)."\nexit 2');
+    const crashed = await new WhylsonSession(entry, logger).run(
+      bin,
+      new vscode.CancellationTokenSource().token,
+      progress
+    );
+    assert.strictEqual(crashed.ok, false);
+  });
+
+  test("is cancelled by its token", async () => {
+    stub('echo "VC for main : Valid (0.02s)."\nexec sleep 30');
+    const source = new vscode.CancellationTokenSource();
+    setTimeout(() => source.cancel(), 200);
+    const result = await new WhylsonSession(entry, logger).run(
+      bin,
+      source.token,
+      progress
+    );
+
+    assert.strictEqual(result.cancelled, true);
+    assert.strictEqual(result.ok, false);
+  });
+
+  test("stops the provers started by Whylson when cancelled", async function () {
+    this.timeout(5000);
+    // A prover outliving Whylson would leave its mark after a second
+    const mark = join(bin, "prover.mark");
+    stub(`(sleep 1; touch ${mark}) &\nwait`);
+    const source = new vscode.CancellationTokenSource();
+    setTimeout(() => source.cancel(), 200);
+    await new WhylsonSession(entry, logger).run(bin, source.token, progress);
+
+    await new Promise((resolve) => setTimeout(resolve, 1500));
+    assert.strictEqual(existsSync(mark), false);
+  });
+
+  test("is found in PATH", async () => {
+    stub("exit 0");
+    assert.strictEqual(await verifiers.whylsonBinaries(), true);
+  });
+});
+
+suite("WhylsonSession.parseGoal", () => {
+  test("reads Why3 prover outcomes", () => {
+    assert.deepStrictEqual(
+      WhylsonSession.parseGoal("VC for main : Valid (0.02s, 45 steps)."),
+      { goal: "VC for main", status: "proved", detail: "(0.02s, 45 steps)" }
+    );
+    assert.deepStrictEqual(
+      WhylsonSession.parseGoal("  post : Unknown (incomplete) (1.00s)."),
+      { goal: "post", status: "unknown", detail: "(incomplete) (1.00s)" }
+    );
+    assert.strictEqual(
+      WhylsonSession.parseGoal(
+        "  post : StepLimitExceeded (5.00s, 10000 steps)"
+      )?.status,
+      "timeout"
+    );
+  });
+
+  test("leaves out lines other than prover results", () => {
+    [
+      "Loading prover...",
+      "Warning: Unknown prover alt-ergo, skipped",
+      "Error: Timeout must be positive",
+      "VC for main : Valid",
+    ].forEach((line) =>
+      assert.strictEqual(WhylsonSession.parseGoal(line), undefined, line)
+    );
+  });
+});
+
+suite("WhylsonSession.condense", () => {
+  test("reports goals not proved on the michelson file for $whylson", () => {
+    const [pattern] = problemPattern("whylson-goal");
+    const line = WhylsonSession.condense(
+      { goal: "VC for main", status: "timeout", detail: "(5.00s)" },
+      "/work/.whylson/bin-contracts/token.mligo/main.tz"
+    )!;
+    const m = pattern.regexp.exec(line)!;
+
+    assert.strictEqual(pattern.kind, "file");
+    assert.strictEqual(m[pattern.severity!], "warning");
+    assert.strictEqual(
+      m[pattern.file!],
+      "/work/.whylson/bin-contracts/token.mligo/main.tz"
+    );
+    assert.strictEqual(m[pattern.message!], "VC for main timeout (5.00s)");
+    assert.strictEqual(
+      WhylsonSession.condense(
+        { goal: "VC for main", status: "failed", detail: "" },
+        "/work/main.tz"
+      ),
+      "whylson error: /work/main.tz: VC for main failed"
+    );
+    assert.strictEqual(
+      WhylsonSession.condense(
+        { goal: "VC for main", status: "proved", detail: "" },
+        "/work/main.tz"
+      ),
+      undefined
+    );
+  });
+});
@@ -0,0 +1,364 @@
+/**
+ * Stand-in for the parts of the `vscode` module used by the unit tested modules,
+ * so that they run under plain node. Behaviour follows the editor's API where it is
+ * relied upon, anything else is left out.
+ */
+
+// Names are those of the editor API
+/* eslint-disable @typescript-eslint/naming-convention */
+
+import { promises as fs } from "fs";
+import { dirname } from "path";
+
+export enum DiagnosticSeverity {
+  Error = 0,
+  Warning = 1,
+  Information = 2,
+  Hint = 3,
+}
+
+export enum ExtensionMode {
+  Production = 1,
+  Development = 2,
+  Test = 3,
+}
+
+export enum QuickPickItemKind {
+  Separator = -1,
+  Default = 0,
+}
+
+export enum CompletionItemKind {
+  Function = 2,
+  Variable = 5,
+  Module = 8,
+  Keyword = 13,
+  Reference = 17,
+  Constant = 20,
+  Operator = 23,
+  TypeParameter = 24,
+}
+
+export enum FoldingRangeKind {
+  Comment = 1,
+  Imports = 2,
+  Region = 3,
+}
+
+export class FoldingRange {
+  start: number;
+  end: number;
+  kind?: FoldingRangeKind;
+
+  constructor(start: number, end: number, kind?: FoldingRangeKind) {
+    this.start = start;
+    this.end = end;
+    this.kind = kind;
+  }
+}
+
+export enum FileType {
+  Unknown = 0,
+  File = 1,
+  Directory = 2,
+}
+
+export class Position {
+  readonly line: number;
+  readonly character: number;
+
+  constructor(line: number, character: number) {
+    this.line = line;
+    this.character = character;
+  }
+
+  compareTo(other: Position): number {
+    return this.line - other.line || this.character - other.character;
+  }
+
+  isBefore(other: Position): boolean {
+    return this.compareTo(other) < 0;
+  }
+
+  isAfter(other: Position): boolean {
+    return this.compareTo(other) > 0;
+  }
+
+  translate(lineDelta = 0, characterDelta = 0): Position {
+    return new Position(this.line + lineDelta, this.character + characterDelta);
+  }
+}
+
+export class Range {
+  readonly start: Position;
+  readonly end: Position;
+
+  constructor(
+    startLine: number | Position,
+    startCharacter: number | Position,
+    endLine?: number,
+    endCharacter?: number
+  ) {
+    if (startLine instanceof Position && startCharacter instanceof Position) {
+      this.start = startLine;
+      this.end = startCharacter;
+    } else {
+      this.start = new Position(startLine as number, startCharacter as number);
+      this.end = new Position(endLine!, endCharacter!);
+    }
+  }
+
+  contains(value: Position | Range): boolean {
+    return value instanceof Range
+      ? this.contains(value.start) && this.contains(value.end)
+      : value.compareTo(this.start) >= 0 && value.compareTo(this.end) <= 0;
+  }
+}
+
+export class CompletionItem {
+  label: string;
+  kind?: CompletionItemKind;
+  detail?: string;
+  insertText?: string | SnippetString;
+  range?: Range;
+
+  constructor(label: string, kind?: CompletionItemKind) {
+    this.label = label;
+    this.kind = kind;
+  }
+}
+
+export class SnippetString {
+  readonly value: string;
+
+  constructor(value: string) {
+    this.value = value;
+  }
+}
+
+export class MarkdownString {
+  value = "";
+
+  appendMarkdown(value: string): MarkdownString {
+    this.value += value;
+    return this;
+  }
+}
+
+export class Hover {
+  readonly contents: MarkdownString;
+  readonly range?: Range;
+
+  constructor(contents: MarkdownString, range?: Range) {
+    this.contents = contents;
+    this.range = range;
+  }
+}
+
+export class ParameterInformation {
+  readonly label: string | [number, number];
+
+  constructor(label: string | [number, number]) {
+    this.label = label;
+  }
+}
+
+export class SignatureInformation {
+  readonly label: string;
+  readonly documentation?: string;
+  parameters: ParameterInformation[] = [];
+
+  constructor(label: string, documentation?: string) {
+    this.label = label;
+    this.documentation = documentation;
+  }
+}
+
+export class SignatureHelp {
+  signatures: SignatureInformation[] = [];
+  activeSignature = 0;
+  activeParameter = 0;
+}
+
+export class Diagnostic {
+  range: Range;
+  message: string;
+  severity: DiagnosticSeverity;
+  source?: string;
+
+  constructor(
+    range: Range,
+    message: string,
+    severity: DiagnosticSeverity = DiagnosticSeverity.Error
+  ) {
+    this.range = range;
+    this.message = message;
+    this.severity = severity;
+  }
+}
+
+export class Uri {
+  readonly scheme: string;
+  readonly path: string;
+
+  private constructor(scheme: string, path: string) {
+    this.scheme = scheme;
+    this.path = path;
+  }
+
+  get fsPath(): string {
+    return this.path;
+  }
+
+  static file(path: string): Uri {
+    return new Uri("file", path);
+  }
+
+  static joinPath(base: Uri, ...segments: string[]): Uri {
+    return new Uri(
+      base.scheme,
+      [base.path.replace(/\/$/, ""), ...segments].join("/")
+    );
+  }
+
+  toString(): string {
+    return `${this.scheme}://${this.path}`;
+  }
+}
+
+export class Disposable {
+  private readonly _dispose: () => void;
+
+  constructor(dispose: () => void) {
+    this._dispose = dispose;
+  }
+
+  dispose() {
+    this._dispose();
+  }
+}
+
+export class EventEmitter<T> {
+  private readonly _listeners: Set<(e: T) => unknown>;
+  readonly event: (listener: (e: T) => unknown) => Disposable;
+
+  constructor() {
+    this._listeners = new Set();
+    this.event = (listener) => {
+      this._listeners.add(listener);
+      return new Disposable(() => this._listeners.delete(listener));
+    };
+  }
+
+  fire(e: T) {
+    this._listeners.forEach((listener) => listener(e));
+  }
+
+  dispose() {
+    this._listeners.clear();
+  }
+}
+
+export class CancellationTokenSource {
+  private readonly _onCancel: EventEmitter<void>;
+  readonly token: {
+    isCancellationRequested: boolean;
+    onCancellationRequested: EventEmitter<void>["event"];
+  };
+
+  constructor() {
+    this._onCancel = new EventEmitter<void>();
+    this.token = {
+      isCancellationRequested: false,
+      onCancellationRequested: this._onCancel.event,
+    };
+  }
+
+  cancel() {
+    if (!this.token.isCancellationRequested) {
+      this.token.isCancellationRequested = true;
+      this._onCancel.fire();
+    }
+  }
+
+  dispose() {
+    this._onCancel.dispose();
+  }
+}
+
+/**
+ * Lines written to every output channel, in order, for tests to look at.
+ */
+export const output: string[] = [];
+
+/**
+ * Diagnostics set on every diagnostic collection, by file path, for tests to look at.
+ */
+export const diagnostics = new Map<string, Diagnostic[]>();
+
+export const languages = {
+  createDiagnosticCollection: () => ({
+    set: (uri: Uri, found: Diagnostic[]) => diagnostics.set(uri.fsPath, found),
+    delete: (uri: Uri) => diagnostics.delete(uri.fsPath),
+    dispose: () => diagnostics.clear(),
+  }),
+};
+
+/**
+ * Messages shown to the user, in order, for tests to look at.
+ */
+export const shown: string[] = [];
+
+export const window = {
+  createOutputChannel: () => ({
+    appendLine: (line: string) => output.push(line),
+    show: () => undefined,
+  }),
+  showErrorMessage: async (message: string) => void shown.push(message),
+  showInformationMessage: async (message: string) => void shown.push(message),
+};
+
+export class RelativePattern {
+  readonly base: unknown;
+  readonly pattern: string;
+
+  constructor(base: unknown, pattern: string) {
+    this.base = base;
+    this.pattern = pattern;
+  }
+}
+
+/**
+ * File system of the editor over the disk, `file` uris only.
+ */
+const fileSystem = {
+  stat: (uri: Uri) => fs.stat(uri.fsPath),
+  readFile: (uri: Uri) => fs.readFile(uri.fsPath),
+  writeFile: async (uri: Uri, content: Uint8Array) => {
+    await fs.mkdir(dirname(uri.fsPath), { recursive: true });
+    await fs.writeFile(uri.fsPath, content);
+  },
+  delete: (uri: Uri, options?: { recursive?: boolean }) =>
+    fs.rm(uri.fsPath, { recursive: !!options?.recursive }),
+  rename: async (from: Uri, to: Uri) => {
+    await fs.mkdir(dirname(to.fsPath), { recursive: true });
+    await fs.rename(from.fsPath, to.fsPath);
+  },
+  createDirectory: async (uri: Uri) => {
+    await fs.mkdir(uri.fsPath, { recursive: true });
+  },
+  readDirectory: async (uri: Uri): Promise<[string, FileType][]> =>
+    (await fs.readdir(uri.fsPath, { withFileTypes: true })).map((d) => [
+      d.name,
+      d.isDirectory() ? FileType.Directory : FileType.File,
+    ]),
+};
+
+export const workspace = {
+  fs: fileSystem,
+  asRelativePath: (path: string) => path,
+  createFileSystemWatcher: () => ({
+    onDidChange: () => new Disposable(() => undefined),
+    dispose: () => undefined,
+  }),
+};
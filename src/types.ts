@@ -1,3 +1,5 @@
+import * as vscode from "vscode";
+
 /**
  * Generic type option `T`. Either there is `T` or `undefined`.
  */
@@ -8,7 +10,8 @@ export type Maybe<T> = T | undefined;
  */
 export interface CompileContractOptions {
   /**
-   * Entrypoint for a michelson contract.
+   * Entrypoint for a michelson contract, empty when the `@entry` functions
+   * of the module selected with `-m` are compiled instead.
    */
   entrypoint: string;
   /**
@@ -34,13 +37,84 @@ export interface ContractEntryScheme extends CompileContractOptions {
    * File path to ligo document.
    */
   source: string;
+  /**
+   * Name of the compilation target, unique among entries of the same `source`.
+   */
+  target: string;
   /**
    * Overwritting `CompileContractOptions'
    * to always have an output path.
    */
   onPath: string;
+  /**
+   * Named initial storage expressions, in the syntax of the ligo document.
+   */
+  storages?: Record<string, string>;
+  /**
+   * Named sample parameter expressions, in the syntax of the ligo document.
+   */
+  parameters?: Record<string, string>;
+}
+
+/**
+ * Contents of `contracts.json`.
+ */
+export interface ContractsFile {
+  /**
+   * Version of the file format.
+   */
+  version: number;
+  /**
+   * Contract entries, possibly not yet validated.
+   */
+  contracts: unknown[];
 }
 
+/**
+ * An element of `contracts.json` not conforming to the schema.
+ */
+export type InvalidEntry = {
+  /**
+   * Position of the entry in the `contracts` array.
+   */
+  index: number;
+
+  /**
+   * The entry as found in the file.
+   */
+  value: unknown;
+
+  /**
+   * Description of every problem found in the entry.
+   */
+  problems: string[];
+};
+
+/**
+ * Outcome of reading the contents of a `contracts.json` file.
+ */
+export type ContractsParseResult = {
+  /**
+   * Entries conforming to the schema.
+   */
+  entries: ContractEntryScheme[];
+
+  /**
+   * Entries not conforming to the schema, kept so they are written back.
+   */
+  invalid: InvalidEntry[];
+
+  /**
+   * Contents were in an older format and must be written back.
+   */
+  migrated: boolean;
+
+  /**
+   * Reason for the file being unusable as a whole.
+   */
+  error?: string;
+};
+
 /**
  * Holds information regarding a call to ligo compile contract.
  */
@@ -59,4 +133,958 @@ export type CompilationResult = {
    * Output from either standard output/error resulted from compilation.
    */
   content: string;
+
+  /**
+   * Errors and warnings written by the compiler, as is.
+   */
+  messages: string;
+
+  /**
+   * Links between ligo source and michelson code, if location comments were requested.
+   */
+  mappings?: SourceMapping[];
+
+  /**
+   * Storage and parameter expressions compiled along with the contract.
+   */
+  expressions?: ExpressionResult[];
+
+  /**
+   * Size of the compiled contract in bytes, if measured, which only saved builds are.
+   */
+  size?: number;
+};
+
+/**
+ * Kind of a ligo expression compiled alongside a contract,
+ * named after the matching `ligo compile` subcommand.
+ */
+export type ExpressionKind = "storage" | "parameter";
+
+/**
+ * Holds information regarding a call to ligo compile storage or parameter.
+ */
+export type ExpressionResult = {
+  /**
+   * Kind of the expression.
+   */
+  kind: ExpressionKind;
+
+  /**
+   * Name of the expression in its entry.
+   */
+  name: string;
+
+  /**
+   * A successful Ligo compiltion is portrayed as true.
+   */
+  ok: boolean;
+
+  /**
+   * Michelson value, or compiler errors as michelson comments.
+   */
+  content: string;
+
+  /**
+   * Errors and warnings written by the compiler, as is.
+   */
+  messages: string;
+};
+
+/**
+ * Links a ligo source range to the michelson instruction compiled from it.
+ */
+export type SourceMapping = {
+  /**
+   * File path of the ligo document.
+   */
+  file: string;
+
+  /**
+   * Range in the ligo document.
+   */
+  ligo: vscode.Range;
+
+  /**
+   * Range in the michelson view.
+   */
+  michelson: vscode.Range;
+};
+
+/**
+ * Options for spawning a child process through `utils.runProcess`.
+ */
+export interface ProcessOptions {
+  /**
+   * Working directory of the spawned process.
+   */
+  cwd?: string;
+  /**
+   * Cancelling the token kills the running process.
+   */
+  token?: vscode.CancellationToken;
+  /**
+   * Time in milliseconds after which the process is killed.
+   */
+  timeout?: number;
+  /**
+   * Called once for every complete line written to stdout or stderr.
+   */
+  onLine?: (line: string) => void;
+}
+
+/**
+ * Holds information regarding a finished child process.
+ */
+export type ProcessResult = {
+  /**
+   * Exit code of the process, `undefined` if it was killed or never started.
+   */
+  code: Maybe<number>;
+
+  /**
+   * Everything written to standard output.
+   */
+  stdout: string;
+
+  /**
+   * Everything written to standard error.
+   */
+  stderr: string;
+
+  /**
+   * Process was killed through its cancellation token.
+   */
+  cancelled: boolean;
+
+  /**
+   * Process was killed for exceeding its timeout.
+   */
+  timedOut: boolean;
+
+  /**
+   * Error raised when the process could not be spawned.
+   */
+  error?: Error;
+};
+
+/**
+ * Outcome of a single Why3 goal, as reported by Whylson.
+ */
+export type GoalStatus = "proved" | "failed" | "timeout" | "unknown";
+
+/**
+ * A goal found in Whylson output along with its outcome.
+ */
+export type GoalResult = {
+  /**
+   * Name of the goal as reported by Why3.
+   */
+  goal: string;
+
+  /**
+   * Outcome of the proof attempt.
+   */
+  status: GoalStatus;
+
+  /**
+   * Remaining text of the line, usually prover time and steps.
+   */
+  detail: string;
+};
+
+/**
+ * Holds information regarding a finished Whylson session.
+ */
+export type VerificationResult = {
+  /**
+   * Session ended normally and every goal was proved.
+   */
+  ok: boolean;
+
+  /**
+   * Session was cancelled by the user.
+   */
+  cancelled: boolean;
+
+  /**
+   * Goals found in the session output, in order of appearance.
+   */
+  goals: GoalResult[];
+};
+
+/**
+ * A Whylson annotation found in a ligo document.
+ */
+export type Annotation = {
+  /**
+   * Range of the whole attribute, e.g. `[@comment: "nat > 0"]`.
+   */
+  range: vscode.Range;
+
+  /**
+   * Range of the annotation text, without quotes.
+   */
+  contentRange: vscode.Range;
+
+  /**
+   * Annotation text as written between quotes.
+   */
+  content: string;
+};
+
+/**
+ * Michelson types accepted in Whylson comparison annotations.
+ */
+export type AnnotationType = "int" | "nat" | "mutez" | "string" | "address";
+
+/**
+ * Operators accepted in Whylson comparison annotations.
+ */
+export type AnnotationOperator = "=" | "<>" | ">" | ">=" | "<" | "<=";
+
+/**
+ * Specification clauses accepted in Whylson annotations, one per snippet of `snippets.json`.
+ */
+export type AnnotationClause = "requires" | "ensures" | "invariant" | "variant";
+
+/**
+ * A token of annotation text along with its offset in the text.
+ */
+export type AnnotationToken = { text: string; offset: number };
+
+/**
+ * Meaning of a well formed Whylson annotation.
+ */
+export type AnnotationSpec =
+  | {
+      kind: "comparison";
+      type: AnnotationType;
+      operator: AnnotationOperator;
+      value: AnnotationToken;
+    }
+  | {
+      kind: "bound";
+      type: AnnotationType;
+      low: AnnotationToken;
+      lowOperator: AnnotationOperator;
+      highOperator: AnnotationOperator;
+      high: AnnotationToken;
+    }
+  | {
+      kind: "clause";
+      clause: AnnotationClause;
+      body: string;
+    };
+
+/**
+ * A problem found in annotation text.
+ */
+export type AnnotationProblem = {
+  /**
+   * Description of the problem.
+   */
+  message: string;
+
+  /**
+   * Start and end offsets of the problem in annotation text.
+   */
+  span: [number, number];
+
+  /**
+   * Malformed annotations are errors, suspicious ones are warnings.
+   */
+  severity: "error" | "warning";
+};
+
+/**
+ * Ligo dialects, named after their language identifiers.
+ */
+export type LigoDialect = "ligo" | "mligo" | "jsligo" | "religo";
+
+/**
+ * A parameter of a ligo function declaration.
+ */
+export type LigoParameter = {
+  /**
+   * Name of the parameter.
+   */
+  name: string;
+
+  /**
+   * Type of the parameter as written, if annotated.
+   */
+  type: Maybe<string>;
+};
+
+/**
+ * A declaration found in a ligo document.
+ */
+export type LigoDeclaration = {
+  /**
+   * Declared name.
+   */
+  name: string;
+
+  /**
+   * Functions take parameters, values do not, modules group declarations.
+   */
+  kind: "function" | "value" | "module";
+
+  /**
+   * Parameters of a function, in order.
+   */
+  params: LigoParameter[];
+
+  /**
+   * Declared type of a value or return type of a function, if annotated.
+   */
+  type: Maybe<string>;
+
+  /**
+   * Names of the attributes preceding the declaration, e.g. `entry` for `[@entry]`.
+   */
+  attributes: string[];
+
+  /**
+   * Column of the declaration keyword, top level declarations sit at column 0.
+   */
+  indent: number;
+
+  /**
+   * Range of the declared name.
+   */
+  range: vscode.Range;
+
+  /**
+   * Header of the declaration as written, up to its body.
+   */
+  header: string;
+};
+
+/**
+ * Outcome of the last compilation of a contract entry.
+ */
+export type CompilationStatus = {
+  /**
+   * Wheather compilation was successful.
+   */
+  ok: boolean;
+
+  /**
+   * Moment compilation finished, in milliseconds since epoch.
+   */
+  time: number;
+};
+
+/**
+ * Nodes of the contracts explorer.
+ * Folders only show up when the workspace has more than one folder.
+ */
+export type ExplorerNode =
+  | { kind: "folder"; folder: vscode.WorkspaceFolder }
+  | { kind: "contract"; entry: ContractEntryScheme }
+  | { kind: "detail"; label: string; description: string; icon: string };
+
+/**
+ * A function or module of a ligo document that may serve as contract entrypoint.
+ */
+export type EntrypointCandidate = {
+  /**
+   * Name of the function, as passed to `-e`, or of the module.
+   */
+  name: string;
+
+  /**
+   * Path of the module holding the function, or of the module itself, as passed to `-m`.
+   */
+  module: Maybe<string>;
+
+  /**
+   * Header of the function as written, up to its body.
+   */
+  signature: string;
+
+  /**
+   * Wheather function is marked with `@entry` or only has the contract signature,
+   * or is a module holding `@entry` functions.
+   */
+  reason: "attribute" | "signature" | "module";
+};
+
+/**
+ * Item of the entrypoint QuickPick, carrying the entrypoint and flags it stands for.
+ */
+export interface EntrypointItem extends vscode.QuickPickItem {
+  entrypoint?: string;
+  flags?: string[];
+}
+
+/**
+ * A `ligo compile contract` option known to the flags editor.
+ */
+export type FlagOption = {
+  /**
+   * Name shown in the flags editor.
+   */
+  label: string;
+
+  /**
+   * Spellings of the flag, canonical one first, e.g. `["--protocol", "-p"]`.
+   */
+  names: string[];
+
+  /**
+   * Group the option is listed under.
+   */
+  group: "protocol" | "syntax" | "warnings" | "optimization" | "format";
+
+  /**
+   * Values accepted by the flag, `undefined` for switches taking no value.
+   */
+  values: Maybe<string[]>;
+
+  /**
+   * What the option does.
+   */
+  description: string;
+};
+
+/**
+ * Compile flags of an entry, split into known options and anything else.
+ */
+export type ParsedFlags = {
+  /**
+   * Known options present in the flags, switches holding an empty value.
+   */
+  options: Map<FlagOption, string>;
+
+  /**
+   * Flags that are not known options, in their original order.
+   */
+  custom: string[];
+};
+
+/**
+ * Item of the flags editor QuickPick, carrying the action it stands for.
+ */
+export interface FlagsEditorItem extends vscode.QuickPickItem {
+  action?: "option" | "custom" | "save" | "discard";
+  option?: FlagOption;
+}
+
+/**
+ * Item of the target QuickPick, carrying the entry of the target it stands for.
+ * Items without entry stand for a new target.
+ */
+export interface TargetItem extends vscode.QuickPickItem {
+  entry?: ContractEntryScheme;
+}
+
+/**
+ * Item of the expressions editor QuickPick, carrying the action it stands for.
+ */
+export interface ExpressionsEditorItem extends vscode.QuickPickItem {
+  action?: "edit" | "add" | "save" | "discard";
+  group?: ExpressionKind;
+  name?: string;
+}
+
+/**
+ * A dry run of a contract entry, saved in `.whylson/scenarios.json`.
+ */
+export type DryRunScenario = {
+  /**
+   * Name of the scenario, unique among the scenarios of its entry.
+   */
+  name: string;
+
+  /**
+   * Ligo expression of the parameter the contract is called with.
+   */
+  parameter: string;
+
+  /**
+   * Ligo expression of the storage the contract is called on.
+   */
+  storage: string;
+
+  /**
+   * Storage the run is expected to end with, as printed by ligo.
+   */
+  expected?: string;
+};
+
+/**
+ * Contents of `scenarios.json`, scenarios keyed by `contracts.key` of their entry.
+ */
+export type ScenariosFile = {
+  /**
+   * Version of the file format.
+   */
+  version: number;
+
+  /**
+   * Scenarios of every entry.
+   */
+  scenarios: Record<string, DryRunScenario[]>;
+};
+
+/**
+ * Outcome of `ligo run dry-run` for a scenario.
+ */
+export type DryRunResult = {
+  /**
+   * Scenario that was run.
+   */
+  scenario: DryRunScenario;
+
+  /**
+   * `"failure"` when the contract failed with a value,
+   * `"error"` when ligo could not run it at all.
+   */
+  status: "success" | "failure" | "error";
+
+  /**
+   * Operations returned by the contract, if successful.
+   */
+  operations: string;
+
+  /**
+   * New storage returned by the contract, if successful.
+   */
+  storage: string;
+
+  /**
+   * Value the contract failed with, or the error message of ligo.
+   */
+  failure: Maybe<string>;
+
+  /**
+   * Wheather the new storage is the expected one, `undefined` if none is recorded.
+   */
+  matches: Maybe<boolean>;
+};
+
+/**
+ * Item of the scenario QuickPick, carrying the scenario it stands for.
+ * Items without scenario stand for a new scenario.
+ */
+export interface ScenarioItem extends vscode.QuickPickItem {
+  scenario?: DryRunScenario;
+}
+
+/**
+ * Entry of the bundled michelson reference, `resources/michelson-reference.json`.
+ */
+export type MichelsonDoc = {
+  /**
+   * Stack effects of an instruction, or typing of a section.
+   */
+  typing: string[];
+
+  /**
+   * Markdown description.
+   */
+  description: string;
+};
+
+/**
+ * Contents of the bundled michelson reference.
+ */
+export type MichelsonReference = {
+  instructions: Record<string, MichelsonDoc>;
+  types: Record<string, MichelsonDoc>;
+  keywords: Record<string, MichelsonDoc>;
+};
+
+/**
+ * A token of michelson code, comments and annotations left out.
+ */
+export type MichelsonToken = { text: string; offset: number };
+
+/**
+ * Outline element of a michelson document.
+ */
+export type MichelsonSymbol = {
+  /**
+   * Section keyword, view name or lambda instruction.
+   */
+  name: string;
+
+  /**
+   * Types involved, whitespace collapsed.
+   */
+  detail: string;
+
+  kind: "section" | "view" | "lambda";
+
+  /**
+   * Whole extent of the symbol.
+   */
+  range: vscode.Range;
+
+  /**
+   * Keyword or instruction the symbol starts with.
+   */
+  selection: vscode.Range;
+
+  /**
+   * Lambdas nested in the symbol.
+   */
+  children: MichelsonSymbol[];
+};
+
+/**
+ * Node of a parsed michelson program, offsets are relative to its text.
+ */
+export type MichelsonNode =
+  | {
+      kind: "prim";
+      name: string;
+      args: MichelsonNode[];
+      start: number;
+      end: number;
+    }
+  | { kind: "seq"; items: MichelsonNode[]; start: number; end: number }
+  | {
+      kind: "int" | "string" | "bytes";
+      value: string;
+      start: number;
+      end: number;
+    };
+
+/**
+ * A michelson type, annotations left out.
+ */
+export type MichelsonType = { prim: string; args: MichelsonType[] };
+
+/**
+ * Stack types, top first, or `"failed"` after a `FAILWITH`.
+ */
+export type MichelsonStack = MichelsonType[] | "failed";
+
+/**
+ * Outcome of typechecking the michelson of a view.
+ */
+export type TypecheckResult = {
+  /**
+   * Stack after each typed instruction, located at the instruction's end.
+   */
+  hints: { offset: number; stack: MichelsonStack }[];
+
+  /**
+   * Type errors and unsupported instructions.
+   */
+  problems: {
+    start: number;
+    end: number;
+    message: string;
+    unsupported: boolean;
+  }[];
+};
+
+/**
+ * An earlier build of a contract, kept in `.whylson/history`.
+ */
+export type Snapshot = {
+  /**
+   * Uri of the snapshot file.
+   */
+  uri: vscode.Uri;
+
+  /**
+   * When the contract was compiled.
+   */
+  date: Date;
+
+  /**
+   * Start of the SHA-256 of the ligo source it was compiled from.
+   */
+  sourceHash: string;
+};
+
+/**
+ * Item of the snapshot QuickPick, carrying the snapshot it stands for.
+ */
+export interface SnapshotItem extends vscode.QuickPickItem {
+  snapshot: Snapshot;
+}
+
+/**
+ * Size of the latest build of a contract entry, kept in `.whylson/metrics.json`.
+ */
+export type ContractMetrics = {
+  /**
+   * Size of the contract in bytes, as measured by ligo.
+   */
+  size: number;
+
+  /**
+   * Size of the build before it, if any.
+   */
+  previous?: number;
+
+  /**
+   * When the contract was measured, as an ISO string.
+   */
+  measuredAt: string;
+};
+
+/**
+ * Format of `.whylson/metrics.json`, entries keyed by source and target.
+ */
+export type MetricsFile = {
+  version: number;
+  metrics: Record<string, ContractMetrics>;
+};
+
+/**
+ * Where ligo is run from, a binary on the system or a docker image.
+ */
+export type CompilerBackendKind = "binary" | "docker";
+
+/**
+ * Version of ligo as printed by `ligo --version`.
+ */
+export type LigoVersion = {
+  /**
+   * Output of ligo, trimmed.
+   */
+  text: string;
+
+  /**
+   * Major, minor and patch numbers, `undefined` for development builds.
+   */
+  release: Maybe<[number, number, number]>;
+};
+
+/**
+ * Runs ligo commands, wherever ligo is installed.
+ */
+export interface CompilerBackend {
+  /**
+   * Describes the backend in messages, e.g. `docker image ligolang/ligo:1.7.0`.
+   */
+  readonly name: string;
+
+  /**
+   * Detects the version of ligo, once per backend.
+   * @returns Possibly the version, `undefined` if ligo could not be run.
+   */
+  version(): Promise<Maybe<LigoVersion>>;
+
+  /**
+   * Spells arguments for the detected version, exactly as `run` passes them to ligo.
+   * @param args Arguments in the spelling of the latest ligo.
+   * @returns Arguments for the installed ligo, in order.
+   */
+  adapt(args: string[]): Promise<string[]>;
+
+  /**
+   * Runs ligo with arguments spelled for the detected version.
+   * @param args Arguments in the spelling of the latest ligo.
+   * @param options Working directory, cancellation and line streaming.
+   * @returns An object describing how the process ended.
+   */
+  run(args: string[], options: ProcessOptions): Promise<ProcessResult>;
+}
+
+/**
+ * Arguments of `whylson-connector.compile-all`, given by scripts running it.
+ */
+export type CompileAllOptions = {
+  /**
+   * Leaves out progress and summary notifications, only returning the report.
+   */
+  silent?: boolean;
+
+  /**
+   * Targets compiled at once, `compileAllParallelism` if not given.
+   */
+  parallelism?: number;
+};
+
+/**
+ * A target that failed to compile within a batch.
+ */
+export type CompileAllFailure = {
+  entry: ContractEntryScheme;
+
+  /**
+   * Compiler errors, as written by ligo.
+   */
+  messages: string;
+};
+
+/**
+ * Outcome of compiling every target, returned by `whylson-connector.compile-all`.
+ */
+export type CompileAllReport = {
+  /**
+   * Number of targets found in the workspace.
+   */
+  total: number;
+
+  /**
+   * Number of targets compiled and saved.
+   */
+  compiled: number;
+
+  failed: CompileAllFailure[];
+
+  /**
+   * Whether the batch was cancelled before every target was compiled.
+   */
+  cancelled: boolean;
+};
+
+/**
+ * Item of the failed targets QuickPick, carrying the failure it stands for.
+ */
+export interface CompileAllFailureItem extends vscode.QuickPickItem {
+  failure: CompileAllFailure;
+}
+
+/**
+ * What a `whylson` task does with its contract entry.
+ */
+export type WhylsonTaskAction =
+  | "compile"
+  | "compile-storage"
+  | "compile-parameter"
+  | "verify";
+
+/**
+ * Definition of a `whylson` task, as written in `tasks.json`.
+ */
+export interface WhylsonTaskDefinition extends vscode.TaskDefinition {
+  action: WhylsonTaskAction;
+
+  /**
+   * Path of the ligo document, relative to its workspace folder.
+   */
+  source: string;
+
+  target: string;
+
+  /**
+   * Name of the storage or parameter expression, for `compile-storage` and `compile-parameter`.
+   */
+  name?: string;
+}
+
+/**
+ * Terminal of a `whylson` task running a Whylson session, in place of notifications.
+ */
+export type WhylsonTaskRun = {
+  /**
+   * Writes a line to the task terminal.
+   */
+  write: (line: string) => void;
+
+  /**
+   * Cancelled when the task is terminated.
+   */
+  token: vscode.CancellationToken;
+};
+
+/**
+ * Outcome shown on an annotation, `stale` once its text changed since verification.
+ */
+export type ProofState = GoalStatus | "stale";
+
+/**
+ * Goals of a Whylson session traced back to the annotation that produced them.
+ */
+export type AnnotationProof = {
+  /**
+   * Annotation text at verification time, the result going stale once it differs.
+   */
+  content: string;
+
+  /**
+   * Line of the annotation at verification time, zero based.
+   */
+  line: number;
+
+  /**
+   * Worst outcome among its goals.
+   */
+  status: GoalStatus;
+
+  goals: GoalResult[];
+};
+
+/**
+ * Proof results of the latest Whylson session of a contract entry.
+ */
+export type EntryProofs = {
+  /**
+   * When the session ended, as an ISO string.
+   */
+  verifiedAt: string;
+
+  annotations: AnnotationProof[];
+};
+
+/**
+ * Format of `.whylson/proofs.json`, entries keyed by source and target.
+ */
+export type ProofsFile = {
+  version: number;
+  proofs: Record<string, EntryProofs>;
+};
+
+/**
+ * Goals of a session split by the annotation they were traced back to.
+ */
+export type ProofTracing = {
+  /**
+   * Goals of every annotation, by index of the annotation.
+   */
+  traced: GoalResult[][];
+
+  /**
+   * Goals about the contract as a whole.
+   */
+  contract: GoalResult[];
+};
+
+/**
+ * Whylson sessions of a build of a contract entry, kept in `.whylson/proof-cache`
+ * under the hash of its michelson without annotations.
+ */
+export type ProofCacheRecord = {
+  version: number;
+
+  /**
+   * When the latest session ended, as an ISO string.
+   */
+  verifiedAt: string;
+
+  /**
+   * Goals traced back to every annotation verified so far, keyed by the hash of its text.
+   */
+  annotations: Record<string, GoalResult[]>;
+
+  /**
+   * Goals about the contract as a whole, from the latest session.
+   */
+  contract: GoalResult[];
+};
+
+/**
+ * Annotations of a source whose goals are cached, and those left to Whylson.
+ */
+export type CachedProofs = {
+  /**
+   * Cached goals of every annotation and of the contract, none for pending annotations.
+   */
+  tracing: ProofTracing;
+
+  /**
+   * Indexes of the annotations never verified with their current text, in order.
+   */
+  pending: number[];
 };
@@ -1,12 +1,21 @@
-import { execSync, Serializable } from "child_process";
+import { ChildProcess, Serializable, spawn } from "child_process";
 import { posix } from "path";
 import { TextDecoder, TextEncoder } from "util";
 import * as vscode from "vscode";
+import { contracts } from "./contracts-file";
+import { sourceMap } from "./source-map";
 import {
   CompileContractOptions,
+  CompilerBackend,
   ContractEntryScheme,
   CompilationResult,
+  DryRunScenario,
+  EntrypointCandidate,
+  EntrypointItem,
+  ExpressionKind,
   Maybe,
+  ProcessOptions,
+  ProcessResult,
 } from "./types";
 
 export namespace io {
@@ -43,16 +52,39 @@ export namespace io {
    * Attempts to write content into uri descriptor.
    * @param uri Uri of the file to be written on.
    * @param contents Contents to be written to the file
+   * @param indent Indentation of files meant to be edited by hand, none by default.
    * @returns `true` if successful, `false` otherwise.
    */
   export async function safeWrite(
     uri: vscode.Uri,
-    contents: Serializable
+    contents: Serializable,
+    indent?: number
   ): Promise<boolean> {
     try {
       await vscode.workspace.fs.writeFile(
         uri,
-        new TextEncoder().encode(JSON.stringify(contents))
+        new TextEncoder().encode(JSON.stringify(contents, null, indent))
+      );
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Attempts to write text into uri descriptor, as is.
+   * @param uri Uri of the file to be written on.
+   * @param contents Text to be written to the file.
+   * @returns `true` if successful, `false` otherwise.
+   */
+  export async function safeWriteText(
+    uri: vscode.Uri,
+    contents: string
+  ): Promise<boolean> {
+    try {
+      await vscode.workspace.fs.writeFile(
+        uri,
+        new TextEncoder().encode(contents)
       );
       return true;
     } catch {
@@ -77,6 +109,25 @@ export namespace io {
     }
   }
 
+  /**
+   * Attempts to move a resource, overwriting the destination.
+   * Missing parent folders of the destination are created.
+   * @param from Uri of the resource to be moved.
+   * @param to Uri of the destination.
+   * @returns `true` if successful, `false` otherwise.
+   */
+  export async function safeRename(
+    from: vscode.Uri,
+    to: vscode.Uri
+  ): Promise<boolean> {
+    try {
+      await vscode.workspace.fs.rename(from, to, { overwrite: true });
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
   /**
    * Attempts to create a new directory at designed destination.
    * @param uri Uri of the destination folder.
@@ -106,25 +157,18 @@ export namespace io {
 }
 
 export namespace verifiers {
-  /**
-   * Verifies if ligo executable is found within the sytem.
-   * @returns `true` if ligo executable is found, `false` otherwise.
-   */
-  export function ligoBinaries(): boolean {
-    try {
-      execSync("which ligo", { encoding: "utf-8" });
-      return true;
-    } catch (error) {
-      return false;
-    }
-  }
-
   /**
    * Verifies if Whylson program is found within the sytem.
+   * Lookup runs as a child process, leaving the extension host free meanwhile.
    * @returns `true` if Whylson is found, `false` otherwise.
    */
-  export function whylsonBinaries(): boolean {
-    throw new Error("Method not implemented.");
+  export async function whylsonBinaries(): Promise<boolean> {
+    const { code } = await utils.runProcess(
+      process.platform === "win32" ? "where" : "which",
+      ["whylson"],
+      { timeout: 10000 }
+    );
+    return code === 0;
   }
 
   /**
@@ -146,42 +190,328 @@ export namespace utils {
    * @param ligoPath Path to a ligo document.
    * @param michelsonPath Destination path for compilations of specified ligo document.
    * @param entrypoint Entrypoint to michelson contract as string.
+   * @param flags Flags required by the entrypoint, e.g. the module holding it.
+   * @param target Name of the compilation target, the entrypoint by default.
    * @returns A `ContractEntryScheme` object.
    */
   export function createEntry(
     ligoPath: string,
     michelsonPath: string,
-    entrypoint: string
+    entrypoint: string,
+    flags: string[] = [],
+    target: string = entrypoint
   ): ContractEntryScheme {
     return {
       title: posix.basename(ligoPath).split(".")[0],
       source: ligoPath,
+      target: target,
       onPath: michelsonPath,
       entrypoint: entrypoint,
-      flags: [],
+      flags: flags,
     };
   }
 
   /**
-   * Creates a quickpick with `showInputBox`.
-   * Manually input a valid entrypoint for a ligo document.
-   * @returns Chosen entrypoint designation as string.
+   * Creates a quickpick offering the entrypoints found in a ligo document.
+   * Any other valid name can be typed in, as a fallback for what scanning misses.
+   * Functions nested in modules come with the flags selecting their module,
+   * modules come with those flags only, leaving the entrypoint empty.
+   * @param candidates Entrypoints found in the ligo document.
+   * @returns Possibly the chosen entrypoint, the flags it requires
+   * and the name it was picked by.
    */
-  export async function entrypointInput(): Promise<Maybe<string>> {
+  export async function entrypointInput(
+    candidates: EntrypointCandidate[]
+  ): Promise<Maybe<{ entrypoint: string; flags: string[]; name: string }>> {
+    const items: EntrypointItem[] = [];
+    candidates.forEach((c, i) => {
+      if (c.module && c.module !== candidates[i - 1]?.module) {
+        items.push({
+          label: `module ${c.module}`,
+          kind: vscode.QuickPickItemKind.Separator,
+        });
+      }
+      items.push({
+        label: c.name,
+        description:
+          c.reason === "module"
+            ? "module with @entry functions"
+            : c.reason === "attribute"
+            ? "@entry"
+            : "contract signature",
+        detail: c.signature,
+        entrypoint: c.reason === "module" ? "" : c.name,
+        flags: c.module ? ["-m", c.module] : [],
+      });
+    });
+
+    const qp = vscode.window.createQuickPick<EntrypointItem>();
+    qp.title = "First Time Ligo Compile";
+    qp.placeholder =
+      items.length > 0
+        ? "Pick entrypoint for ligo contract, or type its name"
+        : "No entrypoint found, type its name";
+    qp.matchOnDetail = true;
+    qp.items = items;
+
+    // Typed names are offered when no candidate has them
+    const typed = (value: string): EntrypointItem[] => {
+      if (!value || candidates.some((c) => c.name === value)) {
+        return [];
+      }
+      return new RegExp(/^[a-zA-Z_]+[a-zA-Z0-9'_]*$/g).test(value)
+        ? [
+            {
+              label: value,
+              description: "typed entrypoint",
+              alwaysShow: true,
+              entrypoint: value,
+              flags: [],
+            },
+          ]
+        : [
+            {
+              label: value,
+              description:
+                "Values must conform to ligo's function nomenclature",
+              alwaysShow: true,
+            },
+          ];
+    };
+    qp.onDidChangeValue((value) => (qp.items = [...typed(value), ...items]));
+    if (items.length === 0) {
+      qp.value = "main";
+      qp.items = typed("main");
+    }
+
+    return new Promise((resolve) => {
+      qp.onDidAccept(() => {
+        const picked = qp.selectedItems[0];
+        if (picked?.entrypoint !== undefined) {
+          resolve({
+            entrypoint: picked.entrypoint,
+            flags: picked.flags || [],
+            name: picked.label,
+          });
+          qp.hide();
+        }
+      });
+      qp.onDidHide(() => {
+        resolve(undefined);
+        qp.dispose();
+      });
+      qp.show();
+    });
+  }
+
+  /**
+   * Creates an input box for naming a new compilation target of a ligo document.
+   * @param taken Names of the targets the ligo document already has.
+   * @param suggestion Initial name, usually the chosen entrypoint.
+   * @returns Chosen target name as string.
+   */
+  export async function targetInput(
+    taken: string[],
+    suggestion: string
+  ): Promise<Maybe<string>> {
     return await vscode.window.showInputBox({
-      title: "First Time Ligo Compile",
-      placeHolder: "main",
-      prompt: "Pick entrypoint for ligo contract",
-      value: "main",
+      title: "New Compilation Target",
+      prompt: "Name the new target of this ligo document",
+      value: taken.includes(suggestion) ? "" : suggestion,
       validateInput: (text) => {
-        // undefined, null or empty string accepts the prompt
-        return new RegExp(/^[a-zA-Z_]+[a-zA-Z0-9'_]*$/g).test(text)
-          ? undefined
-          : "Values must conform to ligo's function nomenclature";
+        if (!new RegExp(/^[a-zA-Z0-9_][a-zA-Z0-9_.'-]*$/g).test(text)) {
+          return "Target names are made of letters, digits, `_`, `.`, `'` and `-`";
+        }
+        return taken.includes(text)
+          ? `Target ${text} already exists`
+          : undefined;
       },
     });
   }
 
+  /**
+   * Creates the inputs for a new dry run scenario of a contract entry.
+   * Parameter and storage are picked among the entry's named expressions, or typed in.
+   * @param entry Contract entry the scenario runs.
+   * @param taken Names of the scenarios the entry already has.
+   * @returns Possibly the new scenario, without expected storage.
+   */
+  export async function scenarioInput(
+    entry: ContractEntryScheme,
+    taken: string[]
+  ): Promise<Maybe<DryRunScenario>> {
+    const name = await vscode.window.showInputBox({
+      title: "New Dry Run Scenario",
+      prompt: `Name the new scenario of ${entry.title} (${entry.target})`,
+      validateInput: (text) => {
+        if (!text.trim()) {
+          return "Scenario name must not be empty";
+        }
+        return taken.includes(text)
+          ? `Scenario ${text} already exists`
+          : undefined;
+      },
+    });
+    if (!name) {
+      return undefined;
+    }
+
+    const parameter = await expressionInput("parameter", entry.parameters);
+    if (!parameter) {
+      return undefined;
+    }
+    const storage = await expressionInput("storage", entry.storages);
+    if (!storage) {
+      return undefined;
+    }
+    return { name, parameter, storage };
+  }
+
+  /**
+   * Lets user pick one of the named expressions of an entry, or type one.
+   * @param kind Kind of the expression.
+   * @param named Named expressions of that kind in the entry.
+   * @returns Possibly a ligo expression.
+   */
+  async function expressionInput(
+    kind: ExpressionKind,
+    named: Record<string, string> = {}
+  ): Promise<Maybe<string>> {
+    const typed = "$(edit) Type an expression...";
+    const picked =
+      Object.keys(named).length === 0
+        ? typed
+        : (
+            await vscode.window.showQuickPick(
+              [
+                ...Object.entries(named).map(([name, expression]) => ({
+                  label: name,
+                  description: expression,
+                })),
+                { label: typed },
+              ],
+              { title: `Scenario ${kind}`, placeHolder: `Pick the ${kind}` }
+            )
+          )?.label;
+
+    if (picked !== typed) {
+      return picked ? named[picked] : undefined;
+    }
+    return await vscode.window.showInputBox({
+      title: `Scenario ${kind}`,
+      prompt: `Ligo expression of the ${kind}, in the syntax of the document`,
+      validateInput: (text) =>
+        text.trim() ? undefined : "Expression must not be empty",
+    });
+  }
+
+  /**
+   * Spawns a child process without a shell and collects its output.
+   * Promise is always resolved, spawn failures are reported in `error`.
+   * Cancellation and timeout kill the process along with the processes it started,
+   * e.g. the provers run by Whylson.
+   * @param command Name of an executable in PATH or path to one.
+   * @param args Arguments for the executable, passed verbatim.
+   * @param options Working directory, cancellation and line streaming.
+   * @returns An object describing how the process ended.
+   */
+  export function runProcess(
+    command: string,
+    args: string[],
+    options: ProcessOptions = {}
+  ): Promise<ProcessResult> {
+    return new Promise((resolve) => {
+      if (options.token?.isCancellationRequested) {
+        resolve({
+          code: undefined,
+          stdout: "",
+          stderr: "",
+          cancelled: true,
+          timedOut: false,
+        });
+        return;
+      }
+
+      // * Own process group on posix, killed as a whole
+      const detached = process.platform !== "win32";
+      const child = spawn(command, args, {
+        cwd: options.cwd,
+        detached: detached,
+      });
+      const result: ProcessResult = {
+        code: undefined,
+        stdout: "",
+        stderr: "",
+        cancelled: false,
+        timedOut: false,
+      };
+
+      // Partial lines are held until their line break arrives
+      const pending = { stdout: "", stderr: "" };
+      const collect = (stream: "stdout" | "stderr", chunk: Buffer) => {
+        const text = chunk.toString();
+        result[stream] += text;
+        const lines = (pending[stream] + text).split(/\r?\n/);
+        pending[stream] = lines.pop()!;
+        lines.forEach((line) => options.onLine?.(line));
+      };
+
+      const cancellation = options.token?.onCancellationRequested(() => {
+        result.cancelled = true;
+        kill(child, detached);
+      });
+      const timer = options.timeout
+        ? setTimeout(() => {
+            result.timedOut = true;
+            kill(child, detached);
+          }, options.timeout)
+        : undefined;
+
+      // "error" and "close" may both be emitted, only the first one counts
+      let settled = false;
+      const settle = () => {
+        if (settled) {
+          return;
+        }
+        settled = true;
+        cancellation?.dispose();
+        clearTimeout(timer);
+        [pending.stdout, pending.stderr]
+          .filter((line) => line.length > 0)
+          .forEach((line) => options.onLine?.(line));
+        resolve(result);
+      };
+
+      child.stdout.on("data", (chunk: Buffer) => collect("stdout", chunk));
+      child.stderr.on("data", (chunk: Buffer) => collect("stderr", chunk));
+      child.on("error", (error) => {
+        result.error = error;
+        settle();
+      });
+      child.on("close", (code) => {
+        result.code = code ?? undefined;
+        settle();
+      });
+    });
+  }
+
+  /**
+   * Stops a child process of `runProcess`.
+   * @param child The child process.
+   * @param group Whether the child leads its own process group, killed as a whole.
+   */
+  function kill(child: ChildProcess, group: boolean) {
+    if (group && child.pid !== undefined) {
+      try {
+        process.kill(-child.pid, "SIGTERM");
+        return;
+      } catch {
+        // ? Group is already gone, the child may still be reaped
+      }
+    }
+    child.kill();
+  }
+
   /**
    * Preppend all lines of text with `"# "`.
    * @param content Text as a string.
@@ -197,29 +527,293 @@ export namespace utils {
   }
 
   /**
-   * Compilation with execFileSync function.
-   * @param source File path to active ligo document.
+   * Runs a task for every item, at most `limit` at once, starting them in order.
+   * Items not yet started when the token is cancelled are skipped.
+   * @param items Items to run the task for.
+   * @param limit Number of tasks running at once.
+   * @param task Asynchronous task run for an item.
+   * @param token Cancelling the token skips the remaining items.
+   * @returns Results in order of the items, `undefined` for skipped ones.
+   */
+  export async function pool<T, R>(
+    items: T[],
+    limit: number,
+    task: (item: T) => Promise<R>,
+    token?: vscode.CancellationToken
+  ): Promise<Maybe<R>[]> {
+    const results: Maybe<R>[] = items.map(() => undefined);
+    let next = 0;
+    const worker = async () => {
+      while (next < items.length && !token?.isCancellationRequested) {
+        const i = next++;
+        results[i] = await task(items[i]);
+      }
+    };
+
+    const workers = Math.max(1, Math.min(limit, items.length));
+    await Promise.all(Array.from({ length: workers }, worker));
+    return results;
+  }
+
+  /**
+   * Path of a hidden copy of a ligo document, compiled in place of its unsaved buffer.
+   * Copy sits next to the document so relative imports still resolve,
+   * and keeps its extension, from which ligo infers the syntax.
+   * @param source File path to a ligo document.
+   * @param version Version of the document's buffer, possibly prefixed by what the copy is for.
+   * @returns File path to the copy.
+   */
+  export function shadowPath(source: string, version: number | string): string {
+    const extension = posix.extname(source);
+    return posix.join(
+      posix.dirname(source),
+      `.${posix.basename(source, extension)}.whylson-${version}${extension}`
+    );
+  }
+
+  /**
+   * Points the messages and location comments of a compiled copy back at its ligo document.
+   * @param result Results of compiling the copy.
+   * @param shadow File path to the copy.
+   * @param source File path to the ligo document.
+   * @returns The same results, as if the document had been compiled.
+   */
+  export function unshadow(
+    result: CompilationResult,
+    shadow: string,
+    source: string
+  ): CompilationResult {
+    // Paths relative to the document's folder only mention the file name
+    const replace = (text: string) =>
+      text
+        .split(shadow)
+        .join(source)
+        .split(posix.basename(shadow))
+        .join(posix.basename(source));
+    return {
+      ...result,
+      content: replace(result.content),
+      messages: replace(result.messages),
+      expressions: result.expressions?.map((e) => ({
+        ...e,
+        content: replace(e.content),
+        messages: replace(e.messages),
+      })),
+    };
+  }
+
+  /**
+   * Builds the arguments of a `ligo compile contract` call.
+   * @param source File path to a ligo document.
    * @param cco Set of compilation options for a ligo contract.
-   * @returns Michelson code or exception caught as string.
+   * @returns Arguments for the ligo executable, in order.
    */
-  export function compileLigo(
+  export function compileArgs(
     source: string,
     cco: CompileContractOptions
-  ): CompilationResult {
-    let command = `ligo compile contract ${source} -e ${cco.entrypoint} ${
-      cco.onPath ? `-o ${cco.onPath}` : ""
-    } ${cco.flags.join(" ")}`.trimEnd();
+  ): string[] {
+    return [
+      "compile",
+      "contract",
+      source,
+      ...contracts.entrypointArgs(cco),
+      ...(cco.onPath ? ["-o", cco.onPath] : []),
+      ...cco.flags,
+    ];
+  }
 
-    try {
+  /**
+   * Builds the arguments of a `ligo compile storage` or `ligo compile parameter` call.
+   * @param source File path to a ligo document.
+   * @param kind Kind of the expression, naming the subcommand.
+   * @param expression Ligo expression, in the syntax of the document.
+   * @param cco Set of compilation options for a ligo contract.
+   * @returns Arguments for the ligo executable, in order.
+   */
+  export function expressionArgs(
+    source: string,
+    kind: ExpressionKind,
+    expression: string,
+    cco: CompileContractOptions
+  ): string[] {
+    return [
+      "compile",
+      kind,
+      source,
+      expression,
+      ...contracts.entrypointArgs(cco),
+      ...cco.flags,
+    ];
+  }
+
+  /**
+   * Options every compilation of the contract of an entry runs with.
+   * Output path is left out, one run serves both the view and the file.
+   * @param ces An object describing ligo source metadata.
+   * @param sourceMapping Wheather michelson instructions are mapped back to ligo.
+   * @returns Compilation options, and wheather they request location comments.
+   */
+  export function contractOptions(
+    ces: ContractEntryScheme,
+    sourceMapping: Maybe<boolean>
+  ): { options: CompileContractOptions; mapped: boolean } {
+    // Location comments are stripped from output once mappings are recorded
+    const mapped = !!sourceMapping && !ces.flags.includes(sourceMap.flags[0]);
+    return {
+      options: {
+        ...ces,
+        onPath: undefined,
+        flags: mapped ? [...ces.flags, ...sourceMap.flags] : ces.flags,
+      },
+      mapped: mapped,
+    };
+  }
+
+  /**
+   * Compiles the contract of an entry, the same way for the michelson view,
+   * saved contracts and tasks: with `contractOptions`, location comments
+   * being taken out of the michelson as mappings.
+   * @param backend Runs ligo, wherever it is installed.
+   * @param ces An object describing ligo source metadata.
+   * @param sourceMapping Wheather michelson instructions are mapped back to ligo.
+   * @param token Cancelling the token aborts the compilation.
+   * @param timeout Time in milliseconds after which compilation is aborted.
+   * @param shadow File path to a copy of the ligo document compiled in its place.
+   * @returns Michelson code or compiler errors as string, pointing at the ligo document,
+   * `undefined` if compilation was cancelled.
+   */
+  export async function compileEntry(
+    backend: CompilerBackend,
+    ces: ContractEntryScheme,
+    sourceMapping: Maybe<boolean>,
+    token: Maybe<vscode.CancellationToken>,
+    timeout: Maybe<number>,
+    shadow?: string
+  ): Promise<Maybe<CompilationResult>> {
+    const { options, mapped } = contractOptions(ces, sourceMapping);
+    let result = await compileLigo(
+      backend,
+      shadow || ces.source,
+      options,
+      token,
+      timeout
+    );
+
+    // Messages and location comments point at the source, not at its copy
+    if (result && shadow) {
+      result = unshadow(result, shadow, ces.source);
+    }
+    if (result?.ok && mapped) {
+      const { code, mappings } = sourceMap.extract(result.content, ces.source);
+      result = { ...result, content: code, mappings: mappings };
+    }
+    return result;
+  }
+
+  /**
+   * Asynchronous compilation of a ligo document.
+   * Standard error is kept in both outcomes, as warnings are written there.
+   * @param backend Runs ligo, wherever it is installed.
+   * @param source File path to active ligo document.
+   * @param cco Set of compilation options for a ligo contract.
+   * @param token Cancelling the token aborts the compilation.
+   * @param timeout Time in milliseconds after which compilation is aborted.
+   * @returns Michelson code or compiler errors as string,
+   * `undefined` if compilation was cancelled.
+   */
+  export async function compileLigo(
+    backend: CompilerBackend,
+    source: string,
+    cco: CompileContractOptions,
+    token: Maybe<vscode.CancellationToken>,
+    timeout: Maybe<number>
+  ): Promise<Maybe<CompilationResult>> {
+    return await runLigo(
+      backend,
+      compileArgs(source, cco),
+      source,
+      token,
+      timeout
+    );
+  }
+
+  /**
+   * Asynchronous compilation of a storage or parameter expression of a ligo document.
+   * @param backend Runs ligo, wherever it is installed.
+   * @param source File path to a ligo document.
+   * @param kind Kind of the expression.
+   * @param expression Ligo expression, in the syntax of the document.
+   * @param cco Set of compilation options for a ligo contract.
+   * @param token Cancelling the token aborts the compilation.
+   * @param timeout Time in milliseconds after which compilation is aborted.
+   * @returns Michelson value or compiler errors as string,
+   * `undefined` if compilation was cancelled.
+   */
+  export async function compileExpression(
+    backend: CompilerBackend,
+    source: string,
+    kind: ExpressionKind,
+    expression: string,
+    cco: CompileContractOptions,
+    token: Maybe<vscode.CancellationToken>,
+    timeout: Maybe<number>
+  ): Promise<Maybe<CompilationResult>> {
+    return await runLigo(
+      backend,
+      expressionArgs(source, kind, expression, cco),
+      source,
+      token,
+      timeout
+    );
+  }
+
+  /**
+   * Runs ligo from the directory of a ligo document, collecting its output.
+   * @param backend Runs ligo, wherever it is installed.
+   * @param args Arguments for the ligo executable.
+   * @param source File path to the ligo document.
+   * @param token Cancelling the token aborts the compilation.
+   * @param timeout Time in milliseconds after which compilation is aborted.
+   * @returns Michelson or compiler errors as string,
+   * `undefined` if compilation was cancelled.
+   */
+  async function runLigo(
+    backend: CompilerBackend,
+    args: string[],
+    source: string,
+    token: Maybe<vscode.CancellationToken>,
+    timeout: Maybe<number>
+  ): Promise<Maybe<CompilationResult>> {
+    const { code, stdout, stderr, cancelled, timedOut, error } =
+      await backend.run(args, {
+        cwd: posix.dirname(source),
+        token: token,
+        timeout: timeout,
+      });
+
+    if (cancelled) {
+      return undefined;
+    }
+
+    if (error || timedOut) {
+      const reason = error
+        ? error.message
+        : `Compilation timed out after ${timeout} ms.`;
       return {
-        ok: true,
+        ok: false,
         disp: true,
-        content: execSync(command, { encoding: "utf8" }),
+        content: commentMichelson(reason),
+        messages: reason,
       };
-    } catch (error) {
-      return error instanceof Error
-        ? { ok: false, disp: true, content: commentMichelson(error.message) }
-        : { ok: false, disp: false, content: "" };
     }
+
+    return code === 0
+      ? { ok: true, disp: true, content: stdout, messages: stderr }
+      : {
+          ok: false,
+          disp: true,
+          content: commentMichelson(stderr || stdout),
+          messages: stderr || stdout,
+        };
   }
 }
@@ -1,6 +1,7 @@
 import * as vscode from "vscode";
 import { Logger } from "./logger";
-import { Maybe } from "./types";
+import { sourceMap } from "./source-map";
+import { Maybe, SourceMapping } from "./types";
 
 /**
  * Manager class for Michelson Views instances
@@ -11,6 +12,7 @@ export class ViewManager implements vscode.TextDocumentContentProvider {
   private readonly _log: Logger;
   private readonly _context: vscode.ExtensionContext;
   private readonly _onDidChange = new vscode.EventEmitter<vscode.Uri>();
+  private readonly _highlight: vscode.TextEditorDecorationType;
   private _views: Map<string, MichelsonView>;
 
   get onDidChange() {
@@ -21,6 +23,13 @@ export class ViewManager implements vscode.TextDocumentContentProvider {
     this._context = context;
     this._log = logger;
     this._views = new Map<string, MichelsonView>();
+    this._highlight = vscode.window.createTextEditorDecorationType({
+      backgroundColor: new vscode.ThemeColor(
+        "editor.findMatchHighlightBackground"
+      ),
+      borderRadius: "2px",
+    });
+    this._context.subscriptions.push(this._highlight);
   }
 
   /**
@@ -39,11 +48,13 @@ export class ViewManager implements vscode.TextDocumentContentProvider {
    * @param ligoUri Uri of the ligo document whose contract representation is to be instatiated.
    * @param michelsonUri Uri of the michelson contract to be displayed.
    * @param contents Contents of michelson file.
+   * @param mappings Links between ligo source and `contents`, if known.
    */
   public async display(
     ligoUri: vscode.Uri,
     michelsonUri: vscode.Uri,
-    contents: string
+    contents: string,
+    mappings: SourceMapping[] = []
   ) {
     // Update scheme for michelson syntax coloring
     michelsonUri = michelsonUri.with({ scheme: ViewManager.scheme });
@@ -57,10 +68,86 @@ export class ViewManager implements vscode.TextDocumentContentProvider {
       this.updateContents(view, contents);
       this._onDidChange.fire(michelsonUri);
     }
+    view.mappings = mappings;
 
     view.show();
   }
 
+  /**
+   * Highlights the michelson instructions compiled from the ligo code under the cursor.
+   * Every target of the ligo document with a view is highlighted.
+   * @param editor Editor of a ligo document.
+   */
+  public highlightFromLigo(editor: vscode.TextEditor) {
+    [...this._views.values()]
+      .filter((v) => v.ligoUri.fsPath === editor.document.uri.fsPath)
+      .forEach((view) => {
+        const ranges = sourceMap
+          .fromLigo(
+            view.mappings,
+            editor.document.uri.fsPath,
+            editor.selection.active
+          )
+          .map((m) => m.michelson);
+
+        this.visibleEditors(view).forEach((ed) => {
+          ed.setDecorations(this._highlight, ranges);
+          if (ranges.length > 0) {
+            ed.revealRange(
+              ranges[0],
+              vscode.TextEditorRevealType.InCenterIfOutsideViewport
+            );
+          }
+        });
+      });
+  }
+
+  /**
+   * Reveals the ligo code a michelson instruction under the cursor was compiled from.
+   * @param editor Editor of a michelson view.
+   */
+  public async revealLigo(editor: vscode.TextEditor) {
+    const view = this.getView(editor.document.uri);
+    if (!view) {
+      return;
+    }
+
+    const mapping = sourceMap.fromMichelson(
+      view.mappings,
+      editor.selection.active
+    );
+    if (!mapping) {
+      editor.setDecorations(this._highlight, []);
+      return;
+    }
+
+    editor.setDecorations(this._highlight, [mapping.michelson]);
+
+    // Prefer the column where the ligo document is already visible
+    const uri = vscode.Uri.file(mapping.file);
+    const visible = vscode.window.visibleTextEditors.find(
+      (ed) => ed.document.uri.fsPath === uri.fsPath
+    );
+    await vscode.window.showTextDocument(uri, {
+      viewColumn: visible?.viewColumn ?? vscode.ViewColumn.One,
+      selection: mapping.ligo,
+      preserveFocus: true,
+    });
+  }
+
+  /**
+   * Finds the editors in which a michelson view is visible.
+   * @param view Michelson view.
+   * @returns Visible editors of the michelson view.
+   */
+  private visibleEditors(view: MichelsonView): vscode.TextEditor[] {
+    return vscode.window.visibleTextEditors.filter(
+      (ed) =>
+        ed.document.uri.scheme === ViewManager.scheme &&
+        ed.document.uri.fsPath === view.doc?.uri.fsPath
+    );
+  }
+
   /**
    * Attempt to fetch MichelsonView from parameter.
    * @param uri Uri of for a michelson file.
@@ -111,10 +198,12 @@ class MichelsonView {
   private _ligoUri: vscode.Uri;
   private _contents: string;
   private _doc: Maybe<vscode.TextDocument>;
+  private _mappings: SourceMapping[];
 
   constructor(ligoUri: vscode.Uri, contents: string) {
     this._ligoUri = ligoUri;
     this._contents = contents;
+    this._mappings = [];
   }
 
   public get ligoUri(): vscode.Uri {
@@ -128,6 +217,13 @@ class MichelsonView {
     this._contents = value;
   }
 
+  public get mappings(): SourceMapping[] {
+    return this._mappings;
+  }
+  public set mappings(value: SourceMapping[]) {
+    this._mappings = value;
+  }
+
   public get doc(): Maybe<vscode.TextDocument> {
     return this._doc;
   }
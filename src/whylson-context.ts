@@ -1,28 +1,78 @@
 import { posix } from "path";
 import { debounce } from "ts-debounce";
 import * as vscode from "vscode";
+import { AnnotationDecorator } from "./annotation-decorator";
+import { AnnotationLanguageFeatures } from "./annotation-language";
+import { annotations } from "./annotations";
+import { BinaryBackend, DockerBackend } from "./compiler-backend";
 import { Config } from "./config";
+import { contractMetrics } from "./contract-metrics";
+import { ContractsExplorer } from "./contracts-explorer";
+import { contracts } from "./contracts-file";
+import { dryRun } from "./dry-run";
+import { ExpressionsEditor } from "./expressions-editor";
+import { FlagsEditor } from "./flags-editor";
+import { WhylsonRuntimeError } from "./exceptions";
+import { LigoDiagnostics } from "./ligo-diagnostics";
+import { ligoSyntax } from "./ligo-syntax";
 import { Logger } from "./logger";
-import { CompilationResult, ContractEntryScheme, Maybe } from "./types";
+import { MichelsonLanguageFeatures } from "./michelson-language";
+import { MichelsonStackHints } from "./michelson-stack-hints";
+import { ProofDecorator } from "./proof-decorator";
+import { proofs } from "./proofs";
+import {
+  Annotation,
+  CompilationResult,
+  CompileAllFailure,
+  CompileAllFailureItem,
+  CompileAllOptions,
+  CompileAllReport,
+  CompilerBackend,
+  ContractEntryScheme,
+  ContractMetrics,
+  DryRunResult,
+  DryRunScenario,
+  EntryProofs,
+  ExplorerNode,
+  ExpressionResult,
+  Maybe,
+  ProofTracing,
+  ScenarioItem,
+  SnapshotItem,
+  SourceMapping,
+  TargetItem,
+  VerificationResult,
+  WhylsonTaskRun,
+} from "./types";
 import { io, utils, verifiers } from "./utils";
+import { SizeStatus } from "./size-status";
 import { ViewManager } from "./view-manager";
+import { WhylsonFolder } from "./whylson-folder";
+import { WhylsonSession } from "./whylson-session";
+import { WhylsonTaskProvider } from "./whylson-tasks";
 
 /**
  * Encapsulation of relevant data for a well functioning Ligo-Michelson pair view.
  */
 export class WhylsonContext {
   private readonly _context: vscode.ExtensionContext;
-  private readonly _rootFolder: Maybe<vscode.WorkspaceFolder>;
-  private readonly _contractsJsonUri: Maybe<vscode.Uri>;
-  private readonly _contractsBinUri: Maybe<vscode.Uri>;
+  private readonly _folders: Map<string, WhylsonFolder>;
   private readonly _log: Logger;
   private readonly _config: Config;
+  private _backend: CompilerBackend;
   private readonly _manager: ViewManager;
-  private readonly _watcher: Maybe<vscode.FileSystemWatcher>;
-  private _entries: ContractEntryScheme[];
-
-  private readonly cjpath = ".whylson/contracts.json" as const;
-  private readonly cbpath = ".whylson/bin-contracts/" as const;
+  private readonly _diagnostics: LigoDiagnostics;
+  private readonly _annotations: AnnotationDecorator;
+  private readonly _stackHints: MichelsonStackHints;
+  private readonly _proofs: ProofDecorator;
+  private readonly _sizeStatus: SizeStatus;
+  private readonly _explorer: ContractsExplorer;
+  private readonly _flagsEditor: FlagsEditor;
+  private readonly _expressionsEditor: ExpressionsEditor;
+  private readonly _sessions: Map<string, vscode.CancellationTokenSource>;
+  private readonly _compilations: Map<string, vscode.CancellationTokenSource>;
+  private readonly _saves: Map<string, Set<vscode.CancellationTokenSource>>;
+  private readonly _targets: Map<string, string>;
 
   /**
    * Creates a WhylsonContext instance.
@@ -33,39 +83,48 @@ export class WhylsonContext {
     this._context = context;
     this._log = new Logger(context);
     this._config = new Config(context);
+    this._backend = this.createBackend();
     this._manager = new ViewManager(context, this._log);
-    this._entries = [];
+    this._diagnostics = new LigoDiagnostics(context);
+    this._annotations = new AnnotationDecorator(context, this._config);
+    this._stackHints = new MichelsonStackHints(context, this._config);
+    this._proofs = new ProofDecorator(context);
+    this._sizeStatus = new SizeStatus(context);
+    this._folders = new Map<string, WhylsonFolder>();
+    this._explorer = new ContractsExplorer(context, () => [
+      ...this._folders.values(),
+    ]);
+    this._flagsEditor = new FlagsEditor(this._log, () => this._backend);
+    this._expressionsEditor = new ExpressionsEditor();
+    this._sessions = new Map<string, vscode.CancellationTokenSource>();
+    this._compilations = new Map<string, vscode.CancellationTokenSource>();
+    this._saves = new Map<string, Set<vscode.CancellationTokenSource>>();
+    this._targets = new Map<string, string>();
+    this.throttledDisplay = this.debounceDisplay();
 
     if (!this.isWorkspaceAvailable()) {
       vscode.window.showWarningMessage(
         "Whylson-Connector requires an available workspace to operate."
       );
-      return;
     }
-
-    this._rootFolder = vscode.workspace.workspaceFolders![0];
-    this._contractsJsonUri = vscode.Uri.parse(
-      posix.join(this._rootFolder.uri.fsPath, this.cjpath)
-    );
-    this._contractsBinUri = vscode.Uri.parse(
-      posix.join(this._rootFolder.uri.fsPath, this.cbpath)
-    );
-    this._watcher = vscode.workspace.createFileSystemWatcher(
-      new vscode.RelativePattern(this._rootFolder, this.cjpath),
-      true,
-      false,
-      true
-    );
   }
 
   /**
-   * Registers commands, events, providers and initializes `.whylson` folder.
+   * Registers commands, events, providers and initializes `.whylson` folders.
    */
   public async activate() {
-    if (this.checkups() && (await this.initWhylsonFolder())) {
+    if ((await this.checkups()) && (await this.initWhylsonFolders())) {
       this.registerEvents();
       this.registerCommands();
       this.registerProviders();
+      vscode.workspace.textDocuments.forEach((doc) => {
+        this._annotations.refresh(doc);
+        if (verifiers.isLigoFile(doc)) {
+          this.loadProofs(doc.uri);
+        }
+        this._stackHints.refresh(doc);
+      });
+      this.refreshSizeStatus();
     } else {
       vscode.window.showErrorMessage(
         `${this._context.extension.id} is unable to run.`
@@ -78,6 +137,11 @@ export class WhylsonContext {
    * Dispose all of the disposable resources.
    */
   public deactivate() {
+    this._sessions.forEach((source) => source.cancel());
+    this._compilations.forEach((source) => source.cancel());
+    this._saves.forEach((sources) => sources.forEach((s) => s.cancel()));
+    this._folders.forEach((folder) => folder.dispose());
+    this._folders.clear();
     this._context.subscriptions.forEach((disposable) => {
       disposable.dispose();
     });
@@ -95,171 +159,506 @@ export class WhylsonContext {
   }
 
   /**
-   * Attempts to find `".whylson/"` and its contents at root workfolder.
-   * If non existent, fills folder with contents.
+   * Initializes a `".whylson/"` folder for every workspace folder.
+   * @returns `true` if at least one folder is ready to be used, `false` otherwise.
    */
-  private async initWhylsonFolder() {
-    if (!this._rootFolder) {
+  private async initWhylsonFolders(): Promise<boolean> {
+    if (!this.isWorkspaceAvailable()) {
       return false;
     }
 
-    // Verify if "contracts.json" exists
-    // If exists, load contract schemes
-    if (!(await io.isExistsFile(this._contractsJsonUri!))) {
-      this.createContractsJSON();
-    } else {
-      this.loadContractEntries();
+    const ready = await Promise.all(
+      vscode.workspace.workspaceFolders!.map((f) => this.addFolder(f))
+    );
+    return ready.some((ok) => ok);
+  }
+
+  /**
+   * Starts tracking the `".whylson/"` folder of a workspace folder.
+   * @param folder Workspace folder to be tracked.
+   * @returns `true` if its `".whylson/"` folder is ready to be used, `false` otherwise.
+   */
+  private async addFolder(folder: vscode.WorkspaceFolder): Promise<boolean> {
+    const key = folder.uri.toString();
+    if (this._folders.has(key)) {
+      return true;
     }
 
-    // Verify if ".whylson/bin-contracts" exists
-    if (!(await io.isExistsFile(this._contractsBinUri!))) {
-      this.createContractsDir(false);
+    const wf = new WhylsonFolder(folder, this._log);
+    if (!(await wf.init())) {
+      wf.dispose();
+      return false;
     }
 
+    // Contracts of earlier versions all lie in bin-contracts, possibly overwriting each other
+    await wf.relocateContracts(this._config.getOutputPathTemplate(), (entry) =>
+      wf.isFlatLayout(entry)
+    );
+
+    this._folders.set(key, wf);
+    wf.onDidChangeEntries(() => this._explorer.refresh());
+    this._explorer.refresh();
     return true;
   }
 
   /**
-   * Runs verification functions guarateeing the well functioning
-   * of the extension.
-   * If verifications fail, all context disposables will be disposed.
+   * Stops tracking the `".whylson/"` folder of a workspace folder.
+   * @param folder Workspace folder no longer part of the workspace.
    */
-  private checkups() {
-    if (!verifiers.ligoBinaries()) {
-      vscode.window.showWarningMessage(
-        "LIGO not found in path, unable to start WhylsonContext"
-      );
-      return false;
-    }
-    return true;
+  private removeFolder(folder: vscode.WorkspaceFolder) {
+    const key = folder.uri.toString();
+    this._folders.get(key)?.dispose();
+    this._folders.delete(key);
+    this._explorer.refresh();
   }
 
   /**
-   * Creates a new `".whylson/contracts.json"` file.
-   * Recreating overwrites existing contents.
+   * Finds the `".whylson/"` folder responsible for a document.
+   * @param uri Uri of a ligo document.
+   * @returns Possibly the WhylsonFolder of the workspace folder containing the document.
    */
-  private async createContractsJSON() {
-    (await io.safeWrite(this._contractsJsonUri!, []))
-      ? this._log.info(`Created file at ${this._contractsJsonUri!.fsPath}`)
-      : vscode.window.showErrorMessage(`Unable to create ${this.cjpath}`);
+  private folderOf(uri: vscode.Uri): Maybe<WhylsonFolder> {
+    const folder = vscode.workspace.getWorkspaceFolder(uri);
+    return folder ? this._folders.get(folder.uri.toString()) : undefined;
   }
 
   /**
-   * Creates a new `".whylson/bin-contracts"` folder.
-   * @param reset If `true` recursively deletes contents and recreates folder.
+   * Runs verification functions guarateeing the well functioning
+   * of the extension.
+   * If verifications fail, all context disposables will be disposed.
    */
-  private async createContractsDir(reset: boolean) {
-    if (reset) {
-      await io.safeDelete(this._contractsBinUri!, {
-        recursive: true,
-      });
+  private async checkups() {
+    if (!(await this.detectCompiler())) {
+      vscode.window.showWarningMessage(
+        "LIGO not found, unable to start WhylsonContext"
+      );
+      return false;
     }
-
-    (await io.safeCreateDir(this._contractsBinUri!))
-      ? this._log.info(`Created directory at ${this._contractsBinUri!.fsPath}`)
-      : vscode.window.showErrorMessage(`Unable to create ${this.cbpath}`);
+    return true;
   }
 
   /**
-   * Attempts to load `contracts.json` contents into `_entries` attribute.
+   * Creates the backend running ligo, as configured.
+   * @returns A backend running a binary or a docker image.
    */
-  private async loadContractEntries() {
-    this._entries =
-      io.safeParse(await io.safeRead(this._contractsJsonUri!)) || this._entries;
+  private createBackend(): CompilerBackend {
+    return this._config.getCompilerBackend() === "docker"
+      ? new DockerBackend(this._config.getDockerImage())
+      : new BinaryBackend(this._config.getLigoPath());
   }
 
   /**
-   * Builds the michelson contract path from ligo document path.
-   * @param pathlike A uri or path value for a ligo document.
-   * @returns Uri or filepath to michelson contract.
+   * Detects the version of ligo run by the current backend, logging it.
+   * @returns `true` if ligo could be run, `false` otherwise.
    */
-  private ligoToMichelson<T extends string | vscode.Uri>(pathlike: T): T {
-    if (pathlike instanceof vscode.Uri) {
-      const base = posix.basename(pathlike.fsPath).split(".")[0].concat(".tz");
-      return pathlike.with({
-        path: posix.join(this._contractsBinUri!.fsPath, base),
-      }) as T;
+  private async detectCompiler(): Promise<boolean> {
+    const version = await this._backend.version();
+    if (!version) {
+      this._log.info(`Unable to run LIGO from ${this._backend.name}`);
+      return false;
     }
-    const base = posix.basename(pathlike).split(".")[0].concat(".tz");
-    return posix.join(this._contractsBinUri!.fsPath, base) as T;
+    this._log.info(`Using LIGO ${version.text} from ${this._backend.name}`);
+    return true;
   }
 
   /**
-   * Creates entry for activo ligo document on `contracts.json`.
-   * Any duplicates found in file are removed.
+   * Creates a new target entry for a ligo document on its folder's `contracts.json`.
+   * The first target of a document is named after its entrypoint,
+   * further targets are named by the user.
    * @param uri Uri of the active ligo document.
    * @return Possibly a `ContractEntryScheme` or a promise to one.
    */
   private async createContractEntry(
     uri: vscode.Uri
   ): Promise<Maybe<ContractEntryScheme>> {
-    // User prompt for entering an entrypoint
-    const ep = await utils.entrypointInput();
+    const folder = this.folderOf(uri);
+    if (!folder) {
+      return undefined;
+    }
+
+    // User picks one of the entrypoints found in the document, or types one
+    const doc = await vscode.workspace.openTextDocument(uri);
+    const ep = await utils.entrypointInput(ligoSyntax.entrypoints(doc));
     if (!ep) {
       return undefined;
     }
 
+    // Further targets are named by the user, unique among the document's targets
+    const existing = folder.getContractEntries(uri);
+    const target =
+      existing.length === 0
+        ? ep.name
+        : await utils.targetInput(
+            existing.map((e) => e.target),
+            ep.name
+          );
+    if (!target) {
+      return undefined;
+    }
+
+    const onPath = folder.michelsonPath(
+      uri.fsPath,
+      target,
+      this._config.getOutputPathTemplate()
+    );
+    if (!onPath) {
+      vscode.window.showErrorMessage(
+        `No free output path for ${posix.basename(
+          uri.fsPath
+        )} (${target}), check whylson-connector.outputPathTemplate.`
+      );
+      return undefined;
+    }
+
     // Create a new contract entry from active ligo doc and chosen entrypoint
     // Update internal list of entries, update `contracts.json`.
     const entry = utils.createEntry(
       uri.fsPath,
-      this.ligoToMichelson(uri.fsPath),
-      ep
+      onPath,
+      ep.entrypoint,
+      ep.flags,
+      target
     );
+    return (await folder.addContractEntry(entry)) ? entry : undefined;
+  }
 
-    // Remove entries that are already existent in file
-    const lst = this._entries.filter((ces) => ces.source !== uri.fsPath);
-
-    // safeWrite will automatically update entries
-    return (await io.safeWrite(this._contractsJsonUri!, [...lst, entry]))
-      ? entry
-      : undefined;
+  /**
+   * Retrieves every contract entry for a ligo document, one per target.
+   * @param uri Uri for a ligo document.
+   * @returns ContractEntryScheme objects for the ligo document.
+   */
+  private getContractEntries(uri: vscode.Uri): ContractEntryScheme[] {
+    return this.folderOf(uri)?.getContractEntries(uri) || [];
   }
 
   /**
-   * Retrieves the contract entry for the active ligo document.
-   * @param uri Uri for active ligo document.
-   * @returns Possibly a ContractEntryScheme object for active ligo document.
+   * Lets user pick one of the targets of a ligo document.
+   * A document with a single target needs no picking,
+   * further targets are added with the `add-target` command.
+   * @param uri Uri of a ligo document.
+   * @param placeHolder What the picked target is used for.
+   * @param allowNew Offers to create a new target, compiling it.
+   * @returns Possibly the entry of the picked target.
    */
-  private getContractEntry(uri: vscode.Uri): Maybe<ContractEntryScheme> {
-    return this._entries.find((ces) => ces.source === uri.fsPath);
+  private async pickTarget(
+    uri: vscode.Uri,
+    placeHolder: string,
+    allowNew: boolean = false
+  ): Promise<Maybe<ContractEntryScheme>> {
+    const entries = this.getContractEntries(uri);
+    if (entries.length === 1) {
+      return entries[0];
+    }
+    if (entries.length === 0) {
+      return allowNew
+        ? this.firstContractCompilation(
+            await vscode.workspace.openTextDocument(uri)
+          )
+        : undefined;
+    }
+
+    const shown = this._targets.get(uri.fsPath);
+    const items: TargetItem[] = entries.map((e) => ({
+      label: e.target,
+      description:
+        e.target === shown
+          ? `${contracts.entrypointLabel(e)}, shown`
+          : contracts.entrypointLabel(e),
+      detail: e.onPath,
+      entry: e,
+    }));
+    if (allowNew) {
+      items.push({ label: "$(add) New target..." });
+    }
+
+    const picked = await vscode.window.showQuickPick(items, {
+      title: `Targets of ${entries[0].title}`,
+      placeHolder: placeHolder,
+    });
+    if (!picked || picked.entry) {
+      return picked?.entry;
+    }
+    return this.firstContractCompilation(
+      await vscode.workspace.openTextDocument(uri)
+    );
   }
 
   /**
-   * Remove entry from `contracts.json` from a given ligo document.
-   * @param uri Uri for active ligo document.
+   * Remove the entry of a target from `contracts.json`.
+   * @param entry Entry of the target to be removed.
    * @returns `true` if removal is successful, `false` otherwise.
    */
-  private async removeContractEntry(uri: vscode.Uri): Promise<boolean> {
-    const lst = this._entries.filter((ces) => ces.source !== uri.fsPath);
-
-    // Modifying contracts.json will trigger onDidChange, updating entries automatically
-    return await io.safeWrite(this._contractsJsonUri!, lst);
+  private async removeContractEntry(
+    entry: ContractEntryScheme
+  ): Promise<boolean> {
+    const uri = vscode.Uri.file(entry.source);
+    const folder = this.folderOf(uri);
+    return folder ? await folder.removeContractEntry(uri, entry.target) : false;
   }
 
   /**
-   * Checks wheather active ligo document has its michelson counterpart
+   * Checks wheather a target has its michelson counterpart
    * stored in `".whylson/bin"` folder or not.
-   * @param doc Active ligo document in the editor.
+   * @param entry Entry of a target.
    * @returns `true` if contract is found, `false` otherwise.
    */
-  private async findContractBin(doc: vscode.TextDocument): Promise<boolean> {
-    return await io.isExistsFile(this.ligoToMichelson(doc.uri));
+  private async findContractBin(entry: ContractEntryScheme): Promise<boolean> {
+    return await io.isExistsFile(vscode.Uri.file(entry.onPath));
   }
 
   /**
    * Compile ligo source according to `ContractEntryScheme` object.
+   * Starting a compilation cancels the live compilation in flight for the same target.
+   * Compilations written to disk are never superseded, their `.tz` would go unwritten.
+   * Errors and warnings from compilation replace the diagnostics of the ligo source.
+   * @param ces An object describing ligo source metadata.
+   * @param save Controls wheather compiled code is also written to `onPath`.
+   * @param shadow Path of a copy of the unsaved ligo document, compiled instead of its source.
+   * @returns An object describring results from compilation process,
+   * `undefined` if it was superseded by a newer compilation or cancelled.
+   */
+  private async compileContract(
+    ces: ContractEntryScheme,
+    save: boolean,
+    shadow?: string
+  ): Promise<Maybe<CompilationResult>> {
+    const key = contracts.key(ces);
+    this.cancelLiveCompilation(key);
+    const source = new vscode.CancellationTokenSource();
+    if (save) {
+      this._saves.set(key, (this._saves.get(key) || new Set()).add(source));
+    } else {
+      this._compilations.set(key, source);
+    }
+
+    let result = await utils.compileEntry(
+      this._backend,
+      ces,
+      this._config.getSourceMapping(),
+      source.token,
+      this._config.getCompilationTimeout(),
+      shadow
+    );
+
+    // Expressions and size are only worth computing for a valid contract
+    // ? Live builds are intermediate states, sizes compare saved builds only
+    if (result?.ok) {
+      result = {
+        ...result,
+        expressions: await this.compileExpressions(ces, source.token, shadow),
+        size: save
+          ? await contractMetrics.measure(
+              this._backend,
+              ces,
+              source.token,
+              this._config.getCompilationTimeout()
+            )
+          : undefined,
+      };
+    }
+
+    const superseded = source.token.isCancellationRequested;
+    if (this._compilations.get(key) === source) {
+      this._compilations.delete(key);
+    }
+    this._saves.get(key)?.delete(source);
+    if (this._saves.get(key)?.size === 0) {
+      this._saves.delete(key);
+    }
+    source.dispose();
+
+    if (!result || superseded) {
+      return undefined;
+    }
+
+    this._diagnostics.publish(ces, result);
+
+    if (
+      save &&
+      result.ok &&
+      !(await io.safeWriteText(vscode.Uri.file(ces.onPath), result.content))
+    ) {
+      this._log.info(`Unable to write compiled contract to ${ces.onPath}`);
+      result = { ...result, ok: false };
+    }
+
+    if (save && result.ok) {
+      for (const e of result.expressions || []) {
+        const path = contracts.expressionPath(ces, e.kind, e.name);
+        if (
+          e.ok &&
+          !(await io.safeWriteText(vscode.Uri.file(path), e.content))
+        ) {
+          this._log.info(`Unable to write compiled ${e.kind} to ${path}`);
+        }
+      }
+    }
+
+    // Saved builds are kept as snapshots, to be compared with later ones
+    const limit = this._config.getHistoryLimit();
+    if (save && result.ok && limit > 0) {
+      const snapshot = await this.folderOf(
+        vscode.Uri.file(ces.source)
+      )?.snapshot(ces, result.content, limit);
+      if (snapshot) {
+        this._log.info(
+          `Kept build of ${ces.title} (${ces.target}) in ${snapshot.uri.fsPath}`
+        );
+      }
+    }
+
+    this._explorer.setCompilation(ces, result.ok);
+    if (save && result.ok) {
+      await this.recordSize(ces, result.size);
+    }
+    return result;
+  }
+
+  /**
+   * Keeps the size of a new build of a target, warning about regressions.
+   * Builds of the same size keep the size before them, to be compared against.
+   * @param ces An object describing ligo source metadata.
+   * @param size Size of the build in bytes, `undefined` if it could not be measured.
+   */
+  private async recordSize(ces: ContractEntryScheme, size: Maybe<number>) {
+    const folder = this.folderOf(vscode.Uri.file(ces.source));
+    if (!folder) {
+      return;
+    }
+    if (size === undefined) {
+      this._log.info(`Unable to measure ${ces.title} (${ces.target})`);
+      return;
+    }
+
+    const last = await folder.getMetrics(ces);
+    const metrics: ContractMetrics =
+      last?.size === size
+        ? { ...last, measuredAt: new Date().toISOString() }
+        : {
+            size: size,
+            previous: last?.size,
+            measuredAt: new Date().toISOString(),
+          };
+    if (!(await folder.saveMetrics(ces, metrics))) {
+      this._log.info(
+        `Unable to save size of ${ces.title} (${ces.target}) in ${WhylsonFolder.mtpath}`
+      );
+    }
+    this.refreshSizeStatus();
+
+    const regressions =
+      last?.size === size
+        ? []
+        : contractMetrics.regressions(
+            metrics,
+            this._config.getSizeThreshold(),
+            this._config.getSizeGrowthWarning()
+          );
+    if (regressions.length > 0) {
+      vscode.window.showWarningMessage(
+        `${ces.title} (${ces.target}) ${regressions.join(" and ")}.`
+      );
+    }
+  }
+
+  /**
+   * Shows the size of a target in the status bar, for the active ligo document
+   * or michelson view. The target shown in the view is preferred.
+   */
+  private async refreshSizeStatus() {
+    const doc = vscode.window.activeTextEditor?.document;
+    const view =
+      doc?.uri.scheme === ViewManager.scheme
+        ? this._manager.getView(doc.uri)
+        : undefined;
+    const source = view
+      ? view.ligoUri
+      : doc && verifiers.isLigoFile(doc)
+      ? doc.uri
+      : undefined;
+    const entries = source ? this.getContractEntries(source) : [];
+    const entry =
+      entries.find((e) =>
+        view
+          ? e.onPath === doc!.uri.fsPath
+          : e.target === this._targets.get(e.source)
+      ) || entries[0];
+    if (!entry) {
+      this._sizeStatus.hide();
+      return;
+    }
+
+    this._sizeStatus.show(
+      entry,
+      await this.folderOf(source!)?.getMetrics(entry),
+      this._config.getSizeThreshold()
+    );
+  }
+
+  /**
+   * Compiles the storage and parameter expressions of an entry, one at a time.
+   * Failures are reported in the output channel, diagnostics belong to the contract.
    * @param ces An object describing ligo source metadata.
-   * @param save Controls wheather to compile into standard output or file.
-   * @returns An object describring results from compilation process.
+   * @param token Cancelling the token aborts the remaining compilations.
+   * @param shadow File path to a copy of the ligo document compiled in its place.
+   * @returns Results of the expressions compiled before any cancellation.
    */
-  private compileContract(
+  private async compileExpressions(
     ces: ContractEntryScheme,
-    save: boolean
-  ): CompilationResult {
-    return save
-      ? utils.compileLigo(ces.source, ces)
-      : utils.compileLigo(ces.source, { ...ces, onPath: undefined });
+    token: vscode.CancellationToken,
+    shadow?: string
+  ): Promise<ExpressionResult[]> {
+    const results: ExpressionResult[] = [];
+    for (const { kind, name, expression } of contracts.expressions(ces)) {
+      let result = await utils.compileExpression(
+        this._backend,
+        shadow || ces.source,
+        kind,
+        expression,
+        { ...ces, onPath: undefined },
+        token,
+        this._config.getCompilationTimeout()
+      );
+      if (!result) {
+        break;
+      }
+      if (shadow) {
+        result = utils.unshadow(result, shadow, ces.source);
+      }
+
+      if (!result.ok) {
+        this._log.info(
+          `Unable to compile ${kind} ${name} of ${ces.title} (${ces.target}): ${result.messages}`
+        );
+      }
+      results.push({
+        kind,
+        name,
+        ok: result.ok,
+        content: result.content,
+        messages: result.messages,
+      });
+    }
+    return results;
+  }
+
+  /**
+   * Cancels the live compilation in flight for a target, if any.
+   * @param key Key of the target entry, as given by `contracts.key`.
+   */
+  private cancelLiveCompilation(key: string) {
+    this._compilations.get(key)?.cancel();
+    this._compilations.delete(key);
+  }
+
+  /**
+   * Cancels every compilation in flight for a target, those written to disk included.
+   * @param key Key of the target entry, as given by `contracts.key`.
+   */
+  private cancelCompilation(key: string) {
+    this.cancelLiveCompilation(key);
+    this._saves.get(key)?.forEach((source) => source.cancel());
+    this._saves.delete(key);
   }
 
   /**
@@ -267,21 +666,20 @@ export class WhylsonContext {
    * Attempts to create an entry followed by attempting to compile contract.
    * If successful, entry is accepted, otherwise, entry is removed.
    * @param doc Active ligo document in the editor.
-   * @returns Possibly an uri of the michelson compiled contract.
+   * @returns Possibly the entry of the new target.
    */
   private async firstContractCompilation(
     doc: vscode.TextDocument
   ): Promise<Maybe<ContractEntryScheme>> {
     const entry = await this.createContractEntry(doc.uri);
     if (entry) {
-      // This compilation results in outputting to file, resulting in no text
-      const { ok } = this.compileContract(entry, true);
-      if (ok) {
+      const result = await this.compileContract(entry, true);
+      if (result?.ok) {
         return entry;
       }
 
       vscode.window.showErrorMessage(`First compilation failed.`);
-      await this.removeContractEntry(doc.uri);
+      await this.removeContractEntry(entry);
       return undefined;
     }
     vscode.window.showErrorMessage(`Invalid entry for ligo contract.`);
@@ -289,13 +687,24 @@ export class WhylsonContext {
   }
 
   /**
-   * Attempts to find if specified uri has a visible michelson view.
+   * Attempts to find if any target of specified uri has a visible michelson view.
    * @param uri Uri of for ligo document whose contract is possibly displayed.
    * @returns `true` if michelson view for specified uri is visible, `false` otherwise.
    */
   private isContractDisplayed(uri: vscode.Uri) {
+    return this.getContractEntries(uri).some((e) => this.isTargetDisplayed(e));
+  }
+
+  /**
+   * Attempts to find if a target has a visible michelson view.
+   * @param entry Entry of a target.
+   * @returns `true` if michelson view of the target is visible, `false` otherwise.
+   */
+  private isTargetDisplayed(entry: ContractEntryScheme) {
     // Change uri scheme to match "michelson"
-    uri = this.ligoToMichelson(uri).with({ scheme: ViewManager.scheme });
+    const uri = vscode.Uri.file(entry.onPath).with({
+      scheme: ViewManager.scheme,
+    });
     // Filter visible text editors
     return !!vscode.window.visibleTextEditors.find(
       (ed) =>
@@ -305,210 +714,1464 @@ export class WhylsonContext {
   }
 
   /**
-   * Display contents of specified ligo source as michelson.
-   * If no contents are passed beforehand, attempts to read contract.
-   * @param uri Uri of the active ligo document.
+   * Display contents of a target as michelson, making it the target shown for its source.
+   * If no contents are passed beforehand, attempts to read contract and its expressions.
+   * Storage and parameter expressions follow the contract, each in its own section.
+   * @param entry Entry of the target.
    * @param contents Contents of the michelson contract.
+   * @param mappings Links between ligo source and `contents`, if known.
+   * @param expressions Storage and parameter expressions compiled with `contents`.
    */
-  private async displayContract(uri: vscode.Uri, contents: Maybe<string>) {
-    const michelsonUri = this.ligoToMichelson(uri);
+  private async displayContract(
+    entry: ContractEntryScheme,
+    contents: Maybe<string>,
+    mappings: SourceMapping[] = [],
+    expressions: Maybe<ExpressionResult[]> = undefined
+  ) {
+    const michelsonUri = vscode.Uri.file(entry.onPath);
     const contractText = contents || (await io.safeRead(michelsonUri));
-    this._manager.display(uri, michelsonUri, contractText);
+    const sections = (
+      contents ? expressions || [] : await this.readExpressions(entry)
+    ).map(
+      (e) => `\n# ----- ${e.kind} ${e.name} -----\n${e.content.trimEnd()}\n`
+    );
+
+    // Sections come last, mappings of the contract stay valid
+    this._targets.set(entry.source, entry.target);
+    await this._manager.display(
+      vscode.Uri.file(entry.source),
+      michelsonUri,
+      [contractText, ...sections].join(""),
+      mappings
+    );
+  }
+
+  /**
+   * Reads the michelson of the expressions of a target, as last saved.
+   * @param entry Entry of the target.
+   * @returns Expressions found on disk, missing ones are left out.
+   */
+  private async readExpressions(
+    entry: ContractEntryScheme
+  ): Promise<ExpressionResult[]> {
+    const found = await Promise.all(
+      contracts.expressions(entry).map(async ({ kind, name }) => ({
+        kind,
+        name,
+        ok: true,
+        content: await io.safeRead(
+          vscode.Uri.file(contracts.expressionPath(entry, kind, name))
+        ),
+        messages: "",
+      }))
+    );
+    return found.filter((e) => e.content);
   }
 
   /**
-   * Save ligo document, compile it, display it.
+   * Compile the buffer of a ligo document into its displayed targets, display them.
+   * Document is left unsaved, a hidden copy of its buffer is compiled instead.
    * A failed compilation displays an error in the michelson view.
    * @param doc `vscode.TextDocument` Active ligo document.
    */
   // * Requires arrow function to retain the "this" context in debounced function
   private throttledOnChangeActions = async (doc: vscode.TextDocument) => {
-    if (!(await doc.save())) {
+    const displayed = this.getContractEntries(doc.uri).filter((e) =>
+      this.isTargetDisplayed(e)
+    );
+    if (displayed.length === 0) {
       return;
     }
 
-    const entry = this.getContractEntry(doc.uri);
-    if (entry) {
-      const { disp, content } = this.compileContract(entry, false);
-      return disp
-        ? this._manager.display(doc.uri, this.ligoToMichelson(doc.uri), content)
-        : undefined;
+    // Copy is named after the version, overlapping edits never share one
+    const shadow = utils.shadowPath(doc.uri.fsPath, doc.version);
+    if (!(await io.safeWriteText(vscode.Uri.file(shadow), doc.getText()))) {
+      this._log.info(`Unable to write a copy of ${doc.uri.fsPath} to compile`);
+      return;
     }
-  };
-
-  // Triggers every when any change to a document in the tabs' group is made
-  // ? Modify to use threshold config as interval instead of 750 ms
-  private throttledDisplay = debounce(this.throttledOnChangeActions, 750, {
-    isImmediate: false,
-  });
 
-  // --------------------------------------------------------------------------
-  // --------------------------------------------------------------------------
-  // --------------------------------------------------------------------------
+    try {
+      await Promise.all(
+        displayed.map(async (entry) => {
+          // Superseded compilations never reach the view
+          const result = await this.compileContract(entry, false, shadow);
+          return result?.disp
+            ? this.displayContract(
+                entry,
+                result.content,
+                result.mappings,
+                result.expressions
+              )
+            : undefined;
+        })
+      );
+    } finally {
+      await io.safeDelete(vscode.Uri.file(shadow), undefined);
+    }
+  };
 
-  launchWhylson(contractPath: string) {
-    throw new Error("Method not implemented.");
+  /**
+   * Debounces live compilations by the `autoSaveThreshold` configuration.
+   * @returns A debounced `throttledOnChangeActions`.
+   */
+  private debounceDisplay() {
+    return debounce(
+      this.throttledOnChangeActions,
+      this._config.getAutoSaveThreshold() * 1000,
+      { isImmediate: false }
+    );
   }
 
-  // ------------------------------------------------------------------- //
-  //                     EVENTS & COMMANDS & PROVIDERS                   //
-  // ------------------------------------------------------------------- //
+  // Triggers every when any change to a document in the tabs' group is made
+  // * Assigned in constructor, recreated whenever the threshold configuration changes
+  private throttledDisplay: ReturnType<WhylsonContext["debounceDisplay"]>;
 
   /**
-   * Registers events that concern whylson context.
+   * Runs a Whylson session over the michelson contract of an entry.
+   * Session is shown as a cancellable notification, output goes to the output channel.
+   * @param entry Contract entry whose michelson contract is to be verified.
+   * @param task Terminal of the `verify` task running the session, which receives
+   * its progress and problems in place of notifications.
+   * @returns Possibly the results of the session, `undefined` if it was unable to run.
    */
-  private registerEvents() {
-    this._context.subscriptions.push(
-      vscode.workspace.onDidChangeTextDocument(async (e) => {
-        // 1. Proceed if ligo document
-        // 2. Proceed if auto save config is turned on
-        // 3. Proceed if michelson view for active ligo document is visible
-        if (
-          verifiers.isLigoFile(e.document) &&
-          this._config.getDocumentAutoSave() &&
-          this.isContractDisplayed(e.document.uri)
-        ) {
-          this.throttledDisplay(e.document);
-        }
-      })
+  private async launchWhylson(
+    entry: ContractEntryScheme,
+    task?: WhylsonTaskRun
+  ): Promise<Maybe<VerificationResult>> {
+    const fail = (message: string) => {
+      task ? task.write(message) : vscode.window.showErrorMessage(message);
+      return undefined;
+    };
+
+    // 1. Only one session per target at a time
+    if (this._sessions.has(contracts.key(entry))) {
+      return fail(`A Whylson session for ${entry.title} is already running.`);
+    }
+
+    // 2. Whylson must be reachable
+    if (!(await verifiers.whylsonBinaries())) {
+      return fail("Whylson not found in path, unable to start session.");
+    }
+
+    // 3. Contract is compiled from the document as saved now,
+    // so that the michelson and the annotations verified describe the same build
+    const doc = await vscode.workspace.openTextDocument(
+      vscode.Uri.file(entry.source)
     );
+    if (doc.isDirty && !(await doc.save())) {
+      return fail(
+        `Unable to save ${entry.source}, Whylson session not started.`
+      );
+    }
+    const compiled = await this.compileContract(entry, true);
+    if (!compiled?.ok) {
+      return fail(
+        `Unable to compile ${entry.title}, Whylson session not started.`
+      );
+    }
 
-    // Triggers everytime a document is saved
-    this._context.subscriptions.push(
-      vscode.workspace.onDidSaveTextDocument(async (e) => {
-        // 1. Ignore if not ligo document OR
-        // 2.1. Ignore if autosave configuration is on AND
-        // 2.2. Ignore if view of active ligo contract is visible
-        if (
-          !verifiers.isLigoFile(e) ||
-          (this._config.getDocumentAutoSave() &&
-            this.isContractDisplayed(e.uri))
-        ) {
-          return;
-        }
+    // 4. Goals of annotations already verified with this build are taken from cache,
+    // the build being told by its michelson without any annotation
+    const found = annotations.find(doc);
+    const folder = this.folderOf(doc.uri);
+    const build =
+      found.length > 0
+        ? await this.compileWithout(entry, doc, found, "build")
+        : compiled.content;
+    const record =
+      folder && build !== undefined
+        ? await folder.getProofCache(entry, build)
+        : undefined;
+    let cached = proofs.fromCache(record, found);
+    if (record && cached.pending.length === 0) {
+      const goals = proofs.goals(cached.tracing);
+      const result: VerificationResult = {
+        ok: proofs.proved(goals),
+        cancelled: false,
+        goals: goals,
+      };
+      this._log.info(
+        `Whylson results of ${entry.title} (${entry.target}) taken from ${WhylsonFolder.pcpath}`
+      );
+      this.reportVerification(entry, result);
+      this._explorer.setVerification(entry, result);
+      await this.recordProofs(entry, found, cached.tracing);
+      return result;
+    }
 
-        // ? Separate background compilation from compilation to michelson view
+    // 5. Only changed or new annotations are sent to Whylson
+    // ? Whylson takes no list of goals, it verifies the specifications carried into
+    // ? the michelson: cached annotations are blanked out of the copy it verifies
+    let verified = entry;
+    if (record && folder && build !== undefined) {
+      const partial = await this.compileWithout(
+        entry,
+        doc,
+        found.filter((_, i) => !cached.pending.includes(i)),
+        "pending"
+      );
+      const uri = folder.pendingContractFile(entry, build);
+      if (partial !== undefined && (await io.safeWriteText(uri, partial))) {
+        verified = { ...entry, onPath: uri.fsPath };
+        this._log.info(
+          `Whylson verifies ${cached.pending.length} of ${found.length} annotations of ${entry.title} (${entry.target}), others taken from ${WhylsonFolder.pcpath}`
+        );
+      } else {
+        cached = proofs.fromCache(undefined, found);
+      }
+    }
+    const sent = cached.pending.map((i) => found[i]);
 
-        // 3.1. Proceed only if there is contract entry
-        // 3.2. Autosave is off, saving attempts to compile contract
-        const entry = this.getContractEntry(e.uri);
-        if (entry && this._config.getOnSaveBackgroundCompilation()) {
-          const { ok, disp, content } = this.compileContract(entry, false);
-
-          // 4. Compile to modify michelson file on disk
-          if (ok) {
-            this.compileContract(entry, true);
-            this._log.info(`BG Compilation successful for ${e.uri.fsPath}`);
-          } else {
-            this._log.info(`BG Compilation failed for ${e.uri.fsPath}`);
-          }
+    const source = new vscode.CancellationTokenSource();
+    this._sessions.set(contracts.key(entry), source);
 
-          // 5. Only display if view is visible, can display both code and error
-          if (disp && this.isContractDisplayed(e.uri)) {
-            this.displayContract(e.uri, content);
-          }
-        }
-      })
-    );
+    const run = (
+      token: vscode.CancellationToken,
+      progress: vscode.Progress<{ message?: string }>
+    ) => {
+      token.onCancellationRequested(() => source.cancel());
+      return new WhylsonSession(verified, this._log).run(
+        folder?.folder.uri.fsPath || posix.dirname(entry.source),
+        source.token,
+        progress
+      );
+    };
 
-    // Triggers when any changes are made into configurations
-    this._context.subscriptions.push(
-      vscode.workspace.onDidChangeConfiguration((e) => {
-        if (e.affectsConfiguration("whylson-connector")) {
-          this._config.refresh();
-        }
-      })
-    );
+    try {
+      const session = task
+        ? await run(task.token, {
+            report: ({ message }) => message && task.write(message),
+          })
+        : await vscode.window.withProgress(
+            {
+              location: vscode.ProgressLocation.Notification,
+              title: `Whylson: ${entry.title}`,
+              cancellable: true,
+            },
+            (progress, token) => run(token, progress)
+          );
+      if (session.cancelled) {
+        this.reportVerification(entry, session);
+        this._explorer.setVerification(entry, session);
+        return session;
+      }
 
-    // Triggers when any changes are made into contracts.json file
-    // Minimize I/O by having the document loaded into memory
-    // ? May be a source of problems if too many contracts are loaded
-    this._context.subscriptions.push(
-      this._watcher!.onDidChange(async (e) => {
-        this.loadContractEntries();
-      })
-    );
+      const tracing = proofs.merge(cached, proofs.trace(sent, session.goals));
+      const goals = proofs.goals(tracing);
+      const result: VerificationResult = {
+        ok: session.ok && proofs.proved(goals),
+        cancelled: false,
+        goals: goals,
+      };
+      this.reportVerification(entry, result);
+      this._explorer.setVerification(entry, result);
+      if (
+        folder &&
+        build !== undefined &&
+        !(await folder.saveProofCache(
+          entry,
+          build,
+          proofs.toCache(found, tracing, session.ok, record)
+        ))
+      ) {
+        this._log.info(
+          `Unable to cache proof results of ${entry.title} (${entry.target}) in ${WhylsonFolder.pcpath}`
+        );
+      }
+      await this.recordProofs(entry, found, tracing);
+      return result;
+    } catch (error) {
+      if (error instanceof WhylsonRuntimeError) {
+        return fail(
+          `Whylson session failed for ${entry.title}: ${error.message}`
+        );
+      }
+      throw error;
+    } finally {
+      this._sessions.delete(contracts.key(entry));
+      source.dispose();
+    }
   }
 
   /**
-   * Registers Whylson-Connector extensions commands.
-   * Only some commands are available in the contributions menu.
+   * Compiles the contract of an entry from a copy of its document,
+   * some annotations being blanked out of the copy.
+   * @param entry Entry of the target.
+   * @param doc Ligo document of the entry, as saved.
+   * @param dropped Annotations of the document left out of the copy.
+   * @param purpose Names the copy apart from those of other compilations.
+   * @returns Possibly the michelson, `undefined` if the copy did not compile.
    */
-  private registerCommands() {
-    // Open the michelson view for current ligo document
-    this._context.subscriptions.push(
-      vscode.commands.registerCommand(
-        "whylson-connector.open-michelson-view",
-        async () => {
-          // This command is only ran when file is ligo due to contributes when clauses
-          const doc = vscode.window.activeTextEditor!.document;
-
-          // 1. Early return if contract is visible
-          if (this.isContractDisplayed(doc.uri)) {
-            return;
-          }
-
-          // 2. Contract found? Attempt to display it
-          // 3. Not found? Attempt to create, then attempt to display it
-          (await this.findContractBin(doc)) ||
-          (await this.firstContractCompilation(doc))
-            ? this.displayContract(doc.uri, undefined)
-            : undefined;
-        }
+  private async compileWithout(
+    entry: ContractEntryScheme,
+    doc: vscode.TextDocument,
+    dropped: Annotation[],
+    purpose: string
+  ): Promise<Maybe<string>> {
+    const shadow = vscode.Uri.file(
+      utils.shadowPath(
+        entry.source,
+        `${purpose}-${entry.target}-${doc.version}`
       )
     );
+    if (!(await io.safeWriteText(shadow, annotations.strip(doc, dropped)))) {
+      return undefined;
+    }
 
-    // Wipe out .whylson data remakes it
-    this._context.subscriptions.push(
+    try {
+      const result = await utils.compileEntry(
+        this._backend,
+        entry,
+        this._config.getSourceMapping(),
+        undefined,
+        this._config.getCompilationTimeout(),
+        shadow.fsPath
+      );
+      return result?.ok ? result.content : undefined;
+    } finally {
+      await io.safeDelete(shadow, undefined);
+    }
+  }
+
+  /**
+   * Writes per goal results into the output channel and notifies user with a summary.
+   * @param entry Contract entry that was verified.
+   * @param result Results of the Whylson session.
+   */
+  private reportVerification(
+    entry: ContractEntryScheme,
+    result: VerificationResult
+  ) {
+    if (result.cancelled) {
+      vscode.window.showInformationMessage(
+        `Whylson session for ${entry.title} was cancelled.`
+      );
+      return;
+    }
+
+    result.goals.forEach((g) =>
+      this._log.info(
+        `[${g.status.toUpperCase()}] ${g.goal}${g.detail ? ` ${g.detail}` : ""}`
+      )
+    );
+
+    const summary = WhylsonSession.summarize(result);
+    this._log.info(
+      `Whylson summary for ${entry.title}: ${summary}`,
+      !result.ok
+    );
+    result.ok
+      ? vscode.window.showInformationMessage(
+          `Whylson: ${entry.title}, ${summary}.`
+        )
+      : vscode.window.showWarningMessage(
+          `Whylson: ${entry.title}, ${summary}.`
+        );
+  }
+
+  /**
+   * Keeps the goals of a finished session traced back to the annotations of its ligo source
+   * in `proofs.json`, showing them on the document.
+   * @param entry Contract entry that was verified.
+   * @param found Annotations of the ligo source when verified.
+   * @param tracing Goals of the session, traced back to `found`.
+   */
+  private async recordProofs(
+    entry: ContractEntryScheme,
+    found: Annotation[],
+    tracing: ProofTracing
+  ) {
+    const uri = vscode.Uri.file(entry.source);
+    const results: EntryProofs = {
+      verifiedAt: new Date().toISOString(),
+      annotations: proofs.attach(found, tracing),
+    };
+    if (!(await this.folderOf(uri)?.saveProofs(entry, results))) {
+      this._log.info(
+        `Unable to save proof results of ${entry.title} (${entry.target}) in ${WhylsonFolder.prpath}`
+      );
+    }
+    await this.loadProofs(uri);
+  }
+
+  /**
+   * Reads the proof results of every target of a ligo document, showing them on it.
+   * @param uri Uri of a ligo document.
+   */
+  private async loadProofs(uri: vscode.Uri) {
+    const folder = this.folderOf(uri);
+    if (!folder) {
+      return;
+    }
+
+    const stored = await Promise.all(
+      this.getContractEntries(uri).map((e) => folder.getProofs(e))
+    );
+    this._proofs.set(
+      uri,
+      stored.filter((p): p is EntryProofs => p !== undefined)
+    );
+  }
+
+  /**
+   * Opens the michelson view of a target of a ligo document,
+   * creating its contract entry on first use.
+   * @param doc A ligo document, shown in the active editor.
+   * @param entry Entry of the target to be shown, picked by user if `undefined`.
+   */
+  private async openMichelsonView(
+    doc: vscode.TextDocument,
+    entry?: ContractEntryScheme
+  ) {
+    // 1. Contracts are stored in the ".whylson" folder of their workspace folder
+    if (!this.folderOf(doc.uri)) {
+      vscode.window.showWarningMessage(
+        "Document is not part of any workspace folder."
+      );
+      return;
+    }
+
+    // 2. No targets? Attempt to create one
+    // 3. Several targets? User picks one, or creates a new one
+    entry =
+      entry || (await this.pickTarget(doc.uri, "Target to be shown", true));
+    if (!entry) {
+      return;
+    }
+
+    // 4. Early return if target is visible
+    if (this.isTargetDisplayed(entry)) {
+      return;
+    }
+
+    // 5. Contract not found? Attempt to compile it, then attempt to display it
+    if (!(await this.findContractBin(entry))) {
+      const result = await this.compileContract(entry, true);
+      if (result?.disp) {
+        this.displayContract(
+          entry,
+          result.content,
+          result.mappings,
+          result.expressions
+        );
+      }
+      return;
+    }
+    await this.displayContract(entry, undefined);
+
+    // 6. Contract on disk carries no source locations, refresh view with them
+    if (this._config.getSourceMapping()) {
+      const result = await this.compileContract(entry, false);
+      if (result?.ok) {
+        this.displayContract(
+          entry,
+          result.content,
+          result.mappings,
+          result.expressions
+        );
+      }
+    }
+  }
+
+  /**
+   * Offers to move every compiled contract to the layout of the output path template.
+   * Entries keep their paths otherwise, only new targets follow the template.
+   */
+  private async offerRelocation() {
+    const choice = await vscode.window.showInformationMessage(
+      "Output path template changed, move existing Michelson contracts to the new layout?",
+      "Move Contracts"
+    );
+    if (choice !== "Move Contracts") {
+      return;
+    }
+
+    const template = this._config.getOutputPathTemplate();
+    let moved = 0;
+    for (const folder of this._folders.values()) {
+      moved += await folder.relocateContracts(template);
+    }
+    vscode.window.showInformationMessage(
+      `Moved ${moved} Michelson contract(s) to ${template}.`
+    );
+  }
+
+  /**
+   * Deletes the data of a target: its entry, michelson contract and diagnostics.
+   * @param entry Entry of the target.
+   */
+  private async eraseContractData(entry: ContractEntryScheme) {
+    // Remove entry from both memory and contracts.json
+    await this.removeContractEntry(entry);
+    this._explorer.forget(entry);
+    if (this._targets.get(entry.source) === entry.target) {
+      this._targets.delete(entry.source);
+    }
+
+    this._diagnostics.clear(entry);
+    const uri = vscode.Uri.file(entry.source);
+    const folder = this.folderOf(uri);
+    await Promise.all([
+      folder?.saveScenarios(entry, []),
+      folder?.removeSnapshots(entry),
+      folder
+        ?.saveMetrics(entry, undefined)
+        .then(() => this.refreshSizeStatus()),
+      folder?.saveProofs(entry, undefined).then(() => this.loadProofs(uri)),
+      folder?.removeProofCache(entry),
+      io.safeDelete(vscode.Uri.file(entry.onPath), undefined),
+      ...contracts
+        .expressions(entry)
+        .map(({ kind, name }) =>
+          io.safeDelete(
+            vscode.Uri.file(contracts.expressionPath(entry, kind, name)),
+            undefined
+          )
+        ),
+    ]);
+  }
+
+  /**
+   * Deletes the cached Whylson sessions of a target, or of every target,
+   * their next verification running Whylson again. Shown proof results are kept.
+   * @param entry Entry of the target, `undefined` for every target of the workspace.
+   */
+  private async clearProofCache(entry?: ContractEntryScheme) {
+    const folders = entry
+      ? [this.folderOf(vscode.Uri.file(entry.source))]
+      : [...this._folders.values()];
+    const cleared = await Promise.all(
+      folders.map((f) => f?.removeProofCache(entry) ?? false)
+    );
+
+    if (cleared.every((ok) => ok)) {
+      vscode.window.showInformationMessage(
+        entry
+          ? `Cleared proof cache of ${entry.title} (${entry.target}).`
+          : "Cleared proof caches of every contract."
+      );
+    } else {
+      vscode.window.showErrorMessage(
+        `Unable to delete ${WhylsonFolder.pcpath}${
+          entry ? ` of ${entry.title} (${entry.target})` : ""
+        }.`
+      );
+    }
+  }
+
+  /**
+   * Compiles a target to its output path.
+   * @param entry Entry of the target.
+   */
+  private async saveCompilation(entry: ContractEntryScheme) {
+    const result = await this.compileContract(entry, true);
+    if (!result) {
+      return;
+    }
+
+    return result.ok
+      ? this._log.info(
+          `Compilation successful for ${entry.source} (${entry.target})`
+        )
+      : this._log.info(`${result.messages}`, true);
+  }
+
+  /**
+   * Compiles and saves every target of every workspace folder, a few at a time,
+   * as a cancellable notification, then reports the failures.
+   * Scripts may run it silently, reading the returned report instead.
+   * @param options Parallelism and whether notifications are shown.
+   * @returns Outcome of the batch.
+   */
+  private async compileAll(
+    options: CompileAllOptions = {}
+  ): Promise<CompileAllReport> {
+    const entries = [...this._folders.values()].flatMap((f) => f.entries);
+    const parallelism =
+      options.parallelism ?? this._config.getCompileAllParallelism();
+
+    const compile = async (
+      token?: vscode.CancellationToken,
+      progress?: vscode.Progress<{ message?: string; increment?: number }>
+    ): Promise<CompileAllReport> => {
+      // Compilations in flight are aborted along with the batch
+      const cancellation = token?.onCancellationRequested(() =>
+        entries.forEach((e) => this.cancelCompilation(contracts.key(e)))
+      );
+      let done = 0;
+      const results = await utils.pool(
+        entries,
+        parallelism,
+        async (entry) => {
+          const result = await this.compileContract(entry, true);
+          progress?.report({
+            message: `${++done}/${entries.length} ${entry.title} (${
+              entry.target
+            })`,
+            increment: 100 / entries.length,
+          });
+          return result;
+        },
+        token
+      );
+      cancellation?.dispose();
+
+      return {
+        total: entries.length,
+        compiled: results.filter((r) => r?.ok).length,
+        failed: entries.flatMap((entry, i) => {
+          const result = results[i];
+          return result && !result.ok
+            ? [{ entry: entry, messages: result.messages }]
+            : [];
+        }),
+        cancelled: !!token?.isCancellationRequested,
+      };
+    };
+
+    if (options.silent) {
+      return await compile();
+    }
+    if (entries.length === 0) {
+      vscode.window.showInformationMessage("No contracts saved yet.");
+      return await compile();
+    }
+
+    const report = await vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title: "Compiling all contracts",
+        cancellable: true,
+      },
+      (progress, token) => compile(token, progress)
+    );
+    await this.reportCompileAll(report);
+    return report;
+  }
+
+  /**
+   * Writes the errors of every failed target into the output channel and notifies user,
+   * failed targets being offered to jump to their errors.
+   * @param report Outcome of a batch compilation.
+   */
+  private async reportCompileAll(report: CompileAllReport) {
+    report.failed.forEach(({ entry, messages }) =>
+      this._log.info(
+        `Compilation failed for ${entry.source} (${entry.target})\n${messages}`
+      )
+    );
+
+    const message = `Compiled ${report.compiled} of ${report.total} contracts${
+      report.cancelled ? " before cancellation" : ""
+    }${report.failed.length > 0 ? `, ${report.failed.length} failed` : ""}.`;
+    if (report.failed.length === 0) {
+      vscode.window.showInformationMessage(message);
+      return;
+    }
+
+    const choice = await vscode.window.showWarningMessage(
+      message,
+      "Show Failures"
+    );
+    if (choice === "Show Failures") {
+      await this.showCompileFailures(report.failed);
+    }
+  }
+
+  /**
+   * Lets user pick a failed target, opening its ligo document at the first error.
+   * @param failed Targets that failed to compile.
+   */
+  private async showCompileFailures(failed: CompileAllFailure[]) {
+    const picked = await vscode.window.showQuickPick<CompileAllFailureItem>(
+      failed.map((f) => ({
+        label: `${f.entry.title} (${f.entry.target})`,
+        description: vscode.workspace.asRelativePath(f.entry.source),
+        detail: f.messages
+          .split(/\r?\n/)
+          .find((l) => l.trim())
+          ?.trim(),
+        failure: f,
+      })),
+      { placeHolder: "Open the errors of a failed contract" }
+    );
+    if (!picked) {
+      return;
+    }
+
+    const uri = vscode.Uri.file(picked.failure.entry.source);
+    const [first] = vscode.languages
+      .getDiagnostics(uri)
+      .filter(
+        (d) =>
+          d.source === "ligo" && d.severity === vscode.DiagnosticSeverity.Error
+      );
+    await vscode.window.showTextDocument(uri, { selection: first?.range });
+  }
+
+  /**
+   * Edits the compile flags of a target and saves them.
+   * @param entry Entry of the target.
+   */
+  private async editCompileFlags(entry: ContractEntryScheme) {
+    const folder = this.folderOf(vscode.Uri.file(entry.source));
+    if (!folder) {
+      return;
+    }
+
+    const flags = await this._flagsEditor.edit(entry, (f) =>
+      utils.compileArgs(
+        entry.source,
+        utils.contractOptions(
+          { ...entry, flags: f },
+          this._config.getSourceMapping()
+        ).options
+      )
+    );
+    if (!flags) {
+      return;
+    }
+
+    (await folder.addContractEntry({ ...entry, flags: flags }))
+      ? this._log.info(
+          `Compile flags of ${entry.title} (${entry.target}): ${flags.join(
+            " "
+          )}`
+        )
+      : vscode.window.showErrorMessage(
+          `Unable to save compile flags of ${entry.title}.`
+        );
+  }
+
+  /**
+   * Lets user edit the storage and parameter expressions of a target.
+   * Target is recompiled with them, its view refreshed if visible.
+   * @param entry Entry of the target.
+   */
+  private async editExpressions(entry: ContractEntryScheme) {
+    const folder = this.folderOf(vscode.Uri.file(entry.source));
+    if (!folder) {
+      return;
+    }
+
+    const expressions = await this._expressionsEditor.edit(entry);
+    if (!expressions) {
+      return;
+    }
+
+    const updated = { ...entry, ...expressions };
+    if (!(await folder.addContractEntry(updated))) {
+      vscode.window.showErrorMessage(
+        `Unable to save storage and parameters of ${entry.title}.`
+      );
+      return;
+    }
+
+    const result = await this.compileContract(updated, true);
+    if (result?.disp && this.isTargetDisplayed(updated)) {
+      this.displayContract(
+        updated,
+        result.content,
+        result.mappings,
+        result.expressions
+      );
+    }
+  }
+
+  /**
+   * Lets user pick a dry run scenario of a target, or create one, then runs it.
+   * @param entry Entry of the target.
+   */
+  private async dryRunScenario(entry: ContractEntryScheme) {
+    const folder = this.folderOf(vscode.Uri.file(entry.source));
+    if (!folder) {
+      return;
+    }
+
+    const scenarios = await folder.getScenarios(entry);
+    const items: ScenarioItem[] = scenarios.map((s) => ({
+      label: s.name,
+      description: `${s.parameter} on ${s.storage}`,
+      detail: s.expected !== undefined ? `expects ${s.expected}` : undefined,
+      scenario: s,
+    }));
+    items.push({ label: "$(add) New scenario..." });
+
+    const picked =
+      scenarios.length === 0
+        ? items[0]
+        : await vscode.window.showQuickPick(items, {
+            title: `Dry runs of ${entry.title} (${entry.target})`,
+            placeHolder: "Scenario to be run",
+          });
+    if (!picked) {
+      return;
+    }
+
+    // New scenarios are saved before being run
+    const scenario =
+      picked.scenario ||
+      (await utils.scenarioInput(
+        entry,
+        scenarios.map((s) => s.name)
+      ));
+    if (!scenario) {
+      return;
+    }
+    if (
+      !picked.scenario &&
+      !(await folder.saveScenarios(entry, [...scenarios, scenario]))
+    ) {
+      vscode.window.showErrorMessage(
+        `Unable to save scenario ${scenario.name} in ${WhylsonFolder.scpath}.`
+      );
+      return;
+    }
+
+    await this.dryRun(entry, [scenario]);
+  }
+
+  /**
+   * Runs every dry run scenario of a target.
+   * @param entry Entry of the target.
+   */
+  private async dryRunAll(entry: ContractEntryScheme) {
+    const scenarios =
+      (await this.folderOf(vscode.Uri.file(entry.source))?.getScenarios(
+        entry
+      )) || [];
+    if (scenarios.length === 0) {
+      vscode.window.showInformationMessage(
+        `No dry run scenarios for ${entry.title} (${entry.target}) yet.`
+      );
+      return;
+    }
+    await this.dryRun(entry, scenarios);
+  }
+
+  /**
+   * Runs scenarios of a target one at a time, as a cancellable notification,
+   * then displays and reports their outcomes.
+   * @param entry Entry of the target.
+   * @param scenarios Scenarios to be run, in order.
+   */
+  private async dryRun(
+    entry: ContractEntryScheme,
+    scenarios: DryRunScenario[]
+  ) {
+    const results = await vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title: `Dry run: ${entry.title} (${entry.target})`,
+        cancellable: true,
+      },
+      async (progress, token) => {
+        const results: DryRunResult[] = [];
+        for (const scenario of scenarios) {
+          progress.report({
+            message: scenario.name,
+            increment: 100 / scenarios.length,
+          });
+          const result = await dryRun.run(
+            this._backend,
+            entry,
+            scenario,
+            token,
+            this._config.getCompilationTimeout()
+          );
+          if (!result) {
+            break;
+          }
+          results.push(result);
+        }
+        return results;
+      }
+    );
+    if (results.length === 0) {
+      return;
+    }
+
+    this._manager.display(
+      vscode.Uri.file(entry.source),
+      vscode.Uri.file(dryRun.viewPath(entry)),
+      dryRun.render(entry, results)
+    );
+    await this.reportDryRun(entry, results);
+  }
+
+  /**
+   * Writes the outcome of every scenario into the output channel and notifies user.
+   * Scenarios whose new storage differs from the expected one are reported,
+   * the new storage of a single run may be recorded as expected.
+   * @param entry Entry of the target.
+   * @param results Outcomes of the scenarios that were run.
+   */
+  private async reportDryRun(
+    entry: ContractEntryScheme,
+    results: DryRunResult[]
+  ) {
+    results.forEach((r) =>
+      this._log.info(
+        `[${dryRun.verdict(r)}] ${entry.title} (${entry.target}) ${
+          r.scenario.name
+        }${r.failure ? ` ${r.failure}` : ""}`
+      )
+    );
+
+    const verdicts = results.map((r) => dryRun.verdict(r));
+    const summary = [...new Set(verdicts)]
+      .map((v) => `${verdicts.filter((w) => w === v).length} ${v}`)
+      .join(", ");
+    const differing = results.filter((r) => r.matches === false);
+    const recordable =
+      results.length === 1 &&
+      results[0].status === "success" &&
+      results[0].matches !== true;
+
+    const message = `Dry run of ${entry.title} (${entry.target}): ${summary}.${
+      differing.length > 0
+        ? ` New storage differs from expected in ${differing
+            .map((r) => r.scenario.name)
+            .join(", ")}.`
+        : ""
+    }`;
+    const actions = recordable ? ["Record as Expected"] : [];
+    const choice =
+      differing.length > 0
+        ? await vscode.window.showWarningMessage(message, ...actions)
+        : await vscode.window.showInformationMessage(message, ...actions);
+    if (choice !== "Record as Expected") {
+      return;
+    }
+
+    const folder = this.folderOf(vscode.Uri.file(entry.source));
+    const scenarios = (await folder?.getScenarios(entry)) || [];
+    const { scenario, storage } = results[0];
+    (await folder?.saveScenarios(
+      entry,
+      scenarios.map((s) =>
+        s.name === scenario.name ? { ...s, expected: storage } : s
+      )
+    ))
+      ? this._log.info(`Expected storage of ${scenario.name}: ${storage}`)
+      : vscode.window.showErrorMessage(
+          `Unable to record expected storage of ${scenario.name}.`
+        );
+  }
+
+  /**
+   * Lets user pick an earlier build of a target, then compares it with the michelson view.
+   * @param entry Entry of the target.
+   */
+  private async compareSnapshot(entry: ContractEntryScheme) {
+    const snapshots =
+      (await this.folderOf(vscode.Uri.file(entry.source))?.getSnapshots(
+        entry
+      )) || [];
+    if (snapshots.length === 0) {
+      vscode.window.showInformationMessage(
+        `No earlier builds of ${entry.title} (${entry.target}) yet, they are kept whenever its contract is saved.`
+      );
+      return;
+    }
+
+    const items: SnapshotItem[] = snapshots.map((s, i) => ({
+      label: s.date.toLocaleString(),
+      description: `source ${s.sourceHash}`,
+      detail: i === 0 ? "Latest saved build" : undefined,
+      snapshot: s,
+    }));
+    const picked = await vscode.window.showQuickPick(items, {
+      title: `Builds of ${entry.title} (${entry.target})`,
+      placeHolder: "Build to compare the Michelson view with",
+    });
+    if (!picked) {
+      return;
+    }
+
+    await this.compareWithView(
+      entry,
+      picked.snapshot.uri,
+      `${entry.title} (${entry.target}) ${picked.label} ↔ Michelson view`
+    );
+  }
+
+  /**
+   * Compares the saved contract of a target with its michelson view.
+   * @param entry Entry of the target.
+   */
+  private async compareSaved(entry: ContractEntryScheme) {
+    if (!(await this.findContractBin(entry))) {
+      vscode.window.showWarningMessage(
+        `${entry.title} (${entry.target}) has no saved contract yet.`
+      );
+      return;
+    }
+
+    await this.compareWithView(
+      entry,
+      vscode.Uri.file(entry.onPath),
+      `${entry.title} (${entry.target}) saved ↔ Michelson view`
+    );
+  }
+
+  /**
+   * Opens a diff between a michelson file and the michelson view of a target.
+   * A view that is not open yet is loaded from disk first.
+   * @param entry Entry of the target.
+   * @param file Uri of the michelson file, left side of the diff.
+   * @param title Title of the diff editor.
+   */
+  private async compareWithView(
+    entry: ContractEntryScheme,
+    file: vscode.Uri,
+    title: string
+  ) {
+    const view = vscode.Uri.file(entry.onPath).with({
+      scheme: ViewManager.scheme,
+    });
+    if (this._manager.getView(view)?.doc?.isClosed !== false) {
+      await this.displayContract(entry, undefined);
+    }
+    await vscode.commands.executeCommand("vscode.diff", file, view, title);
+  }
+
+  /**
+   * Runs a command over a target of the active ligo document,
+   * picked by user when the document has several targets.
+   * @param placeHolder What the picked target is used for.
+   * @param action Command to run over the target.
+   */
+  private async withActiveTarget(
+    placeHolder: string,
+    action: (entry: ContractEntryScheme) => Promise<unknown>
+  ) {
+    const uri = vscode.window.activeTextEditor!.document.uri;
+    const entry = await this.pickTarget(uri, placeHolder);
+    if (!entry) {
+      if (this.getContractEntries(uri).length === 0) {
+        vscode.window.showWarningMessage(
+          "No contract entry for this document, open its Michelson view first."
+        );
+      }
+      return;
+    }
+    await action(entry);
+  }
+
+  // ------------------------------------------------------------------- //
+  //                     EVENTS & COMMANDS & PROVIDERS                   //
+  // ------------------------------------------------------------------- //
+
+  /**
+   * Registers events that concern whylson context.
+   */
+  private registerEvents() {
+    this._context.subscriptions.push(
+      vscode.workspace.onDidChangeTextDocument(async (e) => {
+        // Any edit makes the live compilations in flight outdated
+        // ? Saving ones compile the file on disk, which edits leave as it is
+        if (e.contentChanges.length > 0) {
+          this.getContractEntries(e.document.uri).forEach((entry) =>
+            this.cancelLiveCompilation(contracts.key(entry))
+          );
+          this._annotations.refresh(e.document);
+          this._stackHints.refresh(e.document);
+          this._proofs.refresh(e.document);
+        }
+
+        // 1. Proceed if ligo document
+        // 2. Proceed if auto save config is turned on
+        // 3. Proceed if michelson view for active ligo document is visible
+        if (
+          verifiers.isLigoFile(e.document) &&
+          this._config.getDocumentAutoSave() &&
+          this.isContractDisplayed(e.document.uri)
+        ) {
+          this.throttledDisplay(e.document);
+        }
+      })
+    );
+
+    // Triggers everytime a document is saved
+    this._context.subscriptions.push(
+      vscode.workspace.onDidSaveTextDocument(async (e) => {
+        // 1. Ignore if not ligo document OR
+        // 2.1. Ignore if autosave configuration is on AND
+        // 2.2. Ignore if view of active ligo contract is visible
+        if (
+          !verifiers.isLigoFile(e) ||
+          (this._config.getDocumentAutoSave() &&
+            this.isContractDisplayed(e.uri))
+        ) {
+          return;
+        }
+
+        // ? Separate background compilation from compilation to michelson view
+
+        // 3.1. Proceed only if there are contract entries
+        // 3.2. Autosave is off, saving attempts to compile every target
+        if (!this._config.getOnSaveBackgroundCompilation()) {
+          return;
+        }
+        await Promise.all(
+          this.getContractEntries(e.uri).map(async (entry) => {
+            // 4. A single compilation modifies michelson file on disk and feeds the view
+            const result = await this.compileContract(entry, true);
+            if (!result) {
+              return;
+            }
+
+            result.ok
+              ? this._log.info(
+                  `BG Compilation successful for ${e.uri.fsPath} (${entry.target})`
+                )
+              : this._log.info(
+                  `BG Compilation failed for ${e.uri.fsPath} (${entry.target})`
+                );
+
+            // 5. Only display if view is visible, can display both code and error
+            if (result.disp && this.isTargetDisplayed(entry)) {
+              this.displayContract(
+                entry,
+                result.content,
+                result.mappings,
+                result.expressions
+              );
+            }
+          })
+        );
+      })
+    );
+
+    // Triggers when any changes are made into configurations
+    this._context.subscriptions.push(
+      vscode.workspace.onDidChangeConfiguration((e) => {
+        if (e.affectsConfiguration("whylson-connector")) {
+          this._config.refresh();
+          this._annotations.refreshVisible();
+          this._stackHints.refreshHints();
+          this.refreshSizeStatus();
+        }
+        if (e.affectsConfiguration("whylson-connector.autoSaveThreshold")) {
+          // ? A compilation already scheduled still runs once, after the old interval
+          this.throttledDisplay = this.debounceDisplay();
+        }
+        if (
+          e.affectsConfiguration("whylson-connector.compilerBackend") ||
+          e.affectsConfiguration("whylson-connector.ligoPath") ||
+          e.affectsConfiguration("whylson-connector.dockerImage")
+        ) {
+          this._backend = this.createBackend();
+          this.detectCompiler().then((found) => {
+            if (!found) {
+              vscode.window.showWarningMessage(
+                `LIGO could not be run from ${this._backend.name}`
+              );
+            }
+          });
+        }
+        if (e.affectsConfiguration("whylson-connector.outputPathTemplate")) {
+          this.offerRelocation();
+        }
+      })
+    );
+
+    // Triggers when ligo documents or michelson views are opened, shown or closed
+    // Annotations are parsed on open, decorated when shown, views are typechecked on open
+    this._context.subscriptions.push(
+      vscode.workspace.onDidOpenTextDocument((doc) => {
+        this._annotations.refresh(doc);
+        this._stackHints.refresh(doc);
+        if (this._proofs.has(doc.uri)) {
+          this._proofs.refresh(doc);
+        } else if (verifiers.isLigoFile(doc)) {
+          this.loadProofs(doc.uri);
+        }
+      }),
+      vscode.window.onDidChangeVisibleTextEditors(() => {
+        this._annotations.refreshVisible();
+        this._proofs.refreshVisible();
+      }),
+      vscode.workspace.onDidCloseTextDocument((doc) => {
+        this._annotations.clear(doc);
+        this._stackHints.clear(doc);
+        this._proofs.clear(doc);
+      })
+    );
+
+    // Triggers when another editor becomes active, showing the size of its contract
+    this._context.subscriptions.push(
+      vscode.window.onDidChangeActiveTextEditor(() => this.refreshSizeStatus())
+    );
+
+    // Triggers when the cursor moves in any editor
+    // Ligo and michelson cursors are linked through source mappings
+    this._context.subscriptions.push(
+      vscode.window.onDidChangeTextEditorSelection((e) => {
+        if (!this._config.getSourceMapping()) {
+          return;
+        }
+
+        if (verifiers.isLigoFile(e.textEditor.document)) {
+          this._manager.highlightFromLigo(e.textEditor);
+        } else if (
+          e.textEditor.document.uri.scheme === ViewManager.scheme &&
+          e.kind === vscode.TextEditorSelectionChangeKind.Mouse
+        ) {
+          this._manager.revealLigo(e.textEditor);
+        }
+      })
+    );
+
+    // Triggers when workspace folders are added or removed
+    // Each folder keeps its own ".whylson" folder and contracts.json watcher
+    this._context.subscriptions.push(
+      vscode.workspace.onDidChangeWorkspaceFolders(async (e) => {
+        e.removed.forEach((f) => this.removeFolder(f));
+        await Promise.all(e.added.map((f) => this.addFolder(f)));
+      })
+    );
+  }
+
+  /**
+   * Registers Whylson-Connector extensions commands.
+   * Only some commands are available in the contributions menu.
+   */
+  private registerCommands() {
+    // Open the michelson view for current ligo document
+    // This command is only ran when file is ligo due to contributes when clauses
+    this._context.subscriptions.push(
+      vscode.commands.registerCommand(
+        "whylson-connector.open-michelson-view",
+        () => this.openMichelsonView(vscode.window.activeTextEditor!.document)
+      )
+    );
+
+    // Wipe out .whylson data of active ligo document's folder, remakes it
+    this._context.subscriptions.push(
       vscode.commands.registerCommand(
         "whylson-connector.remake-dot-whylson",
         () => {
-          this.createContractsJSON();
-          this.createContractsDir(true);
+          const folder = this.folderOf(
+            vscode.window.activeTextEditor!.document.uri
+          );
+          folder?.createContractsJSON();
+          folder?.createContractsDir(true);
         }
       )
     );
 
-    // Delete active ligo document's data (michelson and entry)
+    // Compile every target of the workspace
+    // Scripts may run it with `{ silent: true }`, getting the report back
     this._context.subscriptions.push(
       vscode.commands.registerCommand(
-        "whylson-connector.erase-contract-info",
+        "whylson-connector.compile-all",
+        (options?: CompileAllOptions) => this.compileAll(options)
+      )
+    );
+
+    // Add a compilation target to active ligo document, showing it
+    this._context.subscriptions.push(
+      vscode.commands.registerCommand(
+        "whylson-connector.add-target",
         async () => {
-          const uri = vscode.window.activeTextEditor!.document.uri;
+          const doc = vscode.window.activeTextEditor!.document;
+          if (!this.folderOf(doc.uri)) {
+            vscode.window.showWarningMessage(
+              "Document is not part of any workspace folder."
+            );
+            return;
+          }
 
-          // Remove entry from both memory and contracts.json
-          this.removeContractEntry(uri);
-          io.safeDelete(this.ligoToMichelson(uri), undefined);
+          const entry = await this.firstContractCompilation(doc);
+          if (entry) {
+            await this.openMichelsonView(doc, entry);
+          }
         }
       )
     );
 
+    // Delete data of a target of active ligo document (michelson and entry)
+    this._context.subscriptions.push(
+      vscode.commands.registerCommand(
+        "whylson-connector.erase-contract-info",
+        () =>
+          this.withActiveTarget("Target to be erased", (entry) =>
+            this.eraseContractData(entry)
+          )
+      )
+    );
+
     // Manually save compilation to specified outpath in entry
     this._context.subscriptions.push(
       vscode.commands.registerCommand(
         "whylson-connector.save-ligo-compilation",
-        async () => {
-          const uri = vscode.window.activeTextEditor!.document.uri;
+        () =>
+          this.withActiveTarget("Target to be compiled", (entry) =>
+            this.saveCompilation(entry)
+          )
+      )
+    );
+
+    // Verify the michelson contract of a target of active ligo document with Whylson
+    this._context.subscriptions.push(
+      vscode.commands.registerCommand("whylson-connector.start-session", () =>
+        this.withActiveTarget("Target to be verified", (entry) =>
+          this.launchWhylson(entry)
+        )
+      )
+    );
 
-          const entry = this.getContractEntry(uri);
+    // Forget cached Whylson sessions, of a target of active ligo document or of all of them
+    this._context.subscriptions.push(
+      vscode.commands.registerCommand(
+        "whylson-connector.clear-proof-cache",
+        () =>
+          this.withActiveTarget(
+            "Target whose proof cache is cleared",
+            (entry) => this.clearProofCache(entry)
+          )
+      ),
+      vscode.commands.registerCommand(
+        "whylson-connector.clear-all-proof-caches",
+        () => this.clearProofCache()
+      )
+    );
 
-          if (!entry) {
-            return;
-          }
+    // Edit compile flags of a target of active ligo document
+    this._context.subscriptions.push(
+      vscode.commands.registerCommand(
+        "whylson-connector.edit-compile-flags",
+        () =>
+          this.withActiveTarget("Target whose flags are edited", (entry) =>
+            this.editCompileFlags(entry)
+          )
+      ),
+      vscode.commands.registerCommand(
+        "whylson-connector.edit-expressions",
+        () =>
+          this.withActiveTarget(
+            "Target whose storage and parameters are edited",
+            (entry) => this.editExpressions(entry)
+          )
+      ),
+      vscode.commands.registerCommand("whylson-connector.dry-run", () =>
+        this.withActiveTarget("Target to be run", (entry) =>
+          this.dryRunScenario(entry)
+        )
+      ),
+      vscode.commands.registerCommand("whylson-connector.dry-run-all", () =>
+        this.withActiveTarget("Target whose scenarios are run", (entry) =>
+          this.dryRunAll(entry)
+        )
+      )
+    );
 
-          const { ok, content } = this.compileContract(entry, true);
-          return ok
-            ? this._log.info(`Compilation successful for ${uri.fsPath}`)
-            : this._log.info(`${content}`, true);
-        }
+    // Compare the michelson view of a target with an earlier or its saved build
+    this._context.subscriptions.push(
+      vscode.commands.registerCommand(
+        "whylson-connector.compare-snapshot",
+        () =>
+          this.withActiveTarget("Target whose builds are compared", (entry) =>
+            this.compareSnapshot(entry)
+          )
+      ),
+      vscode.commands.registerCommand("whylson-connector.compare-saved", () =>
+        this.withActiveTarget(
+          "Target whose saved contract is compared",
+          (entry) => this.compareSaved(entry)
+        )
       )
     );
 
-    // * Future Whylson start session
+    // Contracts explorer actions, acting on the entry of the clicked node
+    // * Editor commands require an active ligo document, these do not
     this._context.subscriptions.push(
-      vscode.commands.registerCommand("whylson-connector.start-session", () => {
-        // vscode.window.showErrorMessage("Not implemented yet.");
-      })
+      vscode.commands.registerCommand(
+        "whylson-connector.explorer-refresh",
+        () => this._explorer.refresh()
+      ),
+      vscode.commands.registerCommand(
+        "whylson-connector.explorer-open-source",
+        (node: ExplorerNode) =>
+          node.kind === "contract"
+            ? vscode.window.showTextDocument(vscode.Uri.file(node.entry.source))
+            : undefined
+      ),
+      vscode.commands.registerCommand(
+        "whylson-connector.explorer-open-michelson-view",
+        async (node: ExplorerNode) => {
+          if (node.kind === "contract") {
+            const editor = await vscode.window.showTextDocument(
+              vscode.Uri.file(node.entry.source)
+            );
+            await this.openMichelsonView(editor.document, node.entry);
+          }
+        }
+      ),
+      vscode.commands.registerCommand(
+        "whylson-connector.explorer-recompile",
+        (node: ExplorerNode) =>
+          node.kind === "contract"
+            ? this.saveCompilation(node.entry)
+            : undefined
+      ),
+      vscode.commands.registerCommand(
+        "whylson-connector.explorer-erase-contract-info",
+        (node: ExplorerNode) =>
+          node.kind === "contract"
+            ? this.eraseContractData(node.entry)
+            : undefined
+      ),
+      vscode.commands.registerCommand(
+        "whylson-connector.explorer-edit-compile-flags",
+        (node: ExplorerNode) =>
+          node.kind === "contract"
+            ? this.editCompileFlags(node.entry)
+            : undefined
+      ),
+      vscode.commands.registerCommand(
+        "whylson-connector.explorer-edit-expressions",
+        (node: ExplorerNode) =>
+          node.kind === "contract"
+            ? this.editExpressions(node.entry)
+            : undefined
+      ),
+      vscode.commands.registerCommand(
+        "whylson-connector.explorer-dry-run",
+        (node: ExplorerNode) =>
+          node.kind === "contract" ? this.dryRunScenario(node.entry) : undefined
+      ),
+      vscode.commands.registerCommand(
+        "whylson-connector.explorer-dry-run-all",
+        (node: ExplorerNode) =>
+          node.kind === "contract" ? this.dryRunAll(node.entry) : undefined
+      ),
+      vscode.commands.registerCommand(
+        "whylson-connector.explorer-compare-snapshot",
+        (node: ExplorerNode) =>
+          node.kind === "contract"
+            ? this.compareSnapshot(node.entry)
+            : undefined
+      ),
+      vscode.commands.registerCommand(
+        "whylson-connector.explorer-compare-saved",
+        (node: ExplorerNode) =>
+          node.kind === "contract" ? this.compareSaved(node.entry) : undefined
+      ),
+      vscode.commands.registerCommand(
+        "whylson-connector.explorer-start-session",
+        (node: ExplorerNode) =>
+          node.kind === "contract" ? this.launchWhylson(node.entry) : undefined
+      ),
+      vscode.commands.registerCommand(
+        "whylson-connector.explorer-clear-proof-cache",
+        (node: ExplorerNode) =>
+          node.kind === "contract"
+            ? this.clearProofCache(node.entry)
+            : undefined
+      )
     );
   }
 
@@ -522,5 +2185,65 @@ export class WhylsonContext {
         this._manager
       )
     );
+
+    const michelson = new MichelsonLanguageFeatures(this._context);
+    this._context.subscriptions.push(
+      vscode.languages.registerDocumentSymbolProvider(
+        MichelsonLanguageFeatures.selector,
+        michelson
+      ),
+      vscode.languages.registerFoldingRangeProvider(
+        MichelsonLanguageFeatures.selector,
+        michelson
+      ),
+      vscode.languages.registerHoverProvider(
+        MichelsonLanguageFeatures.selector,
+        michelson
+      ),
+      vscode.languages.registerInlayHintsProvider(
+        MichelsonStackHints.selector,
+        this._stackHints
+      )
+    );
+
+    const features = new AnnotationLanguageFeatures();
+    this._context.subscriptions.push(
+      vscode.languages.registerCompletionItemProvider(
+        AnnotationLanguageFeatures.selector,
+        features,
+        '"',
+        " ",
+        "{"
+      ),
+      vscode.languages.registerHoverProvider(
+        AnnotationLanguageFeatures.selector,
+        features
+      ),
+      vscode.languages.registerSignatureHelpProvider(
+        AnnotationLanguageFeatures.selector,
+        features,
+        '"',
+        " "
+      )
+    );
+
+    this._context.subscriptions.push(
+      vscode.window.createTreeView(ContractsExplorer.viewId, {
+        treeDataProvider: this._explorer,
+        showCollapseAll: true,
+      })
+    );
+
+    this._context.subscriptions.push(
+      vscode.tasks.registerTaskProvider(
+        WhylsonTaskProvider.type,
+        new WhylsonTaskProvider(
+          () => [...this._folders.values()],
+          () => this._backend,
+          this._config,
+          (entry, task) => this.launchWhylson(entry, task)
+        )
+      )
+    );
   }
 }
@@ -0,0 +1,843 @@
+import { createHash } from "crypto";
+import { posix } from "path";
+import * as vscode from "vscode";
+import { contractMetrics } from "./contract-metrics";
+import { contracts } from "./contracts-file";
+import { dryRun } from "./dry-run";
+import { Logger } from "./logger";
+import { proofs } from "./proofs";
+import {
+  ContractEntryScheme,
+  ContractMetrics,
+  DryRunScenario,
+  EntryProofs,
+  InvalidEntry,
+  Maybe,
+  ProofCacheRecord,
+  Snapshot,
+} from "./types";
+import { io } from "./utils";
+
+/**
+ * The `.whylson` folder of a single workspace folder, along with its contract entries.
+ */
+export class WhylsonFolder {
+  static readonly cjpath = ".whylson/contracts.json" as const;
+  static readonly cbpath = ".whylson/bin-contracts/" as const;
+  static readonly scpath = ".whylson/scenarios.json" as const;
+  static readonly hspath = ".whylson/history/" as const;
+  static readonly mtpath = ".whylson/metrics.json" as const;
+  static readonly prpath = ".whylson/proofs.json" as const;
+  static readonly pcpath = ".whylson/proof-cache/" as const;
+  static readonly defaultTemplate = "${relativeDir}/${fileName}/${target}.tz";
+
+  private readonly _folder: vscode.WorkspaceFolder;
+  private readonly _log: Logger;
+  private readonly _contractsJsonUri: vscode.Uri;
+  private readonly _contractsBinUri: vscode.Uri;
+  private readonly _scenariosJsonUri: vscode.Uri;
+  private readonly _historyUri: vscode.Uri;
+  private readonly _metricsJsonUri: vscode.Uri;
+  private readonly _proofsJsonUri: vscode.Uri;
+  private readonly _proofCacheUri: vscode.Uri;
+  private readonly _watcher: vscode.FileSystemWatcher;
+  private readonly _onDidChangeEntries: vscode.EventEmitter<void>;
+  private _entries: ContractEntryScheme[];
+  private _invalid: InvalidEntry[];
+  private _lastReport: string;
+  private _scenariosWrite: Promise<boolean>;
+  private _metricsWrite: Promise<boolean>;
+  private _proofsWrite: Promise<boolean>;
+
+  /**
+   * Creates a WhylsonFolder instance, `init` must be called before use.
+   * @param folder Workspace folder holding the `.whylson` folder.
+   * @param logger Logger for the extension output channel.
+   */
+  constructor(folder: vscode.WorkspaceFolder, logger: Logger) {
+    this._folder = folder;
+    this._log = logger;
+    this._entries = [];
+    this._invalid = [];
+    this._lastReport = "";
+    this._scenariosWrite = Promise.resolve(true);
+    this._metricsWrite = Promise.resolve(true);
+    this._proofsWrite = Promise.resolve(true);
+    this._onDidChangeEntries = new vscode.EventEmitter<void>();
+    this._contractsJsonUri = vscode.Uri.joinPath(
+      folder.uri,
+      WhylsonFolder.cjpath
+    );
+    this._contractsBinUri = vscode.Uri.joinPath(
+      folder.uri,
+      WhylsonFolder.cbpath
+    );
+    this._scenariosJsonUri = vscode.Uri.joinPath(
+      folder.uri,
+      WhylsonFolder.scpath
+    );
+    this._historyUri = vscode.Uri.joinPath(folder.uri, WhylsonFolder.hspath);
+    this._metricsJsonUri = vscode.Uri.joinPath(
+      folder.uri,
+      WhylsonFolder.mtpath
+    );
+    this._proofsJsonUri = vscode.Uri.joinPath(folder.uri, WhylsonFolder.prpath);
+    this._proofCacheUri = vscode.Uri.joinPath(folder.uri, WhylsonFolder.pcpath);
+
+    // Minimize I/O by having the document loaded into memory
+    // ? May be a source of problems if too many contracts are loaded
+    this._watcher = vscode.workspace.createFileSystemWatcher(
+      new vscode.RelativePattern(folder, WhylsonFolder.cjpath),
+      true,
+      false,
+      true
+    );
+    this._watcher.onDidChange(() => this.loadContractEntries());
+  }
+
+  public get folder(): vscode.WorkspaceFolder {
+    return this._folder;
+  }
+
+  public get entries(): ContractEntryScheme[] {
+    return this._entries;
+  }
+
+  public get invalidEntries(): InvalidEntry[] {
+    return this._invalid;
+  }
+
+  /**
+   * Fires whenever entries in memory change, from disk or from this extension.
+   */
+  public get onDidChangeEntries(): vscode.Event<void> {
+    return this._onDidChangeEntries.event;
+  }
+
+  /**
+   * Attempts to find `".whylson/"` and its contents at the workspace folder.
+   * If non existent, fills folder with contents.
+   * @returns `true` if folder is ready to be used, `false` otherwise.
+   */
+  public async init(): Promise<boolean> {
+    // Verify if "contracts.json" exists
+    // If exists, load contract schemes
+    if (!(await io.isExistsFile(this._contractsJsonUri))) {
+      await this.createContractsJSON();
+    } else {
+      await this.loadContractEntries();
+    }
+
+    // Verify if ".whylson/bin-contracts" exists
+    if (!(await io.isExistsFile(this._contractsBinUri))) {
+      await this.createContractsDir(false);
+    }
+
+    return true;
+  }
+
+  /**
+   * Release resources associated with WhylsonFolder.
+   */
+  public dispose() {
+    this._watcher.dispose();
+    this._onDidChangeEntries.dispose();
+  }
+
+  /**
+   * Creates a new `".whylson/contracts.json"` file.
+   * Recreating overwrites existing contents, invalid entries included.
+   */
+  public async createContractsJSON() {
+    this._invalid = [];
+    (await this.saveContractEntries([]))
+      ? this._log.info(`Created file at ${this._contractsJsonUri.fsPath}`)
+      : vscode.window.showErrorMessage(
+          `Unable to create ${WhylsonFolder.cjpath} in ${this._folder.name}`
+        );
+  }
+
+  /**
+   * Creates a new `".whylson/bin-contracts"` folder.
+   * @param reset If `true` recursively deletes contents and recreates folder.
+   */
+  public async createContractsDir(reset: boolean) {
+    if (reset) {
+      await io.safeDelete(this._contractsBinUri, {
+        recursive: true,
+      });
+    }
+
+    (await io.safeCreateDir(this._contractsBinUri))
+      ? this._log.info(`Created directory at ${this._contractsBinUri.fsPath}`)
+      : vscode.window.showErrorMessage(
+          `Unable to create ${WhylsonFolder.cbpath} in ${this._folder.name}`
+        );
+  }
+
+  /**
+   * Attempts to load `contracts.json` contents into `_entries` attribute.
+   * Older formats are migrated and written back, invalid entries are reported.
+   * An unusable file leaves previously loaded entries untouched.
+   */
+  public async loadContractEntries() {
+    const { entries, invalid, migrated, error } = contracts.parse(
+      await io.safeRead(this._contractsJsonUri)
+    );
+
+    if (error) {
+      this._log.info(
+        `Unable to load ${this._contractsJsonUri.fsPath}: ${error}`
+      );
+      vscode.window.showErrorMessage(
+        `${WhylsonFolder.cjpath} in ${this._folder.name} is unusable: ${error}`
+      );
+      return;
+    }
+
+    this._entries = entries;
+    this._invalid = invalid;
+    this._onDidChangeEntries.fire();
+    this.reportInvalidEntries();
+
+    if (migrated) {
+      (await this.saveContractEntries(entries))
+        ? this._log.info(
+            `Migrated ${this._contractsJsonUri.fsPath} to version ${contracts.version}`
+          )
+        : this._log.info(`Unable to migrate ${this._contractsJsonUri.fsPath}`);
+    }
+  }
+
+  /**
+   * Writes every problem of invalid entries into the output channel
+   * and warns user about them.
+   * Reloads caused by this extension's own writes are not reported twice.
+   */
+  private reportInvalidEntries() {
+    // Positions change once written back, report is identified by contents
+    const report = JSON.stringify(
+      this._invalid.map(({ value, problems }) => [value, problems])
+    );
+    if (this._invalid.length === 0 || report === this._lastReport) {
+      this._lastReport = report;
+      return;
+    }
+    this._lastReport = report;
+
+    this._invalid.forEach(({ index, problems }) =>
+      problems.forEach((problem) =>
+        this._log.info(
+          `${this._contractsJsonUri.fsPath}: contracts[${index}] ${problem}`
+        )
+      )
+    );
+
+    const indexes = this._invalid.map((i) => i.index).join(", ");
+    vscode.window
+      .showWarningMessage(
+        `${WhylsonFolder.cjpath} in ${this._folder.name} has invalid entries at positions ${indexes}, they are ignored.`,
+        "Open File",
+        "Show Problems"
+      )
+      .then((choice) => {
+        if (choice === "Open File") {
+          vscode.window.showTextDocument(this._contractsJsonUri);
+        } else if (choice === "Show Problems") {
+          this._log.info(`Invalid entries in ${this._folder.name}`, true);
+        }
+      });
+  }
+
+  /**
+   * Writes a list of entries into `contracts.json`, replacing its contents.
+   * Invalid entries are written back untouched, after the valid ones.
+   * @param entries The complete list of valid contract entries.
+   * @returns `true` if successful, `false` otherwise.
+   */
+  public async saveContractEntries(
+    entries: ContractEntryScheme[]
+  ): Promise<boolean> {
+    if (
+      !(await io.safeWrite(
+        this._contractsJsonUri,
+        contracts.serialize(entries, this._invalid),
+        2
+      ))
+    ) {
+      return false;
+    }
+
+    // Watcher reloads the file as well, memory is updated ahead of it
+    this._entries = entries;
+    this._onDidChangeEntries.fire();
+    return true;
+  }
+
+  /**
+   * Builds the michelson contract path of a target from an output path template.
+   * Template placeholders are `${relativeDir}`, directory of the ligo document relative
+   * to the workspace folder, `${fileName}`, `${baseName}`, `${extension}` and `${target}`.
+   * @param source File path to a ligo document of this folder.
+   * @param target Name of the compilation target.
+   * @param template Path of the contract relative to `".whylson/bin-contracts"`.
+   * @returns Possibly the filepath to michelson contract,
+   * `undefined` if template is unusable or leads out of `".whylson/bin-contracts"`.
+   */
+  public ligoToMichelson(
+    source: string,
+    target: string,
+    template: string
+  ): Maybe<string> {
+    const relative = posix.relative(
+      this._folder.uri.path,
+      vscode.Uri.file(source).path
+    );
+    const fileName = posix.basename(relative);
+    const extension = posix.extname(fileName);
+    const values: Record<string, string> = {
+      relativeDir: posix.dirname(relative),
+      fileName: fileName,
+      baseName: posix.basename(fileName, extension),
+      extension: extension.slice(1),
+      target: target,
+    };
+
+    let unknown = false;
+    const path = posix
+      .normalize(
+        template.replace(/\$\{(\w+)\}/g, (match, name: string) => {
+          unknown ||= !(name in values);
+          return values[name] ?? match;
+        })
+      )
+      .replace(/^\/+/, "");
+
+    if (
+      unknown ||
+      !path.endsWith(".tz") ||
+      path === ".tz" ||
+      path.startsWith("..")
+    ) {
+      return undefined;
+    }
+    return vscode.Uri.joinPath(this._contractsBinUri, path).fsPath;
+  }
+
+  /**
+   * Finds a michelson contract path for a target, not used by any other entry.
+   * Falls back to the default layout if the template is unusable or collides,
+   * the default layout mirroring the source tree so no two targets share a path.
+   * @param source File path to a ligo document of this folder.
+   * @param target Name of the compilation target.
+   * @param template Path of the contract relative to `".whylson/bin-contracts"`.
+   * @returns Possibly the filepath to michelson contract, `undefined` if none is free.
+   */
+  public michelsonPath(
+    source: string,
+    target: string,
+    template: string
+  ): Maybe<string> {
+    const isFree = (path: Maybe<string>): path is string =>
+      path !== undefined &&
+      !this._entries.some(
+        (ces) =>
+          ces.onPath === path &&
+          (ces.source !== source || ces.target !== target)
+      );
+
+    const preferred = this.ligoToMichelson(source, target, template);
+    if (isFree(preferred)) {
+      return preferred;
+    }
+
+    this._log.info(
+      preferred
+        ? `Output template ${template} maps ${source} (${target}) to ${preferred}, already used by another entry`
+        : `Output template ${template} is unusable for ${source} (${target})`
+    );
+    const fallback = this.ligoToMichelson(
+      source,
+      target,
+      WhylsonFolder.defaultTemplate
+    );
+    return isFree(fallback) ? fallback : undefined;
+  }
+
+  /**
+   * Moves the michelson contracts of some entries to the paths given by a template,
+   * updating their `onPath` in `contracts.json`.
+   * A contract shared by several entries cannot be told apart, it is deleted
+   * and recompiled when next needed. Entries whose files cannot be moved keep their paths.
+   * @param template Path of the contracts relative to `".whylson/bin-contracts"`.
+   * @param predicate Selects the entries to be moved, every entry if `undefined`.
+   * @returns The number of entries whose contract moved.
+   */
+  public async relocateContracts(
+    template: string,
+    predicate: (entry: ContractEntryScheme) => boolean = () => true
+  ): Promise<number> {
+    const shared = new Set(
+      this._entries
+        .map((ces) => ces.onPath)
+        .filter((path, i, paths) => paths.indexOf(path) !== i)
+    );
+    const left = new Set<string>();
+    const failed: string[] = [];
+    let moved = 0;
+
+    for (const entry of this._entries.filter(predicate)) {
+      const onPath = this.michelsonPath(entry.source, entry.target, template);
+      if (!onPath || onPath === entry.onPath) {
+        continue;
+      }
+
+      // Storage and parameter values lie next to their contract
+      const moves = [
+        [entry.onPath, onPath],
+        ...contracts
+          .expressions(entry)
+          .map(({ kind, name }) => [
+            contracts.expressionPath(entry, kind, name),
+            contracts.expressionPath({ ...entry, onPath }, kind, name),
+          ]),
+      ];
+      const done: string[][] = [];
+      let ok = true;
+      for (const [from, to] of moves) {
+        if (shared.has(entry.onPath)) {
+          left.add(from);
+        } else if (await io.isExistsFile(vscode.Uri.file(from))) {
+          ok = await io.safeRename(vscode.Uri.file(from), vscode.Uri.file(to));
+          if (!ok) {
+            break;
+          }
+          done.push([from, to]);
+        }
+      }
+
+      // ? Files moved so far are put back, the entry keeping its old path
+      if (!ok) {
+        for (const [from, to] of done.reverse()) {
+          await io.safeRename(vscode.Uri.file(to), vscode.Uri.file(from));
+        }
+        this._log.info(
+          `Unable to move contract of ${entry.title} (${entry.target}) from ${entry.onPath} to ${onPath}`
+        );
+        failed.push(`${entry.title} (${entry.target})`);
+        continue;
+      }
+
+      // Memory is updated right away, later paths are checked against it
+      this._entries = this._entries.map((ces) =>
+        contracts.key(ces) === contracts.key(entry) ? { ...ces, onPath } : ces
+      );
+      moved++;
+    }
+
+    // Shared contracts no longer used by any entry, along with their values
+    const used = new Set(
+      this._entries.flatMap((ces) => [
+        ces.onPath,
+        ...contracts
+          .expressions(ces)
+          .map(({ kind, name }) => contracts.expressionPath(ces, kind, name)),
+      ])
+    );
+    for (const path of left) {
+      if (!used.has(path)) {
+        await io.safeDelete(vscode.Uri.file(path), undefined);
+      }
+    }
+
+    if (failed.length > 0) {
+      vscode.window.showErrorMessage(
+        `Unable to move the Michelson contract of ${failed.join(
+          ", "
+        )}, kept at its previous path.`
+      );
+    }
+    if (moved > 0) {
+      (await this.saveContractEntries(this._entries))
+        ? this._log.info(
+            `Moved ${moved} contract(s) of ${this._folder.name} to layout ${template}`
+          )
+        : this._log.info(
+            `Unable to update ${this._contractsJsonUri.fsPath} after moving contracts`
+          );
+    }
+    return moved;
+  }
+
+  /**
+   * Checks wheather an entry uses the flat layout of earlier versions,
+   * contracts being named after their ligo document directly in `".whylson/bin-contracts"`.
+   * @param entry A contract entry.
+   * @returns `true` if the contract of the entry is in the flat layout, `false` otherwise.
+   */
+  public isFlatLayout(entry: ContractEntryScheme): boolean {
+    return (
+      posix.relative(
+        this._contractsBinUri.path,
+        posix.dirname(vscode.Uri.file(entry.onPath).path)
+      ) === ""
+    );
+  }
+
+  /**
+   * Retrieves every contract entry for a ligo document, one per target.
+   * @param uri Uri for a ligo document.
+   * @returns ContractEntryScheme objects for the ligo document, in file order.
+   */
+  public getContractEntries(uri: vscode.Uri): ContractEntryScheme[] {
+    return this._entries.filter((ces) => ces.source === uri.fsPath);
+  }
+
+  /**
+   * Retrieves the contract entry for a target of a ligo document.
+   * @param uri Uri for a ligo document.
+   * @param target Name of the compilation target.
+   * @returns Possibly a ContractEntryScheme object for the target.
+   */
+  public getContractEntry(
+    uri: vscode.Uri,
+    target: string
+  ): Maybe<ContractEntryScheme> {
+    return this._entries.find(
+      (ces) => ces.source === uri.fsPath && ces.target === target
+    );
+  }
+
+  /**
+   * Adds an entry to `contracts.json`, replacing any entry with the same target.
+   * @param entry The contract entry to be added.
+   * @returns `true` if successful, `false` otherwise.
+   */
+  public async addContractEntry(entry: ContractEntryScheme): Promise<boolean> {
+    // Replaced entries keep their position in the file
+    const known = this._entries.some(
+      (ces) => contracts.key(ces) === contracts.key(entry)
+    );
+    const lst = known
+      ? this._entries.map((ces) =>
+          contracts.key(ces) === contracts.key(entry) ? entry : ces
+        )
+      : [...this._entries, entry];
+    return await this.saveContractEntries(lst);
+  }
+
+  /**
+   * Remove entries from `contracts.json` for a given ligo document.
+   * @param uri Uri for a ligo document.
+   * @param target Name of the target to be removed, every target if `undefined`.
+   * @returns `true` if removal is successful, `false` otherwise.
+   */
+  public async removeContractEntry(
+    uri: vscode.Uri,
+    target?: string
+  ): Promise<boolean> {
+    const lst = this._entries.filter(
+      (ces) =>
+        ces.source !== uri.fsPath ||
+        (target !== undefined && ces.target !== target)
+    );
+    return await this.saveContractEntries(lst);
+  }
+
+  /**
+   * Reads the dry run scenarios of an entry from `scenarios.json`.
+   * File is read on every call, being meant to be edited by hand as well.
+   * @param entry A contract entry of this folder.
+   * @returns Scenarios of the entry, in file order.
+   */
+  public async getScenarios(
+    entry: ContractEntryScheme
+  ): Promise<DryRunScenario[]> {
+    const file = dryRun.read(await io.safeRead(this._scenariosJsonUri));
+    return file.scenarios[contracts.key(entry)] || [];
+  }
+
+  /**
+   * Replaces the dry run scenarios of an entry in `scenarios.json`.
+   * Writes are queued, so that scenarios recorded at once or an erase racing them
+   * do not drop each other. The file is indented to be edited by hand.
+   * @param entry A contract entry of this folder.
+   * @param scenarios Every scenario of the entry, none removes the entry from file.
+   * @returns `true` if successful, `false` otherwise.
+   */
+  public async saveScenarios(
+    entry: ContractEntryScheme,
+    scenarios: DryRunScenario[]
+  ): Promise<boolean> {
+    this._scenariosWrite = this._scenariosWrite.then(async () => {
+      const file = dryRun.read(await io.safeRead(this._scenariosJsonUri));
+      if (scenarios.length > 0) {
+        file.scenarios[contracts.key(entry)] = scenarios;
+      } else if (contracts.key(entry) in file.scenarios) {
+        delete file.scenarios[contracts.key(entry)];
+      } else {
+        return true;
+      }
+      return await io.safeWrite(this._scenariosJsonUri, file, 2);
+    });
+    return await this._scenariosWrite;
+  }
+
+  /**
+   * Reads the size of the latest build of an entry from `metrics.json`.
+   * @param entry A contract entry of this folder.
+   * @returns Possibly the metrics of the entry, `undefined` if never measured.
+   */
+  public async getMetrics(
+    entry: ContractEntryScheme
+  ): Promise<Maybe<ContractMetrics>> {
+    const file = contractMetrics.read(await io.safeRead(this._metricsJsonUri));
+    return file.metrics[contracts.key(entry)];
+  }
+
+  /**
+   * Replaces the metrics of an entry in `metrics.json`.
+   * Writes are queued, so that targets compiled at once do not drop each other's metrics.
+   * @param entry A contract entry of this folder.
+   * @param metrics Size of its latest build, `undefined` removes the entry from file.
+   * @returns `true` if successful, `false` otherwise.
+   */
+  public async saveMetrics(
+    entry: ContractEntryScheme,
+    metrics: Maybe<ContractMetrics>
+  ): Promise<boolean> {
+    this._metricsWrite = this._metricsWrite.then(async () => {
+      const file = contractMetrics.read(
+        await io.safeRead(this._metricsJsonUri)
+      );
+      if (metrics) {
+        file.metrics[contracts.key(entry)] = metrics;
+      } else if (contracts.key(entry) in file.metrics) {
+        delete file.metrics[contracts.key(entry)];
+      } else {
+        return true;
+      }
+      return await io.safeWrite(this._metricsJsonUri, file);
+    });
+    return await this._metricsWrite;
+  }
+
+  /**
+   * Reads the proof results of the latest verification of an entry from `proofs.json`.
+   * @param entry A contract entry of this folder.
+   * @returns Possibly the results of the entry, `undefined` if never verified.
+   */
+  public async getProofs(
+    entry: ContractEntryScheme
+  ): Promise<Maybe<EntryProofs>> {
+    const file = proofs.read(await io.safeRead(this._proofsJsonUri));
+    return file.proofs[contracts.key(entry)];
+  }
+
+  /**
+   * Replaces the proof results of an entry in `proofs.json`.
+   * Writes are queued, so that sessions ending at once or an erase racing them
+   * do not drop each other's results.
+   * @param entry A contract entry of this folder.
+   * @param results Results of its latest verification, `undefined` removes the entry from file.
+   * @returns `true` if successful, `false` otherwise.
+   */
+  public async saveProofs(
+    entry: ContractEntryScheme,
+    results: Maybe<EntryProofs>
+  ): Promise<boolean> {
+    this._proofsWrite = this._proofsWrite.then(async () => {
+      const file = proofs.read(await io.safeRead(this._proofsJsonUri));
+      if (results) {
+        file.proofs[contracts.key(entry)] = results;
+      } else if (contracts.key(entry) in file.proofs) {
+        delete file.proofs[contracts.key(entry)];
+      } else {
+        return true;
+      }
+      return await io.safeWrite(this._proofsJsonUri, file);
+    });
+    return await this._proofsWrite;
+  }
+
+  /**
+   * Reads the cached Whylson sessions of a build of an entry.
+   * @param entry A contract entry of this folder.
+   * @param michelson Michelson of the entry compiled without annotations.
+   * @returns Possibly the cached sessions, `undefined` if this build was never verified.
+   */
+  public async getProofCache(
+    entry: ContractEntryScheme,
+    michelson: string
+  ): Promise<Maybe<ProofCacheRecord>> {
+    return proofs.readCache(
+      await io.safeRead(this.proofCacheFile(entry, michelson))
+    );
+  }
+
+  /**
+   * Caches the Whylson sessions of a build of an entry, under the hash of its michelson.
+   * @param entry A contract entry of this folder.
+   * @param michelson Michelson of the entry compiled without annotations.
+   * @param record Results of the sessions.
+   * @returns `true` if successful, `false` otherwise.
+   */
+  public async saveProofCache(
+    entry: ContractEntryScheme,
+    michelson: string,
+    record: ProofCacheRecord
+  ): Promise<boolean> {
+    return await io.safeWrite(this.proofCacheFile(entry, michelson), record);
+  }
+
+  /**
+   * Deletes the cached Whylson sessions of an entry, or of every entry.
+   * @param entry A contract entry of this folder, `undefined` for all of them.
+   * @returns `true` if successful, `false` otherwise.
+   */
+  public async removeProofCache(
+    entry: Maybe<ContractEntryScheme>
+  ): Promise<boolean> {
+    const dir = entry
+      ? this.entryDir(this._proofCacheUri, entry)
+      : this._proofCacheUri;
+    return (
+      !(await io.isExistsFile(dir)) ||
+      (await io.safeDelete(dir, { recursive: true }))
+    );
+  }
+
+  /**
+   * Michelson sent to Whylson when only some annotations of a build are verified,
+   * kept next to the cache file of the build.
+   * @param entry A contract entry of this folder.
+   * @param michelson Michelson of the entry compiled without annotations.
+   * @returns Uri of the file, possibly missing.
+   */
+  public pendingContractFile(
+    entry: ContractEntryScheme,
+    michelson: string
+  ): vscode.Uri {
+    return vscode.Uri.joinPath(
+      this.entryDir(this._proofCacheUri, entry),
+      `${proofs.hash(michelson)}.pending.tz`
+    );
+  }
+
+  /**
+   * Keeps a compiled contract in `.whylson/history`, named after the time of
+   * compilation and the hash of its ligo source, then drops the oldest snapshots.
+   * A build identical to the latest snapshot, source included, is not kept twice.
+   * @param entry A contract entry of this folder.
+   * @param contents Michelson written to the entry's output path.
+   * @param limit Number of snapshots kept for the entry.
+   * @returns Possibly the new snapshot, `undefined` if none was written.
+   */
+  public async snapshot(
+    entry: ContractEntryScheme,
+    contents: string,
+    limit: number
+  ): Promise<Maybe<Snapshot>> {
+    const source = await io.safeRead(vscode.Uri.file(entry.source));
+    const hash = createHash("sha256").update(source).digest("hex").slice(0, 12);
+    const [latest] = await this.getSnapshots(entry);
+    if (
+      latest?.sourceHash === hash &&
+      (await io.safeRead(latest.uri)) === contents
+    ) {
+      return undefined;
+    }
+
+    const date = new Date();
+    const snapshot: Snapshot = {
+      uri: vscode.Uri.joinPath(
+        this.entryDir(this._historyUri, entry),
+        `${date.toISOString().replace(/[:.]/g, "-")}.${hash}.tz`
+      ),
+      date: date,
+      sourceHash: hash,
+    };
+    if (!(await io.safeWriteText(snapshot.uri, contents))) {
+      return undefined;
+    }
+
+    const stale = (await this.getSnapshots(entry)).slice(limit);
+    await Promise.all(stale.map((s) => io.safeDelete(s.uri, undefined)));
+    return snapshot;
+  }
+
+  /**
+   * Lists the snapshots of an entry, files not named by this extension are left out.
+   * @param entry A contract entry of this folder.
+   * @returns Snapshots of the entry, newest first.
+   */
+  public async getSnapshots(entry: ContractEntryScheme): Promise<Snapshot[]> {
+    const dir = this.entryDir(this._historyUri, entry);
+    let files: [string, vscode.FileType][];
+    try {
+      files = await vscode.workspace.fs.readDirectory(dir);
+    } catch {
+      return [];
+    }
+
+    const snapshots: Snapshot[] = [];
+    files.forEach(([name, type]) => {
+      const m =
+        /^(\d{4}-\d{2}-\d{2}T\d{2})-(\d{2})-(\d{2})-(\d{3}Z)\.([0-9a-f]+)\.tz$/.exec(
+          name
+        );
+      if (type === vscode.FileType.File && m) {
+        snapshots.push({
+          uri: vscode.Uri.joinPath(dir, name),
+          date: new Date(`${m[1]}:${m[2]}:${m[3]}.${m[4]}`),
+          sourceHash: m[5],
+        });
+      }
+    });
+    return snapshots.sort((a, b) => b.date.getTime() - a.date.getTime());
+  }
+
+  /**
+   * Deletes every snapshot of an entry.
+   * @param entry A contract entry of this folder.
+   * @returns `true` if successful, `false` otherwise.
+   */
+  public async removeSnapshots(entry: ContractEntryScheme): Promise<boolean> {
+    const dir = this.entryDir(this._historyUri, entry);
+    return (
+      !(await io.isExistsFile(dir)) ||
+      (await io.safeDelete(dir, { recursive: true }))
+    );
+  }
+
+  /**
+   * Cache file of a build of an entry, named after the hash of its michelson.
+   * @param entry A contract entry of this folder.
+   * @param michelson Michelson of the entry compiled without annotations.
+   * @returns Uri of the file, possibly missing.
+   */
+  private proofCacheFile(
+    entry: ContractEntryScheme,
+    michelson: string
+  ): vscode.Uri {
+    return vscode.Uri.joinPath(
+      this.entryDir(this._proofCacheUri, entry),
+      `${proofs.hash(michelson)}.json`
+    );
+  }
+
+  /**
+   * Folder of an entry under `root`, named after its source and target.
+   * Snapshots and caches are thus kept when contracts are moved to another layout.
+   * @param root Either the history or the proof cache folder.
+   * @param entry A contract entry of this folder.
+   * @returns Uri of the folder, possibly missing.
+   */
+  private entryDir(root: vscode.Uri, entry: ContractEntryScheme): vscode.Uri {
+    return vscode.Uri.joinPath(
+      root,
+      posix.relative(this._folder.uri.path, vscode.Uri.file(entry.source).path),
+      entry.target
+    );
+  }
+}
@@ -0,0 +1,161 @@
+import * as vscode from "vscode";
+import { WhylsonRuntimeError } from "./exceptions";
+import { Logger } from "./logger";
+import {
+  ContractEntryScheme,
+  GoalResult,
+  GoalStatus,
+  Maybe,
+  VerificationResult,
+} from "./types";
+import { utils } from "./utils";
+
+/**
+ * A single run of Whylson over the michelson contract of a contract entry.
+ */
+export class WhylsonSession {
+  static readonly executable = "whylson";
+
+  private readonly _entry: ContractEntryScheme;
+  private readonly _log: Logger;
+  private readonly _goals: GoalResult[];
+
+  /**
+   * Creates a WhylsonSession instance, the session starts on `run`.
+   * @param entry Contract entry whose michelson contract is to be verified.
+   * @param logger Logger receiving the output of Whylson.
+   */
+  constructor(entry: ContractEntryScheme, logger: Logger) {
+    this._entry = entry;
+    this._log = logger;
+    this._goals = [];
+  }
+
+  public get entry(): ContractEntryScheme {
+    return this._entry;
+  }
+
+  /**
+   * Runs Whylson as a child process, streaming its output to the logger.
+   * @param cwd Working directory for the Whylson process.
+   * @param token Cancelling the token kills the Whylson process.
+   * @param progress Progress reporter, receives every goal as it is reported.
+   * @returns An object describing the outcome of every goal found.
+   */
+  public async run(
+    cwd: string,
+    token: vscode.CancellationToken,
+    progress: vscode.Progress<{ message?: string }>
+  ): Promise<VerificationResult> {
+    this._log.info(`Whylson session started for ${this._entry.onPath}`, true);
+
+    const { code, cancelled, error } = await utils.runProcess(
+      WhylsonSession.executable,
+      [this._entry.onPath],
+      {
+        cwd: cwd,
+        token: token,
+        onLine: (line) => {
+          this._log.append(line);
+          const goal = WhylsonSession.parseGoal(line);
+          if (goal) {
+            this._goals.push(goal);
+            progress.report({ message: `${goal.goal}: ${goal.status}` });
+          }
+        },
+      }
+    );
+
+    if (error) {
+      throw new WhylsonRuntimeError(error.message);
+    }
+
+    this._log.info(
+      cancelled
+        ? `Whylson session cancelled for ${this._entry.onPath}`
+        : `Whylson session exited with code ${code} for ${this._entry.onPath}`
+    );
+
+    return {
+      ok:
+        !cancelled &&
+        code === 0 &&
+        this._goals.length > 0 &&
+        this._goals.every((g) => g.status === "proved"),
+      cancelled: cancelled,
+      goals: [...this._goals],
+    };
+  }
+
+  /**
+   * Attempts to read a goal outcome from a line of Whylson output.
+   * Expects Why3 prover lines such as `"VC for main : Valid (0.02s, 45 steps)."`,
+   * ending with the prover timing, so that warnings naming a status are not taken for goals.
+   * @param line A single line of Whylson output.
+   * @returns Possibly the goal and its outcome.
+   */
+  public static parseGoal(line: string): Maybe<GoalResult> {
+    const match = line.match(
+      /^\s*(.+?)\s+:\s+(Valid|Invalid|Failure|HighFailure|Timeout|OutOfMemory|StepLimitExceeded|Unknown)\b(.*\(\d+(?:\.\d+)?s(?:, \d+ steps)?\))\.?\s*$/
+    );
+    if (!match) {
+      return undefined;
+    }
+
+    const statuses: Record<string, GoalStatus> = {
+      valid: "proved",
+      invalid: "failed",
+      failure: "failed",
+      highfailure: "failed",
+      timeout: "timeout",
+      outofmemory: "timeout",
+      steplimitexceeded: "timeout",
+      unknown: "unknown",
+    };
+
+    return {
+      goal: match[1],
+      status: statuses[match[2].toLowerCase()],
+      detail: match[3].trim(),
+    };
+  }
+
+  /**
+   * Rewrites a goal not proved as a line read by the `$whylson` problem matcher,
+   * reported on the verified michelson file.
+   * @param goal A goal found in Whylson output.
+   * @param file File path of the verified michelson contract.
+   * @returns Possibly the line, `undefined` for proved goals.
+   */
+  public static condense(goal: GoalResult, file: string): Maybe<string> {
+    if (goal.status === "proved") {
+      return undefined;
+    }
+    const severity = goal.status === "failed" ? "error" : "warning";
+    return `whylson ${severity}: ${file}: ${goal.goal} ${goal.status}${
+      goal.detail ? ` ${goal.detail}` : ""
+    }`;
+  }
+
+  /**
+   * Builds a one line summary from the results of a session.
+   * @param result Results of a Whylson session.
+   * @returns Summary as string, e.g. `"2/3 goals proved, 1 failed"`.
+   */
+  public static summarize(result: VerificationResult): string {
+    if (result.goals.length === 0) {
+      return "no goals were reported";
+    }
+
+    const count = (status: GoalStatus) =>
+      result.goals.filter((g) => g.status === status).length;
+    const others = (["failed", "timeout", "unknown"] as GoalStatus[])
+      .filter((status) => count(status) > 0)
+      .map((status) => `${count(status)} ${status}`);
+
+    return [
+      `${count("proved")}/${result.goals.length} goals proved`,
+      ...others,
+    ].join(", ");
+  }
+}
@@ -0,0 +1,291 @@
+import { posix } from "path";
+import * as vscode from "vscode";
+import { Config } from "./config";
+import { contracts } from "./contracts-file";
+import { LigoDiagnostics } from "./ligo-diagnostics";
+import {
+  CompilationResult,
+  CompilerBackend,
+  ContractEntryScheme,
+  ExpressionKind,
+  Maybe,
+  VerificationResult,
+  WhylsonTaskDefinition,
+  WhylsonTaskRun,
+} from "./types";
+import { io, utils } from "./utils";
+import { WhylsonFolder } from "./whylson-folder";
+import { WhylsonSession } from "./whylson-session";
+
+/**
+ * Contributes `whylson` tasks compiling and verifying every entry of `contracts.json`.
+ * Compilations are built as in the michelson view, through `utils.compileEntry`,
+ * verifications run as Whylson sessions started from the editor.
+ */
+export class WhylsonTaskProvider implements vscode.TaskProvider {
+  static readonly type = "whylson";
+
+  private readonly _folders: () => WhylsonFolder[];
+  private readonly _backend: () => CompilerBackend;
+  private readonly _config: Config;
+  private readonly _launch: (
+    entry: ContractEntryScheme,
+    task: WhylsonTaskRun
+  ) => Promise<Maybe<VerificationResult>>;
+
+  /**
+   * Creates a WhylsonTaskProvider instance.
+   * @param folders Gets the folders whose entries are offered as tasks.
+   * @param backend Gets the backend ligo is currently run with.
+   * @param config Extension configurations, `compilationTimeout` and `sourceMapping` apply to tasks.
+   * @param launch Compiles an entry and runs a Whylson session over it, cached proofs
+   * and recorded results included, reporting to the task terminal.
+   */
+  constructor(
+    folders: () => WhylsonFolder[],
+    backend: () => CompilerBackend,
+    config: Config,
+    launch: (
+      entry: ContractEntryScheme,
+      task: WhylsonTaskRun
+    ) => Promise<Maybe<VerificationResult>>
+  ) {
+    this._folders = folders;
+    this._backend = backend;
+    this._config = config;
+    this._launch = launch;
+  }
+
+  /**
+   * Compile and verify tasks for every entry, and a compile task for each of its expressions.
+   */
+  provideTasks(): vscode.Task[] {
+    return this._folders().flatMap((folder) =>
+      folder.entries.flatMap((entry) => {
+        const base = {
+          type: WhylsonTaskProvider.type,
+          source: posix.relative(folder.folder.uri.fsPath, entry.source),
+          target: entry.target,
+        };
+        const definitions: WhylsonTaskDefinition[] = [
+          { ...base, action: "compile" },
+          ...contracts.expressions(entry).map(
+            ({ kind, name }): WhylsonTaskDefinition => ({
+              ...base,
+              action: `compile-${kind}`,
+              name: name,
+            })
+          ),
+          { ...base, action: "verify" },
+        ];
+        return definitions.map((d) => this.createTask(folder, entry, d));
+      })
+    );
+  }
+
+  /**
+   * Gives an execution to tasks written in `tasks.json`.
+   * @returns Possibly the task, `undefined` if its entry is not found.
+   */
+  resolveTask(task: vscode.Task): Maybe<vscode.Task> {
+    const definition = task.definition as WhylsonTaskDefinition;
+    const scope = task.scope;
+    const folder = this._folders().find(
+      (f) =>
+        typeof scope === "object" &&
+        f.folder.uri.toString() === scope.uri.toString()
+    );
+    const entry = folder?.entries.find(
+      (e) =>
+        e.target === definition.target &&
+        e.source === posix.join(folder.folder.uri.fsPath, definition.source)
+    );
+    return folder && entry
+      ? this.createTask(folder, entry, definition)
+      : undefined;
+  }
+
+  /**
+   * Creates the task of a definition, running in a terminal of its own.
+   * Compilations belong to the build group, verifications to the test group.
+   * @param folder Folder of the entry.
+   * @param entry Entry the task acts on.
+   * @param definition Definition of the task, kept as given.
+   * @returns A task reporting problems through `$ligo` or `$whylson`.
+   */
+  private createTask(
+    folder: WhylsonFolder,
+    entry: ContractEntryScheme,
+    definition: WhylsonTaskDefinition
+  ): vscode.Task {
+    const verify = definition.action === "verify";
+    const task = new vscode.Task(
+      definition,
+      folder.folder,
+      `${definition.action}${definition.name ? ` ${definition.name}` : ""}: ${
+        entry.title
+      } (${entry.target})`,
+      WhylsonTaskProvider.type,
+      new vscode.CustomExecution(
+        async () =>
+          new TaskTerminal((write, token) =>
+            verify
+              ? this.verify(entry, write, token)
+              : this.compile(entry, definition, write, token)
+          )
+      ),
+      verify ? ["$whylson"] : ["$ligo"]
+    );
+    task.group = verify ? vscode.TaskGroup.Test : vscode.TaskGroup.Build;
+    return task;
+  }
+
+  /**
+   * Compiles the contract or an expression of an entry, writing it next to the contract.
+   * Compiler messages are written condensed, one line of message per location.
+   * @param entry Entry of the contract.
+   * @param definition Definition of the task, naming the expression if any.
+   * @param write Writes a line to the task terminal.
+   * @param token Cancelling the token aborts the compilation.
+   * @returns Exit code of the task.
+   */
+  private async compile(
+    entry: ContractEntryScheme,
+    definition: WhylsonTaskDefinition,
+    write: (line: string) => void,
+    token: vscode.CancellationToken
+  ): Promise<number> {
+    const timeout = this._config.getCompilationTimeout();
+    let result: Maybe<CompilationResult>;
+    let path = entry.onPath;
+
+    if (definition.action === "compile") {
+      result = await utils.compileEntry(
+        this._backend(),
+        entry,
+        this._config.getSourceMapping(),
+        token,
+        timeout
+      );
+    } else {
+      const kind = definition.action.replace("compile-", "") as ExpressionKind;
+      const found = contracts
+        .expressions(entry)
+        .find((e) => e.kind === kind && e.name === definition.name);
+      if (!found) {
+        write(`No ${kind} named ${definition.name} in ${entry.title}.`);
+        return 1;
+      }
+      path = contracts.expressionPath(entry, kind, found.name);
+      result = await utils.compileExpression(
+        this._backend(),
+        entry.source,
+        kind,
+        found.expression,
+        { ...entry, onPath: undefined },
+        token,
+        timeout
+      );
+    }
+
+    if (!result) {
+      write("Compilation cancelled.");
+      return 1;
+    }
+    LigoDiagnostics.condense(result.messages, entry.source, !result.ok).forEach(
+      write
+    );
+    if (!result.ok) {
+      return 1;
+    }
+
+    if (!(await io.safeWriteText(vscode.Uri.file(path), result.content))) {
+      write(`Unable to write ${path}`);
+      return 1;
+    }
+    write(`Wrote ${path}`);
+    return 0;
+  }
+
+  /**
+   * Compiles an entry and verifies it as the `Start Whylson Session` command does.
+   * Goals not proved are also written condensed, for the `$whylson` problem matcher.
+   * @param entry Entry of the contract.
+   * @param write Writes a line to the task terminal.
+   * @param token Cancelling the token kills Whylson.
+   * @returns Exit code of the task, `0` if every goal was proved.
+   */
+  private async verify(
+    entry: ContractEntryScheme,
+    write: (line: string) => void,
+    token: vscode.CancellationToken
+  ): Promise<number> {
+    const result = await this._launch(entry, { write: write, token: token });
+    if (!result) {
+      return 1;
+    }
+
+    result.goals.forEach((goal) => {
+      const condensed = WhylsonSession.condense(goal, entry.onPath);
+      if (condensed) {
+        write(condensed);
+      }
+    });
+    write(
+      result.cancelled
+        ? "Whylson session cancelled."
+        : `Whylson: ${WhylsonSession.summarize(result)}.`
+    );
+    return result.ok ? 0 : 1;
+  }
+}
+
+/**
+ * Terminal of a custom task, closed with the exit code of its work.
+ */
+class TaskTerminal implements vscode.Pseudoterminal {
+  private readonly _work: (
+    write: (line: string) => void,
+    token: vscode.CancellationToken
+  ) => Promise<number>;
+  private readonly _cancellation: vscode.CancellationTokenSource;
+  private readonly _onDidWrite: vscode.EventEmitter<string>;
+  private readonly _onDidClose: vscode.EventEmitter<number>;
+  readonly onDidWrite: vscode.Event<string>;
+  readonly onDidClose: vscode.Event<number>;
+
+  /**
+   * Creates a TaskTerminal instance, the work starts once opened.
+   * @param work Writes lines while running, resolves to an exit code.
+   */
+  constructor(
+    work: (
+      write: (line: string) => void,
+      token: vscode.CancellationToken
+    ) => Promise<number>
+  ) {
+    this._work = work;
+    this._cancellation = new vscode.CancellationTokenSource();
+    this._onDidWrite = new vscode.EventEmitter<string>();
+    this._onDidClose = new vscode.EventEmitter<number>();
+    this.onDidWrite = this._onDidWrite.event;
+    this.onDidClose = this._onDidClose.event;
+  }
+
+  open() {
+    this._work(
+      (line) => this._onDidWrite.fire(`${line}\r\n`),
+      this._cancellation.token
+    ).then((code) => {
+      this._onDidClose.fire(code);
+      this._cancellation.dispose();
+    });
+  }
+
+  /**
+   * Terminal closed by user, the work is cancelled.
+   */
+  close() {
+    this._cancellation.cancel();
+  }
+}